@@ -1,14 +1,34 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { analyzeText, generatePractice, generateTopicStrategy } from './services/geminiService';
-import { AnalysisResult, SourceType, VocabularyItem, GeneratedPractice, AppMode, SavedAnalysis, Note, AnalysisFolder } from './types';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { analyzeTextChunked, generatePractice, generateTopicStrategy, ChunkProgress } from './services/geminiService';
+import { AnalysisResult, SourceType, VocabularyItem, GeneratedPractice, AppMode, SavedAnalysis, Note, AnalysisFolder, SavedVocabularyItem, ReviewGrade, ReviewLog, FlashcardLog, FlashcardResult, ExerciseType } from './types';
 import AnalysisView from './components/AnalysisView';
 import PracticeView from './components/PracticeView';
 import HistoryView from './components/HistoryView';
+import ReviewView from './components/ReviewView';
+import WordBankView from './components/WordBankView';
+import ImportDialog from './components/ImportDialog';
+import SyncConflictReport from './components/SyncConflictReport';
+import DocumentSectionPicker from './components/DocumentSectionPicker';
 import Sidebar from './components/Sidebar';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { dataService } from './services/dataService';
-import { Sparkles, FileText, Tv, Book, Mail, Loader2, ArrowRight, AlertCircle, Layers, Upload, File as FileIcon, X, Menu } from 'lucide-react';
+import { syncQueue, SyncStatus } from './services/syncQueue';
+import { createRepository } from './services/storage/repository';
+import { createDeviceBackend } from './services/storage/deviceBackend';
+import { StorageQuotaError } from './services/storage/errors';
+import { ApiError } from './services/apiErrors';
+import { rankForPractice } from './services/practiceService';
+import { usageService, UsageSummary } from './services/usageService';
+import { getProviderInfo, providerSettings } from './services/providers';
+import { createSupabaseBackend } from './services/storage/supabaseBackend';
+import { applyRemoteAnalysis, applyRemoteFolder, getLastSyncAt, mergeAnalyses, mergeFolders, setLastSyncAt, stampAnalysis, stampFolder, MergeConflict } from './services/mergeService';
+import { countDueCards, normalizeTerm, scheduleReview } from './services/srsService';
+import { SCHEMA_VERSION } from './services/schemaService';
+import { applyImport, parseExportFile, planImport, ConflictResolution, ImportPlan } from './services/importService';
+import { describeSelection, extractDocument, isEpubFile, isPdfFile, joinSections, DocumentSection, ExtractedDocument } from './services/documentService';
+import { attachTimestamps, isSubtitleFile, parseSubtitles, ParsedSubtitles } from './services/subtitleService';
+import { Sparkles, FileText, Tv, Book, Mail, Loader2, ArrowRight, AlertCircle, Layers, Upload, File as FileIcon, X, Menu, RefreshCw } from 'lucide-react';
 
 // Example text for quick start
 const EXAMPLE_TEXT = `While the tech giant's quarterly earnings beat expectations, the lukewarm guidance for Q4 sent shares tumbling in after-hours trading. Analysts cite saturating markets and headwinds in the supply chain as key factors dampening investor sentiment. However, bulls argue that the company's pivot to AI infrastructure is a long-term play that hasn't yet been priced in by the broader market.`;
@@ -23,6 +43,10 @@ const PRESET_TOPICS = [
 
 const BATCH_SIZE = 5;
 
+// Where saved analyses, folders and the word bank live on this device
+const localBackend = createDeviceBackend();
+syncQueue.setLocalBackend(localBackend);
+
 const AppContent: React.FC = () => {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   
@@ -33,6 +57,19 @@ const AppContent: React.FC = () => {
   const [sourceType, setSourceType] = useState<SourceType>(SourceType.NEWS);
   const [fileName, setFileName] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [pendingDocument, setPendingDocument] = useState<ExtractedDocument | null>(null);
+  // Cue timings for the loaded .srt/.vtt, used to timestamp vocabulary after analysis
+  const [subtitles, setSubtitles] = useState<ParsedSubtitles | null>(null);
+  // Long texts are analyzed in chunks; progress is null for single-call analyses
+  const [analysisProgress, setAnalysisProgress] = useState<ChunkProgress | null>(null);
+  // Set while an analysis or strategy request runs; also stops a double click starting a second one
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Whatever has streamed in so far, kept if the analysis stops early
+  const partialResultRef = useRef<AnalysisResult | null>(null);
+  const [isPartialResult, setIsPartialResult] = useState(false);
+  // When the shown result came from the response cache, the time it was first fetched
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
 
   // Topic Strategy State
   const [topicInput, setTopicInput] = useState('');
@@ -49,39 +86,79 @@ const AppContent: React.FC = () => {
   // Practice Queue State
   const [practiceQueue, setPracticeQueue] = useState<VocabularyItem[]>([]);
   const [practiceIndex, setPracticeIndex] = useState(0);
+  // The terms the current practice scenario was generated from
+  const [practiceBatch, setPracticeBatch] = useState<VocabularyItem[]>([]);
   const [isGeneratingNext, setIsGeneratingNext] = useState(false);
+  // Guards against a second click starting another practice request
+  const isPracticeRequestRunning = useRef(false);
 
   // History State
   const [savedAnalyses, setSavedAnalyses] = useState<SavedAnalysis[]>([]);
   const [analysisFolders, setAnalysisFolders] = useState<AnalysisFolder[]>([]);
+  const [savedVocabulary, setSavedVocabulary] = useState<SavedVocabularyItem[]>([]);
+  // Latest saved data for realtime handlers, which run outside render
+  const savedAnalysesRef = useRef(savedAnalyses);
+  const analysisFoldersRef = useRef(analysisFolders);
+  const savedVocabularyRef = useRef(savedVocabulary);
+  useEffect(() => { savedAnalysesRef.current = savedAnalyses; }, [savedAnalyses]);
+  useEffect(() => { analysisFoldersRef.current = analysisFolders; }, [analysisFolders]);
+  useEffect(() => { savedVocabularyRef.current = savedVocabulary; }, [savedVocabulary]);
+  // Every flashcard answer on this device, for building practice from weak terms
+  const [flashcardLogs, setFlashcardLogs] = useState<FlashcardLog[]>([]);
   const [isDataLoading, setIsDataLoading] = useState(false);
   const [currentAnalysisId, setCurrentAnalysisId] = useState<string | null>(null);
 
+  // Import State
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
   const resultRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const hasLoadedCloudData = useRef(false);
 
-  // Load data from localStorage
-  const loadLocalData = useCallback(() => {
-    const savedAnalysesData = localStorage.getItem('nativeNuance_analysisHistory');
-    if (savedAnalysesData) {
-      try {
-        setSavedAnalyses(JSON.parse(savedAnalysesData));
-      } catch (e) {
-        console.error("Failed to parse analysis history", e);
-      }
-    }
+  // Shown when this device can't save, e.g. because its storage is full
+  const [storageError, setStorageError] = useState<string | null>(null);
 
-    const savedFoldersData = localStorage.getItem('nativeNuance_analysisFolders');
-    if (savedFoldersData) {
-      try {
-        setAnalysisFolders(JSON.parse(savedFoldersData));
-      } catch (e) {
-        console.error("Failed to parse folders", e);
-      }
+  const userId = user?.id;
+  // All persistence goes through the repository; signed-in writes are also queued for the cloud
+  const repository = useMemo(
+    () => createRepository(localBackend, isAuthenticated && userId ? operations => syncQueue.enqueue(userId, operations) : null),
+    [isAuthenticated, userId]
+  );
+
+  // Outbox of cloud writes that haven't landed yet
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(syncQueue.getStatus());
+  // Fields edited both here and on another device since the last sync
+  const [syncConflicts, setSyncConflicts] = useState<MergeConflict[]>([]);
+
+  // Run a repository write, surfacing failures instead of leaving an unhandled rejection
+  const persist = useCallback(async (write: Promise<unknown>) => {
+    try {
+      await write;
+    } catch (e) {
+      console.error('Failed to save data on this device', e);
+      setStorageError(e instanceof StorageQuotaError ? e.message : 'Your latest change could not be saved on this device.');
     }
   }, []);
 
+  // Load data saved on this device
+  const loadLocalData = useCallback(async () => {
+    try {
+      const [analyses, folders, vocabulary] = await Promise.all([
+        repository.analyses.list(),
+        repository.folders.list(),
+        repository.vocabulary.list(),
+      ]);
+      setSavedAnalyses(analyses);
+      setAnalysisFolders(folders);
+      setSavedVocabulary(vocabulary);
+    } catch (e) {
+      console.error("Failed to load saved data", e);
+    }
+  }, [repository]);
+
   // Load data from Supabase
   const loadCloudData = useCallback(async (userId: string) => {
     setIsDataLoading(true);
@@ -89,35 +166,50 @@ const AppContent: React.FC = () => {
       // Record user visit
       await dataService.recordVisit(userId);
 
-      const [cloudAnalyses, cloudFolders] = await Promise.all([
-        dataService.fetchAnalyses(userId),
-        dataService.fetchFolders(userId),
-      ]);
+      // Replay writes made while offline or signed out before reading the cloud copy
+      await syncQueue.flush(userId);
 
-      // Merge with local data (cloud takes precedence)
-      const localAnalyses = JSON.parse(localStorage.getItem('nativeNuance_analysisHistory') || '[]');
-      const localFolders = JSON.parse(localStorage.getItem('nativeNuance_analysisFolders') || '[]');
+      const cloud = createSupabaseBackend(userId);
+      const [localAnalyses, localFolders, localVocabulary] = await Promise.all([
+        repository.analyses.list(),
+        repository.folders.list(),
+        repository.vocabulary.list(),
+      ]);
+      const [cloudAnalyses, cloudFolders, cloudVocabulary] = await Promise.all([
+        cloud.list('analyses'),
+        cloud.list('folders'),
+        cloud.list('vocabulary'),
+      ]);
 
-      // Upload any local-only data to cloud
-      if (localAnalyses.length > 0) {
-        await dataService.syncAnalyses(userId, localAnalyses);
-      }
-      if (localFolders.length > 0) {
-        await dataService.syncFolders(userId, localFolders);
-      }
+      // Vocabulary keeps the cloud copy; words only this device has are uploaded
+      const cloudVocabularyIds = new Set(cloudVocabulary.map(v => v.id));
+      const localOnlyVocabulary = localVocabulary.filter(v => !cloudVocabularyIds.has(v.id));
+      const mergedVocabulary = [...localOnlyVocabulary, ...cloudVocabulary].sort((a, b) => b.dateAdded - a.dateAdded);
 
-      // Fetch merged data
-      const [mergedAnalyses, mergedFolders] = await Promise.all([
-        dataService.fetchAnalyses(userId),
-        dataService.fetchFolders(userId),
-      ]);
+      // Merge field by field so offline edits on this device aren't discarded
+      const lastSyncAt = getLastSyncAt(userId);
+      const pendingDeletions = syncQueue.pendingDeletions(userId);
+      const folderMerge = mergeFolders(localFolders, cloudFolders, lastSyncAt, id => pendingDeletions.has(`folder:${id}`));
+      const analysisMerge = mergeAnalyses(localAnalyses, cloudAnalyses, lastSyncAt, id => pendingDeletions.has(`analysis:${id}`));
+      const mergedFolders = folderMerge.merged;
+      const mergedAnalyses = analysisMerge.merged;
 
       setSavedAnalyses(mergedAnalyses);
       setAnalysisFolders(mergedFolders);
-
-      // Update localStorage with merged data
-      localStorage.setItem('nativeNuance_analysisHistory', JSON.stringify(mergedAnalyses));
-      localStorage.setItem('nativeNuance_analysisFolders', JSON.stringify(mergedFolders));
+      setSavedVocabulary(mergedVocabulary);
+
+      await persist(Promise.all([
+        repository.analyses.replaceLocal(mergedAnalyses),
+        repository.folders.replaceLocal(mergedFolders),
+        repository.vocabulary.replaceLocal(mergedVocabulary),
+      ]));
+
+      // Send back what the cloud is missing; folders first so merged analyses can reference them
+      await persist(repository.folders.save(...folderMerge.toUpload));
+      await persist(repository.analyses.save(...analysisMerge.toUpload));
+      await persist(repository.vocabulary.save(...localOnlyVocabulary));
+      setLastSyncAt(userId, Date.now());
+      setSyncConflicts([...folderMerge.conflicts, ...analysisMerge.conflicts]);
     } catch (error) {
       console.error('Error loading cloud data:', error);
       // Fall back to local data
@@ -125,7 +217,36 @@ const AppContent: React.FC = () => {
     } finally {
       setIsDataLoading(false);
     }
-  }, [loadLocalData]);
+  }, [repository, persist, loadLocalData]);
+
+  useEffect(() => syncQueue.subscribe(setSyncStatus), []);
+
+  // Flashcard logs stay on this device, signed in or not
+  useEffect(() => {
+    repository.flashcardLogs.list()
+      .then(setFlashcardLogs)
+      .catch(e => console.error('Failed to load flashcard history', e));
+  }, [repository]);
+
+  // AI calls made today and this month, by this user or by signed-out use on this device
+  const [usage, setUsage] = useState<UsageSummary>(() => usageService.getSummary(null));
+  useEffect(() => {
+    const update = () => setUsage(usageService.getSummary(userId ?? null));
+    update();
+    return usageService.subscribe(update);
+  }, [userId]);
+
+  // The allowance only applies to the hosted provider
+  const [isProviderMetered, setIsProviderMetered] = useState(() => getProviderInfo(providerSettings.load().provider).isMetered);
+  useEffect(() => providerSettings.subscribe(settings => setIsProviderMetered(getProviderInfo(settings.provider).isMetered)), []);
+
+  // Replay queued writes as soon as the connection comes back
+  useEffect(() => {
+    if (!isAuthenticated || !user) return;
+    const handleOnline = () => syncQueue.flush(user.id);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [isAuthenticated, user]);
 
   // Initial data load
   useEffect(() => {
@@ -140,6 +261,41 @@ const AppContent: React.FC = () => {
     }
   }, [isAuthenticated, user, authLoading, loadCloudData, loadLocalData]);
 
+  // Patch state live with changes made on other devices, once the initial load has finished
+  useEffect(() => {
+    if (!isAuthenticated || !userId || isDataLoading || !hasLoadedCloudData.current) return;
+
+    const isDeletedLocally = (target: string) => syncQueue.pendingDeletions(userId).has(target);
+
+    // Next state is computed from the refs and saved here, not in a state updater, so it is written once
+    return dataService.subscribeToChanges(userId, {
+      onAnalysis: change => {
+        const next = applyRemoteAnalysis(savedAnalysesRef.current, change, getLastSyncAt(userId), id => isDeletedLocally(`analysis:${id}`));
+        savedAnalysesRef.current = next;
+        setSavedAnalyses(next);
+        persist(repository.analyses.replaceLocal(next));
+      },
+      onFolder: change => {
+        const next = applyRemoteFolder(analysisFoldersRef.current, change, getLastSyncAt(userId), id => isDeletedLocally(`folder:${id}`));
+        analysisFoldersRef.current = next;
+        setAnalysisFolders(next);
+        persist(repository.folders.replaceLocal(next));
+      },
+      // Vocabulary has no per-field history, so the cloud copy wins as on login
+      onVocabulary: change => {
+        const prev = savedVocabularyRef.current;
+        const next = change.type === 'delete'
+          ? prev.filter(v => v.id !== change.id)
+          : prev.some(v => v.id === change.record.id)
+            ? prev.map(v => v.id === change.record.id ? change.record : v)
+            : [change.record, ...prev];
+        savedVocabularyRef.current = next;
+        setSavedVocabulary(next);
+        persist(repository.vocabulary.replaceLocal(next));
+      },
+    });
+  }, [isAuthenticated, userId, isDataLoading, repository, persist]);
+
   const saveAnalysis = async (notes: Note[] = []) => {
     if (!analysisResult) return;
 
@@ -159,54 +315,67 @@ const AppContent: React.FC = () => {
 
     if (existingAnalysis) {
       // Update existing analysis (overwrite)
-      const updatedAnalysis: SavedAnalysis = {
+      const updatedAnalysis: SavedAnalysis = stampAnalysis(existingAnalysis, {
         ...existingAnalysis,
         date: Date.now(),
         sourceType,
         inputText, // Update with new content
         analysisResult,
         fileName,
-        notes: notes.length > 0 ? notes : existingAnalysis.notes // Preserve notes if not provided
-      };
+        notes: notes.length > 0 ? notes : existingAnalysis.notes, // Preserve notes if not provided
+        schemaVersion: SCHEMA_VERSION
+      });
 
       const newHistory = savedAnalyses.map(a => 
         a.id === existingAnalysis.id ? updatedAnalysis : a
       );
       setSavedAnalyses(newHistory);
-      localStorage.setItem('nativeNuance_analysisHistory', JSON.stringify(newHistory));
+      await persist(repository.analyses.save(updatedAnalysis));
 
-      // Sync to cloud if authenticated
-      if (isAuthenticated && user) {
-        await dataService.updateAnalysis(user.id, updatedAnalysis);
-      }
+      setCurrentAnalysisId(existingAnalysis.id);
+      await linkVocabularyToAnalysis(existingAnalysis.id, analysisResult.vocabulary);
     } else {
       // Create new analysis
-      const newAnalysis: SavedAnalysis = {
+      const newAnalysis: SavedAnalysis = stampAnalysis(undefined, {
         id: crypto.randomUUID(),
         date: Date.now(),
         sourceType,
         inputText,
         analysisResult,
         fileName,
-        notes
-      };
+        notes,
+        schemaVersion: SCHEMA_VERSION
+      });
 
       const newHistory = [newAnalysis, ...savedAnalyses];
       setSavedAnalyses(newHistory);
-      localStorage.setItem('nativeNuance_analysisHistory', JSON.stringify(newHistory));
-
-      // Sync to cloud if authenticated
-      if (isAuthenticated && user) {
-        await dataService.saveAnalysis(user.id, newAnalysis);
-      }
+      await persist(repository.analyses.save(newAnalysis));
+      setCurrentAnalysisId(newAnalysis.id);
+      await linkVocabularyToAnalysis(newAnalysis.id, analysisResult.vocabulary);
     }
   };
 
+  // Terms starred before the analysis was saved have no source yet; point them at it
+  const linkVocabularyToAnalysis = async (analysisId: string, vocabulary: VocabularyItem[]) => {
+    const terms = new Set(vocabulary.map(v => normalizeTerm(v.term)));
+    const orphans = savedVocabulary.filter(v => !v.analysisId && terms.has(normalizeTerm(v.term)));
+    if (orphans.length === 0) return;
+
+    const linked = orphans.map(v => ({ ...v, analysisId }));
+    const newVocabulary = savedVocabulary.map(v => linked.find(l => l.id === v.id) || v);
+    setSavedVocabulary(newVocabulary);
+    await persist(repository.vocabulary.save(...linked));
+  };
+
   const loadAnalysis = (analysis: SavedAnalysis) => {
     setInputText(analysis.inputText);
     setSourceType(analysis.sourceType);
     setAnalysisResult(analysis.analysisResult);
+    setIsPartialResult(false);
+    setCachedAt(null);
+    setError(null);
     setFileName(analysis.fileName || null);
+    setSubtitles(null);
     setCurrentAnalysisId(analysis.id);
     setMode(AppMode.ANALYZE_TEXT);
     setStatus('complete');
@@ -215,12 +384,7 @@ const AppContent: React.FC = () => {
   const removeAnalysis = async (id: string) => {
     const newHistory = savedAnalyses.filter(a => a.id !== id);
     setSavedAnalyses(newHistory);
-    localStorage.setItem('nativeNuance_analysisHistory', JSON.stringify(newHistory));
-
-    // Sync to cloud if authenticated
-    if (isAuthenticated && user) {
-      await dataService.deleteAnalysis(user.id, id);
-    }
+    await persist(repository.analyses.remove(id));
 
     // If current analysis is removed, reset view
     if (analysisResult && savedAnalyses.find(a => a.id === id)?.analysisResult === analysisResult) {
@@ -230,104 +394,242 @@ const AppContent: React.FC = () => {
 
   // Folder CRUD functions
   const createFolder = async (name: string, color?: string) => {
-    const newFolder: AnalysisFolder = {
+    const newFolder: AnalysisFolder = stampFolder(undefined, {
       id: crypto.randomUUID(),
       name,
       createdAt: Date.now(),
       color,
-    };
+    });
 
     const newFolders = [...analysisFolders, newFolder];
     setAnalysisFolders(newFolders);
-    localStorage.setItem('nativeNuance_analysisFolders', JSON.stringify(newFolders));
-
-    if (isAuthenticated && user) {
-      await dataService.createFolder(user.id, newFolder);
-    }
+    await persist(repository.folders.save(newFolder));
   };
 
-  const updateFolder = async (folder: AnalysisFolder) => {
+  const updateFolder = async (edited: AnalysisFolder) => {
+    const folder = stampFolder(analysisFolders.find(f => f.id === edited.id), edited);
     const newFolders = analysisFolders.map(f => f.id === folder.id ? folder : f);
     setAnalysisFolders(newFolders);
-    localStorage.setItem('nativeNuance_analysisFolders', JSON.stringify(newFolders));
-
-    if (isAuthenticated && user) {
-      await dataService.updateFolder(user.id, folder);
-    }
+    await persist(repository.folders.save(folder));
   };
 
   const deleteFolder = async (folderId: string) => {
     // Remove folder
     const newFolders = analysisFolders.filter(f => f.id !== folderId);
     setAnalysisFolders(newFolders);
-    localStorage.setItem('nativeNuance_analysisFolders', JSON.stringify(newFolders));
+    await persist(repository.folders.remove(folderId));
 
     // Move analyses in this folder to uncategorized
-    const newAnalyses = savedAnalyses.map(a => 
-      a.folderId === folderId ? { ...a, folderId: null } : a
-    );
+    const moved = savedAnalyses
+      .filter(a => a.folderId === folderId)
+      .map(a => stampAnalysis(a, { ...a, folderId: null }));
+    const newAnalyses = savedAnalyses.map(a => moved.find(m => m.id === a.id) || a);
     setSavedAnalyses(newAnalyses);
-    localStorage.setItem('nativeNuance_analysisHistory', JSON.stringify(newAnalyses));
-
-    if (isAuthenticated && user) {
-      await dataService.deleteFolder(user.id, folderId);
-      // Update all analyses that were in this folder
-      const analysesToUpdate = savedAnalyses.filter(a => a.folderId === folderId);
-      for (const analysis of analysesToUpdate) {
-        await dataService.updateAnalysisFolder(user.id, analysis.id, null);
-      }
-    }
+    await persist(repository.analyses.save(...moved));
   };
 
   const moveAnalysisToFolder = async (analysisId: string, folderId: string | null) => {
     const newAnalyses = savedAnalyses.map(a => 
-      a.id === analysisId ? { ...a, folderId } : a
+      a.id === analysisId ? stampAnalysis(a, { ...a, folderId }) : a
     );
     setSavedAnalyses(newAnalyses);
-    localStorage.setItem('nativeNuance_analysisHistory', JSON.stringify(newAnalyses));
 
-    if (isAuthenticated && user) {
-      await dataService.updateAnalysisFolder(user.id, analysisId, folderId);
+    const moved = newAnalyses.find(a => a.id === analysisId);
+    if (moved) await persist(repository.analyses.save(moved));
+  };
+
+  // Spaced repetition: grade a word bank card and persist its new schedule.
+  // Terms outside the word bank aren't scheduled, so practicing them doesn't star them.
+  const recordReview = async (item: VocabularyItem, grade: ReviewGrade) => {
+    const existing = savedVocabulary.find(v => normalizeTerm(v.term) === normalizeTerm(item.term));
+    if (!existing) return;
+
+    const now = Date.now();
+    const updatedItem: SavedVocabularyItem = { ...existing, review: scheduleReview(existing.review, grade, now) };
+
+    // Functional update: a matching round reports several terms at once
+    setSavedVocabulary(prev => prev.map(v => v.id === existing.id ? updatedItem : v));
+    await persist(repository.vocabulary.save(updatedItem));
+
+    const log: ReviewLog = {
+      id: crypto.randomUUID(),
+      vocabularyId: updatedItem.id,
+      term: updatedItem.term,
+      grade,
+      intervalDays: updatedItem.review!.intervalDays,
+      reviewedAt: now,
+    };
+    await persist(repository.reviewLogs.save(log));
+  };
+
+  // Word Bank: star a term to keep it (and review it) independently of its analysis
+  const toggleVocabularyStar = async (item: VocabularyItem, analysisId: string | null) => {
+    const existing = savedVocabulary.find(v => normalizeTerm(v.term) === normalizeTerm(item.term));
+    if (existing) {
+      await removeVocabularyItem(existing.id);
+      return;
     }
+
+    const newItem: SavedVocabularyItem = {
+      ...item,
+      id: crypto.randomUUID(),
+      dateAdded: Date.now(),
+      analysisId,
+      schemaVersion: SCHEMA_VERSION,
+    };
+    const newVocabulary = [newItem, ...savedVocabulary];
+    setSavedVocabulary(newVocabulary);
+    await persist(repository.vocabulary.save(newItem));
+  };
+
+  const removeVocabularyItem = async (id: string) => {
+    const newVocabulary = savedVocabulary.filter(v => v.id !== id);
+    setSavedVocabulary(newVocabulary);
+    await persist(repository.vocabulary.remove(id));
+  };
+
+  // Flashcard answers are logged per term and feed the scheduler for saved terms: a correct recall counts as "good", a wrong one as "again"
+  const recordFlashcardResult = async (item: VocabularyItem, result: FlashcardResult, analysisId: string | null, exerciseType: ExerciseType) => {
+    const log: FlashcardLog = {
+      id: crypto.randomUUID(),
+      term: item.term,
+      analysisId,
+      result,
+      answeredAt: Date.now(),
+      exerciseType,
+    };
+    setFlashcardLogs(prev => [...prev, log]);
+    await persist(repository.flashcardLogs.save(log));
+    // A skip is only logged: passing over a card isn't a lapse
+    if (result !== 'skipped') await recordReview(item, result === 'correct' ? 'good' : 'again');
+  };
+
+  // Graded practice answers join the same per-term history, without touching the review schedule
+  const recordPracticeAttempt = async (term: string, result: FlashcardResult) => {
+    const log: FlashcardLog = {
+      id: crypto.randomUUID(),
+      term,
+      analysisId: null,
+      result,
+      answeredAt: Date.now(),
+      source: 'practice',
+    };
+    setFlashcardLogs(prev => [...prev, log]);
+    await persist(repository.flashcardLogs.save(log));
   };
 
   const handleNewAnalysis = () => {
     setAnalysisResult(null);
+    setIsPartialResult(false);
+    setCachedAt(null);
     setInputText('');
     setFileName(null);
+    setSubtitles(null);
     setCurrentAnalysisId(null);
     setMode(AppMode.ANALYZE_TEXT);
     setStatus('idle');
   };
 
   const handleExportData = () => {
-    dataService.exportToJson(savedAnalyses, []);
+    dataService.exportToJson(savedAnalyses, savedVocabulary, analysisFolders);
+  };
+
+  const handleImportFile = async (file: File) => {
+    setImportPlan(null);
+    setImportError(null);
+    setIsImportOpen(true);
+
+    try {
+      const incoming = parseExportFile(await file.text());
+      setImportPlan(planImport(
+        { analyses: savedAnalyses, folders: analysisFolders, vocabulary: savedVocabulary },
+        incoming
+      ));
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'Failed to read file.');
+    }
   };
 
-  const processFile = (file: File | undefined) => {
+  const handleApplyImport = async (resolutions: Record<string, ConflictResolution>) => {
+    if (!importPlan) return;
+    setIsImporting(true);
+
+    const { merged, added, replaced } = applyImport(
+      { analyses: savedAnalyses, folders: analysisFolders, vocabulary: savedVocabulary },
+      importPlan,
+      resolutions
+    );
+
+    // Imported records count as edits made now, so the next merge doesn't revert them
+    const importedAnalyses = [...added.analyses, ...replaced.analyses].map(a => stampAnalysis(undefined, a));
+    const importedFolders = [...added.folders, ...replaced.folders].map(f => stampFolder(undefined, f));
+    const stampedAnalyses = new Map(importedAnalyses.map(a => [a.id, a]));
+    const stampedFolders = new Map(importedFolders.map(f => [f.id, f]));
+    const mergedFolders = merged.folders.map(f => stampedFolders.get(f.id) || f);
+
+    const sortedAnalyses = merged.analyses.map(a => stampedAnalyses.get(a.id) || a).sort((a, b) => b.date - a.date);
+    setSavedAnalyses(sortedAnalyses);
+    setAnalysisFolders(mergedFolders);
+    setSavedVocabulary(merged.vocabulary);
+
+    // Folders first so imported analyses can reference them
+    await persist(repository.folders.save(...importedFolders));
+    await persist(repository.analyses.save(...importedAnalyses));
+    await persist(repository.vocabulary.save(...added.vocabulary, ...replaced.vocabulary));
+
+    setIsImporting(false);
+    setIsImportOpen(false);
+    setImportPlan(null);
+  };
+
+  const processFile = async (file: File | undefined) => {
     if (!file) return;
 
+    // Books: extract text client-side, then let the user pick pages or chapters
+    if (isPdfFile(file) || isEpubFile(file)) {
+      setIsExtracting(true);
+      setError(null);
+      try {
+        setPendingDocument(await extractDocument(file));
+      } catch (e) {
+        console.error('Failed to extract document', e);
+        setError(e instanceof Error ? e.message : "Failed to read file.");
+      } finally {
+        setIsExtracting(false);
+      }
+      return;
+    }
+
     // Check for unsupported binary formats common in reading
     if (
-      file.type.includes('pdf') ||
-      file.name.toLowerCase().endsWith('.pdf') ||
-      file.name.toLowerCase().endsWith('.epub') ||
       file.name.toLowerCase().endsWith('.mobi') ||
       file.name.toLowerCase().endsWith('.doc') ||
       file.name.toLowerCase().endsWith('.docx')
     ) {
-      setError("Sorry, only plain text files (.txt, .md, .srt, .csv, .json) are supported right now. Please save your document as text first.");
+      setError("Sorry, .mobi and Word files aren't supported yet. Please convert to PDF, EPUB or plain text first.");
       return;
     }
 
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result;
-      if (typeof text === 'string') {
+      if (typeof text !== 'string') return;
+
+      if (isSubtitleFile(file.name)) {
+        const parsed = parseSubtitles(text);
+        if (parsed.cues.length === 0) {
+          setError("No subtitle cues found in this file.");
+          return;
+        }
+        setInputText(parsed.text);
+        setSubtitles(parsed);
+        setSourceType(SourceType.TV_TRANSCRIPT);
+      } else {
         setInputText(text);
-        setFileName(file.name);
-        setError(null);
+        setSubtitles(null);
       }
+      setFileName(file.name);
+      setError(null);
     };
     reader.onerror = () => {
       setError("Failed to read file.");
@@ -335,6 +637,15 @@ const AppContent: React.FC = () => {
     reader.readAsText(file);
   };
 
+  const handleDocumentSelection = (selected: DocumentSection[]) => {
+    if (!pendingDocument) return;
+    setInputText(joinSections(selected));
+    setFileName(describeSelection(pendingDocument, selected));
+    setSubtitles(null);
+    setSourceType(SourceType.BOOK);
+    setPendingDocument(null);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     processFile(file);
@@ -364,51 +675,99 @@ const AppContent: React.FC = () => {
 
   const clearFile = () => {
     setFileName(null);
+    setSubtitles(null);
     setInputText('');
   };
 
-  const handleAnalyzeText = async () => {
-    if (!inputText.trim()) return;
+  const handleAnalyzeText = async (forceRefresh = false) => {
+    if (!inputText.trim() || analysisAbortRef.current) return;
 
     setStatus('analyzing');
     setError(null);
     setAnalysisResult(null);
+    setIsPartialResult(false);
+    setCachedAt(null);
+    partialResultRef.current = null;
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
 
     try {
-      const result = await analyzeText(inputText, sourceType);
-      setAnalysisResult(result);
+      const result = await analyzeTextChunked(inputText, sourceType, {
+        signal: controller.signal,
+        forceRefresh,
+        onCached: setCachedAt,
+        onProgress: progress => setAnalysisProgress(progress.total > 1 ? progress : null),
+        onPartial: partial => {
+          if (controller.signal.aborted) return;
+          partialResultRef.current = partial;
+          setAnalysisResult(partial);
+        },
+      });
+      setAnalysisResult(subtitles ? attachTimestamps(result, subtitles) : result);
       setStatus('complete');
       setTimeout(() => {
         resultRef.current?.scrollIntoView({ behavior: 'smooth' });
       }, 100);
     } catch (e) {
-      setError("Failed to analyze text. Please try again.");
-      setStatus('idle');
+      if (!controller.signal.aborted) {
+        console.error('Analysis failed', e);
+        setError(e instanceof ApiError ? e.message : "Failed to analyze text. Please try again.");
+      }
+      // Keep what already arrived so it can still be read and saved
+      const partial = partialResultRef.current;
+      if (partial && (partial.summary || partial.vocabulary.length > 0)) {
+        setAnalysisResult(subtitles ? attachTimestamps(partial, subtitles) : partial);
+        setIsPartialResult(true);
+        setStatus('complete');
+      } else {
+        setAnalysisResult(null);
+        setStatus('idle');
+      }
+    } finally {
+      analysisAbortRef.current = null;
+      partialResultRef.current = null;
+      setAnalysisProgress(null);
     }
   };
 
-  const handleTopicStrategy = async () => {
-    if (!topicInput.trim()) return;
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  const handleTopicStrategy = async (forceRefresh = false) => {
+    if (!topicInput.trim() || analysisAbortRef.current) return;
 
     setStatus('analyzing');
     setError(null);
     setAnalysisResult(null);
+    setIsPartialResult(false);
+    setCachedAt(null);
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
 
     try {
-      const result = await generateTopicStrategy(topicInput);
+      const result = await generateTopicStrategy(topicInput, { signal: controller.signal, forceRefresh, onCached: setCachedAt });
       setAnalysisResult(result);
       setStatus('complete');
       setTimeout(() => {
         resultRef.current?.scrollIntoView({ behavior: 'smooth' });
       }, 100);
     } catch (e) {
-      setError("Failed to generate strategy. Please try again.");
+      if (!controller.signal.aborted) {
+        console.error('Strategy generation failed', e);
+        setError(e instanceof ApiError ? e.message : "Failed to generate strategy. Please try again.");
+      }
       setStatus('idle');
+    } finally {
+      analysisAbortRef.current = null;
     }
   };
 
   // Initial Practice Generation
   const handleGeneratePractice = async (selectedVocab: VocabularyItem[]) => {
+    if (isPracticeRequestRunning.current) return;
     setStatus('practicing');
     setError(null);
 
@@ -420,41 +779,56 @@ const AppContent: React.FC = () => {
       setPracticeQueue([]); // No automatic next batch for custom selection
       setPracticeIndex(0);
     }
-    // Case 2: No selection. Practice first 5 from the full list, queue the rest.
+    // Case 2: No selection. Practice the weakest and most overdue terms from this
+    // analysis and every saved one, queue the rest; mastered terms are left out.
     else if (analysisResult?.vocabulary) {
-      const allVocab = analysisResult.vocabulary;
-      itemsToPractice = allVocab.slice(0, BATCH_SIZE);
-      setPracticeQueue(allVocab); // Store full list
-      setPracticeIndex(BATCH_SIZE); // Next batch starts at 5
+      const candidates = [
+        ...analysisResult.vocabulary,
+        ...savedAnalyses.flatMap(analysis => analysis.analysisResult.vocabulary),
+        ...savedVocabulary,
+      ];
+      const ranked = rankForPractice(candidates, flashcardLogs, savedVocabulary);
+      // Everything mastered: practice this analysis again rather than nothing
+      const queue = ranked.length > 0 ? ranked : analysisResult.vocabulary;
+      itemsToPractice = queue.slice(0, BATCH_SIZE);
+      setPracticeQueue(queue);
+      setPracticeIndex(BATCH_SIZE);
     } else {
       setStatus('idle');
       return;
     }
 
+    isPracticeRequestRunning.current = true;
     try {
       const practice = await generatePractice(itemsToPractice);
+      setPracticeBatch(itemsToPractice);
       setPracticeResult(practice);
     } catch (e) {
-      setError("Failed to generate practice. Please try again.");
+      console.error('Practice generation failed', e);
+      setError(e instanceof ApiError ? e.message : "Failed to generate practice. Please try again.");
     } finally {
+      isPracticeRequestRunning.current = false;
       setStatus('complete');
     }
   };
 
   // Next Batch Generation
   const handleNextPracticeBatch = async () => {
-    if (practiceIndex >= practiceQueue.length) return;
+    if (practiceIndex >= practiceQueue.length || isPracticeRequestRunning.current) return;
 
     setIsGeneratingNext(true);
+    isPracticeRequestRunning.current = true;
     const nextItems = practiceQueue.slice(practiceIndex, practiceIndex + BATCH_SIZE);
 
     try {
       const practice = await generatePractice(nextItems);
+      setPracticeBatch(nextItems);
       setPracticeResult(practice);
       setPracticeIndex(prev => prev + BATCH_SIZE);
     } catch (e) {
       console.error("Failed to get next batch", e);
     } finally {
+      isPracticeRequestRunning.current = false;
       setIsGeneratingNext(false);
     }
   };
@@ -463,6 +837,7 @@ const AppContent: React.FC = () => {
     setInputText(EXAMPLE_TEXT);
     setSourceType(SourceType.NEWS);
     setFileName(null);
+    setSubtitles(null);
   };
 
   const handleTopicClick = (topic: string) => {
@@ -494,8 +869,19 @@ const AppContent: React.FC = () => {
         isOpen={isSidebarOpen}
         toggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
         onExportData={handleExportData}
+        onImportData={handleImportFile}
         onOpenHistory={() => setMode(AppMode.HISTORY)}
         isHistoryActive={mode === AppMode.HISTORY}
+        onOpenReview={() => setMode(AppMode.REVIEW)}
+        isReviewActive={mode === AppMode.REVIEW}
+        dueCount={countDueCards(savedVocabulary)}
+        onOpenWordBank={() => setMode(AppMode.WORD_BANK)}
+        isWordBankActive={mode === AppMode.WORD_BANK}
+        wordBankCount={savedVocabulary.length}
+        syncStatus={syncStatus}
+        onRetrySync={() => user && syncQueue.retryAll(user.id)}
+        onDiscardSync={syncQueue.discard}
+        usage={isProviderMetered ? usage : undefined}
       />
 
       <div className="flex-1 flex flex-col h-full overflow-hidden relative">
@@ -512,6 +898,20 @@ const AppContent: React.FC = () => {
         <main className="flex-1 overflow-y-auto w-full">
           <div className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8 h-full">
 
+            {storageError && (
+              <div className="mb-6 p-3 bg-red-50 text-red-600 text-sm rounded-lg flex items-center gap-2 border border-red-100">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span className="flex-1">{storageError}</span>
+                <button
+                  onClick={() => setStorageError(null)}
+                  className="p-1 rounded hover:bg-red-100 transition-colors"
+                  title="Dismiss"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
             {mode === AppMode.HISTORY && (
               <HistoryView
                 savedAnalyses={savedAnalyses}
@@ -522,10 +922,30 @@ const AppContent: React.FC = () => {
                 onUpdateFolder={updateFolder}
                 onDeleteFolder={deleteFolder}
                 onMoveAnalysisToFolder={moveAnalysisToFolder}
+                onFlashcardResult={recordFlashcardResult}
+              />
+            )}
+
+            {mode === AppMode.REVIEW && (
+              <ReviewView
+                savedVocabulary={savedVocabulary}
+                savedAnalyses={savedAnalyses}
+                onRecordReview={recordReview}
+                onFlashcardResult={recordFlashcardResult}
+              />
+            )}
+
+            {mode === AppMode.WORD_BANK && (
+              <WordBankView
+                savedVocabulary={savedVocabulary}
+                savedAnalyses={savedAnalyses}
+                onRemoveItem={removeVocabularyItem}
+                onLoadAnalysis={loadAnalysis}
+                onFlashcardResult={recordFlashcardResult}
               />
             )}
 
-            {mode !== AppMode.HISTORY && (
+            {mode !== AppMode.HISTORY && mode !== AppMode.REVIEW && mode !== AppMode.WORD_BANK && (
               <div className={`mx-auto transition-all duration-500 ${analysisResult ? 'w-full' : 'max-w-3xl mt-[10vh]'}`}>
 
                 {!analysisResult && (
@@ -625,27 +1045,41 @@ const AppContent: React.FC = () => {
                                 type="file"
                                 ref={fileInputRef}
                                 onChange={handleFileUpload}
-                                accept=".txt,.md,.srt,.csv,.json,.vtt"
+                                accept=".txt,.md,.srt,.csv,.json,.vtt,.pdf,.epub"
                                 className="hidden"
                               />
                               <button
                                 onClick={triggerFileUpload}
-                                className="flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-800 px-3 py-1.5 rounded-md hover:bg-indigo-50 transition-colors"
+                                disabled={isExtracting}
+                                className="flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-800 px-3 py-1.5 rounded-md hover:bg-indigo-50 transition-colors disabled:opacity-50"
                               >
-                                <Upload className="w-4 h-4" />
-                                Upload File
+                                {isExtracting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                                {isExtracting ? 'Reading...' : 'Upload File'}
                               </button>
                             </div>
 
-                            <button
-                              onClick={handleAnalyzeText}
-                              disabled={status === 'analyzing' || !inputText.trim()}
-                              className={`w-full sm:w-auto flex items-center justify-center gap-2 px-8 py-3 rounded-xl font-bold text-white transition-all ${status === 'analyzing' || !inputText.trim() ? 'bg-slate-300' : 'bg-emerald-600 hover:bg-emerald-700 shadow-lg hover:shadow-emerald-200'
-                                }`}
-                            >
-                              {status === 'analyzing' ? <Loader2 className="animate-spin" /> : <ArrowRight />}
-                              Analyze Text
-                            </button>
+                            <div className="flex items-center gap-3 w-full sm:w-auto">
+                              {status === 'analyzing' && (
+                                <button
+                                  onClick={cancelAnalysis}
+                                  className="flex items-center gap-1 text-sm font-medium text-slate-500 hover:text-red-600 px-3 py-1.5 rounded-md hover:bg-red-50 transition-colors"
+                                >
+                                  <X className="w-4 h-4" />
+                                  Cancel
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleAnalyzeText()}
+                                disabled={status === 'analyzing' || !inputText.trim()}
+                                className={`w-full sm:w-auto flex items-center justify-center gap-2 px-8 py-3 rounded-xl font-bold text-white transition-all ${status === 'analyzing' || !inputText.trim() ? 'bg-slate-300' : 'bg-emerald-600 hover:bg-emerald-700 shadow-lg hover:shadow-emerald-200'
+                                  }`}
+                              >
+                                {status === 'analyzing' ? <Loader2 className="animate-spin" /> : <ArrowRight />}
+                                {analysisProgress
+                                  ? `Analyzed ${analysisProgress.completed} of ${analysisProgress.total} parts`
+                                  : 'Analyze Text'}
+                              </button>
+                            </div>
                           </div>
                         </div>
                       </>
@@ -672,9 +1106,18 @@ const AppContent: React.FC = () => {
                           className="w-full p-4 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent font-sans text-lg outline-none transition-shadow"
                           onKeyDown={(e) => e.key === 'Enter' && handleTopicStrategy()}
                         />
-                        <div className="flex justify-end mt-4">
+                        <div className="flex justify-end items-center gap-3 mt-4">
+                          {status === 'analyzing' && (
+                            <button
+                              onClick={cancelAnalysis}
+                              className="flex items-center gap-1 text-sm font-medium text-slate-500 hover:text-red-600 px-3 py-1.5 rounded-md hover:bg-red-50 transition-colors"
+                            >
+                              <X className="w-4 h-4" />
+                              Cancel
+                            </button>
+                          )}
                           <button
-                            onClick={handleTopicStrategy}
+                            onClick={() => handleTopicStrategy()}
                             disabled={status === 'analyzing' || !topicInput.trim()}
                             className={`flex items-center gap-2 px-6 py-3 rounded-xl font-bold text-white transition-all ${status === 'analyzing' || !topicInput.trim() ? 'bg-slate-300' : 'bg-indigo-600 hover:bg-indigo-700 shadow-lg'
                               }`}
@@ -704,12 +1147,58 @@ const AppContent: React.FC = () => {
                       </div>
                     )}
 
+                    {error && (
+                      <div className="flex items-center gap-2 mb-4 p-3 bg-red-50 text-red-600 text-sm rounded-lg border border-red-100">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                        <span className="flex-1">{error}</span>
+                        <button onClick={() => setError(null)} className="p-1 rounded hover:bg-red-100" title="Dismiss">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+
+                    {cachedAt !== null && status !== 'analyzing' && (
+                      <div className="flex items-center justify-between gap-3 mb-4 px-4 py-2 bg-slate-100 border border-slate-200 rounded-xl text-sm text-slate-600">
+                        <span>Same text as before, so this is the result from {new Date(cachedAt).toLocaleString()}.</span>
+                        <button
+                          onClick={() => mode === AppMode.TOPIC_STRATEGY ? handleTopicStrategy(true) : handleAnalyzeText(true)}
+                          className="flex items-center gap-1 font-medium text-slate-700 hover:text-emerald-700 px-3 py-1.5 rounded-md hover:bg-white transition-colors"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                          Refresh
+                        </button>
+                      </div>
+                    )}
+
+                    {status === 'analyzing' && (
+                      <div className="flex items-center justify-between gap-3 mb-4 px-4 py-3 bg-emerald-50 border border-emerald-100 rounded-xl text-sm text-emerald-800">
+                        <span className="flex items-center gap-2 font-medium">
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          {analysisProgress
+                            ? `Analyzed ${analysisProgress.completed} of ${analysisProgress.total} parts`
+                            : 'Analyzing...'}
+                        </span>
+                        <button
+                          onClick={cancelAnalysis}
+                          className="flex items-center gap-1 font-medium text-slate-500 hover:text-red-600 px-3 py-1.5 rounded-md hover:bg-red-50 transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                          Stop
+                        </button>
+                      </div>
+                    )}
+
                     <div className="w-full mx-auto">
                       <AnalysisView
                         data={analysisResult}
                         onGeneratePractice={handleGeneratePractice}
                         onSaveAnalysis={saveAnalysis}
                         initialNotes={currentAnalysisId ? savedAnalyses.find(a => a.id === currentAnalysisId)?.notes || [] : []}
+                        onFlashcardResult={(item, result, exerciseType) => recordFlashcardResult(item, result, currentAnalysisId, exerciseType)}
+                        starredTerms={new Set(savedVocabulary.map(v => normalizeTerm(v.term)))}
+                        onToggleStar={(item) => toggleVocabularyStar(item, currentAnalysisId)}
+                        isStreaming={status === 'analyzing'}
+                        isPartial={isPartialResult}
                       />
                     </div>
                   </div>
@@ -721,6 +1210,31 @@ const AppContent: React.FC = () => {
         </main>
       </div>
 
+      {pendingDocument && (
+        <DocumentSectionPicker
+          document={pendingDocument}
+          onConfirm={handleDocumentSelection}
+          onClose={() => setPendingDocument(null)}
+        />
+      )}
+
+      {isImportOpen && (
+        <ImportDialog
+          plan={importPlan}
+          error={importError}
+          isApplying={isImporting}
+          onApply={handleApplyImport}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {syncConflicts.length > 0 && (
+        <SyncConflictReport
+          conflicts={syncConflicts}
+          onClose={() => setSyncConflicts([])}
+        />
+      )}
+
       {practiceResult && (
         <PracticeView
           data={practiceResult}
@@ -728,6 +1242,8 @@ const AppContent: React.FC = () => {
           onNextBatch={handleNextPracticeBatch}
           isNextAvailable={isNextAvailable}
           isLoadingNext={isGeneratingNext}
+          vocabulary={practiceBatch}
+          onAttempt={recordPracticeAttempt}
         />
       )}
     </div>
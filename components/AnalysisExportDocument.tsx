@@ -0,0 +1,101 @@
+import React, { forwardRef } from 'react';
+import { AnalysisResult, Note, VocabularyItem } from '../types';
+import { EXPORT_BLOCK_ATTR } from '../services/exportService';
+import { formatTimestamp } from '../services/subtitleService';
+
+export interface ExportSection {
+  key: string;
+  label: string;
+  items: VocabularyItem[];
+}
+
+interface Props {
+  data: AnalysisResult;
+  sections: ExportSection[];
+  notes: Note[];
+}
+
+const block = { [EXPORT_BLOCK_ATTR]: '' };
+
+/**
+ * Print layout for PDF/PNG export. Rendered off-screen at a fixed width so the
+ * output doesn't depend on the user's window size.
+ */
+const AnalysisExportDocument = forwardRef<HTMLDivElement, Props>(({ data, sections, notes }, ref) => (
+  <div
+    ref={ref}
+    aria-hidden
+    className="fixed top-0 bg-white text-slate-900 p-8 space-y-4"
+    style={{ left: '-10000px', width: '800px' }}
+  >
+    <div {...block} className="pb-4 border-b border-slate-200">
+      <p className="text-xs font-bold text-emerald-600 uppercase tracking-wider mb-1">NativeNuance Analysis</p>
+      <span className="inline-block px-3 py-1 rounded-full bg-slate-900 text-white text-xs font-bold uppercase tracking-wider mb-3">
+        Tone: {data.tone}
+      </span>
+      <p className="text-slate-700 text-lg leading-relaxed font-serif italic">"{data.summary}"</p>
+    </div>
+
+    {data.structure_analysis && data.structure_analysis.length > 0 && (
+      <div {...block} className="space-y-3">
+        <h2 className="text-xl font-serif font-bold">Logical Structure</h2>
+        {data.structure_analysis.map((point, idx) => (
+          <div key={idx} className="pl-4 border-l-2 border-indigo-200">
+            <p className="font-bold text-slate-800">{point.section}</p>
+            <p className="text-sm text-slate-600">{point.purpose}</p>
+            <p className="text-sm text-indigo-700 font-mono">{point.native_pattern}</p>
+          </div>
+        ))}
+      </div>
+    )}
+
+    {sections.map(section => (
+      <React.Fragment key={section.key}>
+        <h2 {...block} className="text-xl font-serif font-bold pt-2">
+          {section.label} <span className="text-sm font-sans text-slate-400">({section.items.length})</span>
+        </h2>
+        {section.items.map((item, idx) => (
+          <div key={idx} {...block} className="rounded-xl border border-slate-200 p-5">
+            <h3 className="text-2xl font-serif font-bold text-slate-900 mb-1">{item.term}</h3>
+            <p className="text-slate-600 mb-3">{item.definition}</p>
+            {item.source_context && (
+              <p className="text-sm text-slate-700 italic mb-2">
+                Context: "{item.source_context}"
+                {item.source_timestamp !== undefined && (
+                  <span className="not-italic font-mono text-slate-400 ml-1">@ {formatTimestamp(item.source_timestamp)}</span>
+                )}
+              </p>
+            )}
+            {item.imagery_etymology && (
+              <p className="text-sm text-amber-800 bg-amber-50 rounded-lg p-2 mb-2">{item.imagery_etymology}</p>
+            )}
+            {item.examples?.map((example, exIdx) => (
+              <div key={exIdx} className="text-sm mt-2">
+                <span className="text-xs font-bold text-slate-400 uppercase mr-2">{example.context_label}</span>
+                <span className="text-slate-800">{example.sentence}</span>
+                {example.explanation && <p className="text-xs text-slate-500 mt-0.5">{example.explanation}</p>}
+              </div>
+            ))}
+          </div>
+        ))}
+      </React.Fragment>
+    ))}
+
+    {notes.length > 0 && (
+      <>
+        <h2 {...block} className="text-xl font-serif font-bold pt-2">My Notes</h2>
+        {notes.map(note => (
+          <div key={note.id} {...block} className="rounded-lg bg-yellow-50 border border-yellow-100 p-4">
+            <p className="font-bold text-slate-800">{note.word}</p>
+            <p className="text-sm text-slate-600">{note.definition}</p>
+            {note.context && <p className="text-xs text-slate-500 italic mt-1">"{note.context}"</p>}
+          </div>
+        ))}
+      </>
+    )}
+  </div>
+));
+
+AnalysisExportDocument.displayName = 'AnalysisExportDocument';
+
+export default AnalysisExportDocument;
@@ -1,19 +1,31 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { AnalysisResult, VocabularyItem, VocabularyCategory, Note } from '../types';
-import { CheckCircle, BookOpen, Layout, Zap, Volume2, Quote, MessageCircle, Sparkles, ArrowRightCircle, AlignLeft, ChevronDown, ChevronUp, Grid, Smartphone, Check, Save, ChevronLeft, ChevronRight, RotateCw, X, XCircle, GraduationCap } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { AnalysisResult, VocabularyItem, VocabularyCategory, Note, FlashcardResult, ExerciseType } from '../types';
+import { CheckCircle, BookOpen, Layout, Zap, Volume2, Quote, MessageCircle, Sparkles, ArrowRightCircle, AlignLeft, ChevronDown, ChevronUp, Grid, Smartphone, Check, Save, ChevronLeft, ChevronRight, RotateCw, GraduationCap, Star, Clock, Download, FileText, Image as ImageIcon, Loader2, AlertTriangle } from 'lucide-react';
 import { generateSpeech } from '../services/geminiService';
+import { normalizeTerm } from '../services/srsService';
+import { formatTimestamp } from '../services/subtitleService';
 import WordLookupPopup from './WordLookupPopup';
 import NotesSidebar from './NotesSidebar';
+import AnalysisExportDocument from './AnalysisExportDocument';
+import FlashcardSession from './FlashcardSession';
+import { exportAsPdf, exportAsPng } from '../services/exportService';
 
 interface Props {
   data: AnalysisResult;
   onGeneratePractice: (selected: VocabularyItem[]) => void;
   onSaveAnalysis: (notes: Note[]) => void;
   initialNotes?: Note[];
+  onFlashcardResult?: (item: VocabularyItem, result: FlashcardResult, exerciseType: ExerciseType) => void;
+  starredTerms?: Set<string>;
+  onToggleStar?: (item: VocabularyItem) => void;
+  // Results are still arriving; sections fill in as they stream
+  isStreaming?: boolean;
+  // The stream stopped early and only part of the analysis arrived
+  isPartial?: boolean;
 }
 
-const CATEGORY_CONFIG: Record<VocabularyCategory, { label: string; color: string; icon: React.ReactNode }> = {
+export const CATEGORY_CONFIG: Record<VocabularyCategory, { label: string; color: string; icon: React.ReactNode }> = {
   'idioms_fixed': {
     label: 'Idioms & Fixed Expressions',
     color: 'text-purple-700 bg-purple-50 border-purple-100',
@@ -41,13 +53,19 @@ const CATEGORY_CONFIG: Record<VocabularyCategory, { label: string; color: string
   }
 };
 
-const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysis, initialNotes = [] }) => {
+const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysis, initialNotes = [], onFlashcardResult, starredTerms, onToggleStar, isStreaming = false, isPartial = false }) => {
   const [selectedTerms, setSelectedTerms] = useState<Set<string>>(new Set());
   const [playingText, setPlayingText] = useState<string | null>(null);
   const [isTocOpen, setIsTocOpen] = useState(true);
   const [viewMode, setViewMode] = useState<'list' | 'flashcard'>('list');
   const [savedAnalysis, setSavedAnalysis] = useState(false);
 
+  // Export State - the print layout is only mounted while an export runs
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<'pdf' | 'png' | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportRef = useRef<HTMLDivElement>(null);
+
   // Word Lookup State
   const [lookupState, setLookupState] = useState<{ word: string; context: string; position: { x: number; y: number } } | null>(null);
 
@@ -61,35 +79,6 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
 
   // Fullscreen flashcard practice mode
   const [isFlashcardMode, setIsFlashcardMode] = useState(false);
-  const [flashcardIndex, setFlashcardIndex] = useState(0);
-  const [userAnswer, setUserAnswer] = useState('');
-  const [answerResult, setAnswerResult] = useState<'correct' | 'incorrect' | null>(null);
-  const [showAnswer, setShowAnswer] = useState(false);
-  const flashcardInputRef = useRef<HTMLInputElement>(null);
-
-  // Helper function to mask the vocabulary term in text
-  const maskTerm = useCallback((text: string, term: string): string => {
-    if (!text || !term) return text;
-    
-    let maskedText = text;
-    const cleanTerm = term.replace(/[.,!?;:'"]+$/, '').trim();
-    const subPhrases = cleanTerm.split(/[,;]|\s+and\s+/i)
-      .map(s => s.trim())
-      .filter(s => s.length > 2);
-    
-    const allTermsToMask = [cleanTerm, ...subPhrases];
-    const uniqueTerms = [...new Set(allTermsToMask)];
-    uniqueTerms.sort((a, b) => b.length - a.length);
-    
-    for (const phrase of uniqueTerms) {
-      if (phrase.length < 3) continue;
-      const escapedTerm = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const regex = new RegExp(`\\b${escapedTerm}\\b`, 'gi');
-      maskedText = maskedText.replace(regex, '_____');
-    }
-    
-    return maskedText;
-  }, []);
 
   // Reset notes when loading a different analysis
   useEffect(() => {
@@ -152,12 +141,14 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
   };
 
   const addNote = (word: string, definition: string, context: string) => {
+    const now = Date.now();
     const newNote: Note = {
-      id: `note-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `note-${now}-${Math.random().toString(36).substr(2, 9)}`,
       word,
       definition,
       context,
-      timestamp: Date.now()
+      timestamp: now,
+      updatedAt: now
     };
     setNotes(prev => [newNote, ...prev]);
     closeLookup();
@@ -201,63 +192,22 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
     setTimeout(() => setSavedAnalysis(false), 2000);
   };
 
-  // Fullscreen flashcard functions
-  const openFlashcardMode = () => {
-    setIsFlashcardMode(true);
-    setFlashcardIndex(0);
-    setUserAnswer('');
-    setAnswerResult(null);
-    setShowAnswer(false);
-  };
-
-  const closeFlashcardMode = () => {
-    setIsFlashcardMode(false);
-    setUserAnswer('');
-    setAnswerResult(null);
-    setShowAnswer(false);
+  const handleExport = (format: 'pdf' | 'png') => {
+    setIsExportMenuOpen(false);
+    setExportError(null);
+    setExportFormat(format);
   };
 
-  const handleFlashcardNext = () => {
-    if (flashcardIndex < data.vocabulary.length - 1) {
-      setFlashcardIndex(prev => prev + 1);
-      setUserAnswer('');
-      setAnswerResult(null);
-      setShowAnswer(false);
-    }
-  };
-
-  const handleFlashcardPrev = () => {
-    if (flashcardIndex > 0) {
-      setFlashcardIndex(prev => prev - 1);
-      setUserAnswer('');
-      setAnswerResult(null);
-      setShowAnswer(false);
-    }
-  };
-
-  const handleCheckFlashcardAnswer = async () => {
-    if (!userAnswer.trim()) return;
-    const currentItem = data.vocabulary[flashcardIndex];
-    const isCorrect = userAnswer.trim().toLowerCase() === currentItem.term.toLowerCase();
-    setAnswerResult(isCorrect ? 'correct' : 'incorrect');
-    setShowAnswer(true);
-    try {
-      await generateSpeech(currentItem.term);
-    } catch (error) {
-      console.error('Failed to pronounce:', error);
-    }
-  };
-
-  const handleSkipFlashcard = async () => {
-    setAnswerResult('incorrect');
-    setShowAnswer(true);
-    const currentItem = data.vocabulary[flashcardIndex];
-    try {
-      await generateSpeech(currentItem.term);
-    } catch (error) {
-      console.error('Failed to pronounce:', error);
-    }
-  };
+  useEffect(() => {
+    if (!exportFormat || !exportRef.current) return;
+    const runExport = exportFormat === 'pdf' ? exportAsPdf : exportAsPng;
+    runExport(exportRef.current)
+      .catch(error => {
+        console.error('Failed to export analysis:', error);
+        setExportError('Export failed. Please try again.');
+      })
+      .finally(() => setExportFormat(null));
+  }, [exportFormat]);
 
   const scrollToSection = (id: string) => {
     const element = document.getElementById(id);
@@ -304,6 +254,16 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
 
   return (
     <div className="space-y-8 animate-fade-in pb-20" onMouseUp={handleTextMouseUp}>
+      {exportFormat && (
+        <AnalysisExportDocument
+          ref={exportRef}
+          data={data}
+          notes={notes}
+          sections={categoryOrder
+            .filter(cat => groupedVocab[cat]?.length)
+            .map(cat => ({ key: cat, label: CATEGORY_CONFIG[cat].label, items: groupedVocab[cat]! }))}
+        />
+      )}
       {lookupState && (
         <WordLookupPopup
           word={lookupState.word}
@@ -319,16 +279,26 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
           <div className="flex flex-col gap-6">
             {/* Header Content */}
             <div className="flex flex-col md:flex-row justify-between items-start gap-4">
-              <div>
-                <div className="flex items-center gap-2 mb-2">
-                  <span className="px-3 py-1 rounded-full bg-slate-900 text-white text-xs font-bold uppercase tracking-wider">
-                    Tone: {data.tone}
-                  </span>
+              {data.summary ? (
+                <div>
+                  {data.tone && (
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="px-3 py-1 rounded-full bg-slate-900 text-white text-xs font-bold uppercase tracking-wider">
+                        Tone: {data.tone}
+                      </span>
+                    </div>
+                  )}
+                  <p className="text-slate-700 text-lg leading-relaxed font-serif italic">
+                    "{data.summary}"
+                  </p>
                 </div>
-                <p className="text-slate-700 text-lg leading-relaxed font-serif italic">
-                  "{data.summary}"
-                </p>
-              </div>
+              ) : (
+                <div className="flex-1 space-y-3 animate-pulse">
+                  <div className="h-6 w-32 rounded-full bg-slate-200" />
+                  <div className="h-4 w-full rounded bg-slate-100" />
+                  <div className="h-4 w-2/3 rounded bg-slate-100" />
+                </div>
+              )}
               <button
                 onClick={handlePracticeClick}
                 className="flex-shrink-0 flex items-center gap-2 px-6 py-3 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 transition-all shadow-lg hover:shadow-emerald-200 whitespace-nowrap w-full md:w-auto justify-center"
@@ -358,9 +328,36 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
               </div>
 
               {/* Action Buttons */}
-              <div className="flex gap-2">
+              <div className="flex gap-2 items-center">
+                {exportError && <span className="text-xs text-red-500">{exportError}</span>}
+                <div className="relative">
+                  <button
+                    onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                    disabled={exportFormat !== null}
+                    className="flex items-center justify-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition-colors shadow-sm disabled:opacity-50"
+                  >
+                    {exportFormat ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    {exportFormat ? 'Exporting...' : 'Export'}
+                  </button>
+                  {isExportMenuOpen && (
+                    <div className="absolute right-0 mt-2 w-44 bg-white rounded-lg shadow-lg border border-slate-200 py-1 z-20 animate-fade-in">
+                      <button
+                        onClick={() => handleExport('pdf')}
+                        className="w-full flex items-center gap-2 px-4 py-2 text-sm text-slate-700 hover:bg-slate-50"
+                      >
+                        <FileText className="w-4 h-4 text-red-500" /> PDF document
+                      </button>
+                      <button
+                        onClick={() => handleExport('png')}
+                        className="w-full flex items-center gap-2 px-4 py-2 text-sm text-slate-700 hover:bg-slate-50"
+                      >
+                        <ImageIcon className="w-4 h-4 text-blue-500" /> PNG image
+                      </button>
+                    </div>
+                  )}
+                </div>
                 <button
-                  onClick={openFlashcardMode}
+                  onClick={() => setIsFlashcardMode(true)}
                   disabled={data.vocabulary.length === 0}
                   className="flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm disabled:bg-slate-300 disabled:cursor-not-allowed"
                 >
@@ -369,13 +366,24 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
                 </button>
                 <button
                   onClick={handleSaveAnalysisClick}
-                  className="flex items-center justify-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 transition-colors shadow-sm"
+                  disabled={isStreaming}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 transition-colors shadow-sm disabled:bg-slate-300 disabled:cursor-not-allowed"
                 >
                   {savedAnalysis ? <Check className="w-4 h-4" /> : <Save className="w-4 h-4" />}
                   {savedAnalysis ? 'Saved!' : 'Save'}
                 </button>
               </div>
             </div>
+
+            {isPartial && (
+              <div className="flex items-start gap-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                <span>
+                  The analysis stopped early, so only {data.vocabulary.length} {data.vocabulary.length === 1 ? 'term' : 'terms'} arrived.
+                  You can still save what's here.
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -484,6 +492,7 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
                     <div className="space-y-6">
                       {items.map((item, idx) => {
                         const isSelected = selectedTerms.has(item.term);
+                        const isStarred = starredTerms?.has(normalizeTerm(item.term)) ?? false;
 
                         return (
                           <div
@@ -504,6 +513,15 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
                                   >
                                     <Volume2 className="w-5 h-5" />
                                   </button>
+                                  {onToggleStar && (
+                                    <button
+                                      onClick={(e) => { e.stopPropagation(); onToggleStar(item); }}
+                                      className={`p-2 rounded-full hover:bg-slate-100 transition-colors ${isStarred ? 'text-amber-400' : 'text-slate-300 hover:text-amber-400'}`}
+                                      title={isStarred ? 'Remove from word bank' : 'Add to word bank'}
+                                    >
+                                      <Star className="w-5 h-5" fill={isStarred ? 'currentColor' : 'none'} />
+                                    </button>
+                                  )}
                                 </div>
                                 <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center transition-colors ${isSelected ? 'border-emerald-500 bg-emerald-500 text-white' : 'border-slate-300 text-transparent'}`}>
                                   <CheckCircle className="w-4 h-4" />
@@ -515,6 +533,11 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
                                   <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
                                     <p className="text-xs font-bold text-slate-500 uppercase mb-1 flex items-center gap-1">
                                       <Quote className="w-3 h-3" /> Context in Source
+                                      {item.source_timestamp !== undefined && (
+                                        <span className="ml-auto flex items-center gap-1 font-mono normal-case text-slate-400">
+                                          <Clock className="w-3 h-3" /> {formatTimestamp(item.source_timestamp)}
+                                        </span>
+                                      )}
                                     </p>
                                     <p className="text-slate-700 italic">"{item.source_context}"</p>
                                   </div>
@@ -648,6 +671,13 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
                 </div>
               );
             })}
+
+            {isStreaming && (
+              <div className="flex items-center justify-center gap-2 p-6 rounded-xl border border-dashed border-slate-300 text-sm text-slate-500">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                More terms on the way...
+              </div>
+            )}
           </div>
 
           {/* Right Column: Notes Sidebar (3 cols) */}
@@ -661,173 +691,12 @@ const AnalysisView: React.FC<Props> = ({ data, onGeneratePractice, onSaveAnalysi
 
       {/* Fullscreen Flashcard Practice Modal */}
       {isFlashcardMode && data.vocabulary.length > 0 && (
-        <div className="fixed inset-0 bg-slate-900/95 z-50 flex flex-col items-center justify-center p-4">
-          {/* Close Button */}
-          <button
-            onClick={closeFlashcardMode}
-            className="absolute top-6 right-6 p-3 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
-          >
-            <X className="w-6 h-6" />
-          </button>
-
-          {/* Progress */}
-          <div className="absolute top-6 left-6 text-slate-400 text-sm font-medium">
-            {flashcardIndex + 1} / {data.vocabulary.length}
-          </div>
-
-          {/* Card */}
-          <div className="w-full max-w-xl">
-            {(() => {
-              const currentItem = data.vocabulary[flashcardIndex];
-              const example = currentItem.examples && currentItem.examples.length > 0 
-                ? currentItem.examples[0].sentence 
-                : null;
-
-              return (
-                <div className="bg-white rounded-2xl shadow-2xl p-6 min-h-[400px] flex flex-col">
-                  {/* Category Badge */}
-                  <div className="flex justify-center mb-4">
-                    <span className="px-3 py-1 text-xs font-bold uppercase tracking-wider bg-indigo-100 text-indigo-700 rounded-full">
-                      {currentItem.category.replace(/_/g, ' ')}
-                    </span>
-                  </div>
-
-                  {/* Definition Card */}
-                  <div className="p-5 bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl mb-5">
-                    <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3">Definition</p>
-                    <p className="text-xl text-white font-serif leading-relaxed">
-                      {maskTerm(currentItem.definition, currentItem.term)}
-                    </p>
-                  </div>
-
-                  {/* Example Hint */}
-                  {example && (
-                    <div className="mb-5 p-4 bg-amber-50 rounded-xl border border-amber-200">
-                      <p className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-2">💡 Hint (Example)</p>
-                      <p className="text-slate-700 italic text-sm leading-relaxed">"{maskTerm(example, currentItem.term)}"</p>
-                    </div>
-                  )}
-
-                  {/* Answer Section */}
-                  <div className="flex-1 flex flex-col justify-end">
-                    {!showAnswer ? (
-                      <div className="space-y-4">
-                        <div>
-                          <p className="text-xs font-bold text-slate-400 uppercase mb-2">What's the term?</p>
-                          <div className="flex gap-2">
-                            <input
-                              ref={flashcardInputRef}
-                              type="text"
-                              value={userAnswer}
-                              onChange={(e) => setUserAnswer(e.target.value)}
-                              onKeyDown={(e) => e.key === 'Enter' && handleCheckFlashcardAnswer()}
-                              placeholder="Type your answer..."
-                              className="flex-1 px-4 py-3 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-lg font-serif"
-                              autoFocus
-                            />
-                            <button
-                              onClick={handleCheckFlashcardAnswer}
-                              disabled={!userAnswer.trim()}
-                              className="px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-colors disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center gap-2"
-                            >
-                              <Check className="w-5 h-5" />
-                              Check
-                            </button>
-                          </div>
-                        </div>
-                        <button
-                          onClick={handleSkipFlashcard}
-                          className="w-full py-2 text-slate-400 hover:text-slate-600 text-sm font-medium transition-colors"
-                        >
-                          Skip & Show Answer
-                        </button>
-                      </div>
-                    ) : (
-                      <div className="space-y-4">
-                        {/* Result */}
-                        <div className={`p-4 rounded-xl flex items-center gap-3 ${
-                          answerResult === 'correct' 
-                            ? 'bg-emerald-50 border border-emerald-200' 
-                            : 'bg-red-50 border border-red-200'
-                        }`}>
-                          {answerResult === 'correct' ? (
-                            <CheckCircle className="w-6 h-6 text-emerald-600 flex-shrink-0" />
-                          ) : (
-                            <XCircle className="w-6 h-6 text-red-500 flex-shrink-0" />
-                          )}
-                          <div className="flex-1">
-                            <p className={`font-bold ${answerResult === 'correct' ? 'text-emerald-700' : 'text-red-700'}`}>
-                              {answerResult === 'correct' ? 'Correct!' : 'Not quite...'}
-                            </p>
-                            {answerResult === 'incorrect' && userAnswer && (
-                              <p className="text-sm text-red-600">Your answer: "{userAnswer}"</p>
-                            )}
-                          </div>
-                        </div>
-
-                        {/* Correct Answer */}
-                        <div className="p-4 bg-slate-900 rounded-xl">
-                          <p className="text-xs font-bold text-slate-400 uppercase mb-2">Answer</p>
-                          <div className="flex items-center justify-between">
-                            <h3 className="text-2xl font-serif font-bold text-white">
-                              {currentItem.term}
-                            </h3>
-                            <button
-                              onClick={(e) => handlePlayAudio(e, currentItem.term)}
-                              className={`p-3 rounded-full bg-slate-800 hover:bg-slate-700 transition-colors ${
-                                playingText === currentItem.term ? 'text-emerald-400 animate-pulse' : 'text-slate-400'
-                              }`}
-                            >
-                              <Volume2 className="w-5 h-5" />
-                            </button>
-                          </div>
-                        </div>
-
-                        {/* Next Button */}
-                        {flashcardIndex < data.vocabulary.length - 1 ? (
-                          <button
-                            onClick={handleFlashcardNext}
-                            className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold hover:bg-slate-800 transition-colors flex items-center justify-center gap-2"
-                          >
-                            Next Card <ChevronRight className="w-5 h-5" />
-                          </button>
-                        ) : (
-                          <button
-                            onClick={closeFlashcardMode}
-                            className="w-full py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2"
-                          >
-                            Complete! <Check className="w-5 h-5" />
-                          </button>
-                        )}
-                      </div>
-                    )}
-                  </div>
-                </div>
-              );
-            })()}
-          </div>
-
-          {/* Navigation */}
-          <div className="flex items-center gap-8 mt-8">
-            <button
-              onClick={handleFlashcardPrev}
-              disabled={flashcardIndex === 0}
-              className="p-3 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-all"
-            >
-              <ChevronLeft className="w-6 h-6" />
-            </button>
-            <span className="text-sm font-medium text-slate-400">
-              {flashcardIndex + 1} / {data.vocabulary.length}
-            </span>
-            <button
-              onClick={handleFlashcardNext}
-              disabled={flashcardIndex >= data.vocabulary.length - 1}
-              className="p-3 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-all"
-            >
-              <ChevronRight className="w-6 h-6" />
-            </button>
-          </div>
-        </div>
+        <FlashcardSession
+          items={data.vocabulary}
+          title="This analysis"
+          onResult={onFlashcardResult}
+          onClose={() => setIsFlashcardMode(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { X, Download, Layers } from 'lucide-react';
+import { AnkiCardType, AnkiEntry, downloadAnkiDeck } from '../services/ankiService';
+
+interface Props {
+  deckName: string;
+  entries: AnkiEntry[];
+  onClose: () => void;
+}
+
+const CARD_TYPES: { value: AnkiCardType; label: string; description: string }[] = [
+  { value: 'basic', label: 'Basic', description: 'Term on the front; definition, origin, nuance and examples on the back.' },
+  { value: 'cloze', label: 'Cloze', description: 'An example sentence with the term blanked out, like flashcard mode.' },
+];
+
+const AnkiExportDialog: React.FC<Props> = ({ deckName, entries, onClose }) => {
+  const [cardType, setCardType] = useState<AnkiCardType>('basic');
+
+  const handleDownload = () => {
+    downloadAnkiDeck(entries, deckName, cardType);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-md mx-4 overflow-hidden animate-fade-in-up">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 rounded-lg bg-indigo-50 text-indigo-600">
+              <Layers className="w-5 h-5" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-serif font-bold text-slate-800">Export to Anki</h2>
+              <p className="text-sm text-slate-500 truncate">{deckName} · {entries.length} cards</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 p-2 rounded-full hover:bg-slate-100 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {CARD_TYPES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setCardType(option.value)}
+              className={`w-full text-left p-4 rounded-xl border-2 transition-all ${cardType === option.value ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-slate-300'}`}
+            >
+              <p className="font-bold text-slate-800">{option.label}</p>
+              <p className="text-sm text-slate-500">{option.description}</p>
+            </button>
+          ))}
+          <p className="text-xs text-slate-400">
+            In Anki, use File → Import and pick the downloaded file. Cards are tagged by category and source type.
+          </p>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-500 hover:text-slate-800 font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={entries.length === 0}
+            className="flex items-center gap-2 px-6 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium transition-all shadow-lg disabled:bg-slate-300"
+          >
+            <Download className="w-4 h-4" />
+            Download Deck
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnkiExportDialog;
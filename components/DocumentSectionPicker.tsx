@@ -0,0 +1,151 @@
+import React, { useState, useMemo } from 'react';
+import { X, Book, FileText, Check, AlertCircle } from 'lucide-react';
+import { DocumentSection, ExtractedDocument } from '../services/documentService';
+
+interface Props {
+  document: ExtractedDocument;
+  onConfirm: (selected: DocumentSection[]) => void;
+  onClose: () => void;
+}
+
+// Past this size a single analysis gets slow and loses detail
+const LONG_SELECTION_WORDS = 6000;
+
+const DocumentSectionPicker: React.FC<Props> = ({ document, onConfirm, onClose }) => {
+  const total = document.sections.length;
+  const isPdf = document.kind === 'pdf';
+
+  // PDFs are picked by page range; EPUBs chapter by chapter
+  const [fromPage, setFromPage] = useState(1);
+  const [toPage, setToPage] = useState(Math.min(total, 10));
+  const [selectedChapters, setSelectedChapters] = useState<Set<number>>(
+    () => new Set(document.sections.length > 0 ? [0] : [])
+  );
+
+  const selected = useMemo(() => {
+    if (isPdf) {
+      const start = Math.max(1, Math.min(fromPage, toPage));
+      const end = Math.min(total, Math.max(fromPage, toPage));
+      return document.sections.slice(start - 1, end);
+    }
+    return document.sections.filter(section => selectedChapters.has(section.index));
+  }, [isPdf, fromPage, toPage, selectedChapters, document.sections, total]);
+
+  const selectedWords = selected.reduce((sum, section) => sum + section.wordCount, 0);
+
+  const toggleChapter = (index: number) => {
+    setSelectedChapters(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-xl mx-4 max-h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 rounded-lg bg-indigo-50 text-indigo-600">
+              {isPdf ? <FileText className="w-5 h-5" /> : <Book className="w-5 h-5" />}
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-serif font-bold text-slate-800 truncate">{document.fileName}</h2>
+              <p className="text-sm text-slate-500">
+                {isPdf ? `${total} pages` : `${total} chapters`} · choose what to analyze
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 p-2 rounded-full hover:bg-slate-100 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 scrollbar-thin">
+          {isPdf ? (
+            <div className="flex items-center gap-3">
+              <label className="text-sm font-medium text-slate-700">Pages</label>
+              <input
+                type="number"
+                min={1}
+                max={total}
+                value={fromPage}
+                onChange={(e) => setFromPage(Number(e.target.value) || 1)}
+                className="w-24 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <span className="text-slate-400">to</span>
+              <input
+                type="number"
+                min={1}
+                max={total}
+                value={toPage}
+                onChange={(e) => setToPage(Number(e.target.value) || 1)}
+                className="w-24 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {document.sections.map(section => {
+                const isSelected = selectedChapters.has(section.index);
+                return (
+                  <button
+                    key={section.index}
+                    onClick={() => toggleChapter(section.index)}
+                    className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${isSelected ? 'bg-emerald-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <div className={`w-5 h-5 rounded border-2 flex items-center justify-center flex-shrink-0 ${isSelected ? 'border-emerald-500 bg-emerald-500 text-white' : 'border-slate-300'}`}>
+                      {isSelected && <Check className="w-3 h-3" />}
+                    </div>
+                    <span className="text-xs font-bold text-slate-400 w-8">{section.index + 1}</span>
+                    <span className="flex-1 text-sm text-slate-800 truncate">{section.title}</span>
+                    <span className="text-xs text-slate-400">{section.wordCount.toLocaleString()} words</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {selectedWords > LONG_SELECTION_WORDS && (
+            <div className="mt-4 flex items-center gap-2 p-3 bg-amber-50 text-amber-700 rounded-lg text-sm border border-amber-100">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              That's a long selection. Analyzing one chapter at a time gives more detailed results.
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-between items-center">
+          <span className="text-sm text-slate-500">{selectedWords.toLocaleString()} words selected</span>
+          <div className="flex gap-4">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-slate-500 hover:text-slate-800 font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(selected)}
+              disabled={selectedWords === 0}
+              className="flex items-center gap-2 px-6 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium transition-all shadow-lg disabled:bg-slate-300"
+            >
+              <Check className="w-4 h-4" />
+              Use Selection
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentSectionPicker;
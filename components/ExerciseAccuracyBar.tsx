@@ -0,0 +1,26 @@
+import React from 'react';
+import { ExerciseType, FlashcardResult } from '../types';
+import { accuracyByType, EXERCISE_LABELS } from '../services/exerciseService';
+
+interface Props {
+  answers: { exerciseType: ExerciseType; result: FlashcardResult }[];
+}
+
+// How each exercise type went this session, e.g. "Matching 3/4"
+const ExerciseAccuracyBar: React.FC<Props> = ({ answers }) => {
+  const accuracy = accuracyByType(answers);
+  const types = (Object.keys(EXERCISE_LABELS) as ExerciseType[]).filter(type => accuracy[type]);
+  if (types.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2 mt-6">
+      {types.map(type => (
+        <span key={type} className="px-3 py-1 rounded-full bg-slate-800 text-xs font-medium text-slate-300">
+          {EXERCISE_LABELS[type]} <span className="text-emerald-400">{accuracy[type]!.correct}/{accuracy[type]!.attempts}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default ExerciseAccuracyBar;
@@ -0,0 +1,420 @@
+import React, { useState } from 'react';
+import { FlashcardResult } from '../types';
+import { AlertCircle, Check, CheckCircle, RotateCcw, Volume2, XCircle } from 'lucide-react';
+import { AnswerMatch, matchAnswer } from '../services/answerMatchService';
+import { Exercise, EXERCISE_LABELS, gradeMatching } from '../services/exerciseService';
+import { generateSpeech } from '../services/geminiService';
+
+interface Props {
+  exercise: Exercise;
+  // One result per term in exercise.items
+  onAnswered: (results: FlashcardResult[]) => void;
+  // Shown under the answer once the exercise is done, e.g. a next button
+  children?: React.ReactNode;
+}
+
+const QUESTIONS: Record<Exercise['type'], string> = {
+  typed_recall: "What's the term?",
+  cloze: 'Fill in the gap',
+  multiple_choice: 'Which term fits?',
+  context_choice: 'Which context is this?',
+  word_order: 'Put the words in order',
+  matching: 'Match each term to its definition',
+};
+
+// Position badges that tie a term to the definition picked for it
+const PAIR_COLORS = ['bg-indigo-500', 'bg-emerald-500', 'bg-amber-500', 'bg-rose-500'];
+
+const ExerciseCard: React.FC<Props> = ({ exercise, onAnswered, children }) => {
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [placed, setPlaced] = useState<number[]>([]);
+  const [selectedTerm, setSelectedTerm] = useState<number | null>(exercise.type === 'matching' ? 0 : null);
+  const [chosen, setChosen] = useState<(number | null)[]>(() => exercise.items.map(() => null));
+  const [response, setResponse] = useState<string | null>(null);
+  // How a typed answer compared with the term, for "almost" feedback
+  const [match, setMatch] = useState<AnswerMatch | null>(null);
+  const [results, setResults] = useState<FlashcardResult[] | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const item = exercise.items[0];
+
+  const playTerm = async () => {
+    if (isPlaying) return;
+    setIsPlaying(true);
+    try {
+      await generateSpeech(item.term);
+    } catch (error) {
+      console.error('Failed to pronounce:', error);
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const finish = (answer: string | null, outcome: FlashcardResult[]) => {
+    setResponse(answer);
+    setResults(outcome);
+    onAnswered(outcome);
+    if (exercise.items.length === 1) playTerm();
+  };
+
+  const answerWith = (answer: string) => {
+    if (!answer.trim()) return;
+    let isCorrect: boolean;
+    switch (exercise.type) {
+      case 'typed_recall':
+      case 'cloze': {
+        // A typo away still counts as recalled; the diff shows the spelling
+        const typedMatch = matchAnswer(answer, item.term);
+        setMatch(typedMatch);
+        isCorrect = typedMatch.verdict !== 'incorrect';
+        break;
+      }
+      case 'multiple_choice':
+      case 'context_choice':
+      case 'word_order':
+        isCorrect = answer === exercise.answer;
+        break;
+      default:
+        return;
+    }
+    finish(answer, [isCorrect ? 'correct' : 'incorrect']);
+  };
+
+  const checkMatching = () => {
+    if (exercise.type !== 'matching' || chosen.some(choice => choice === null)) return;
+    finish(null, gradeMatching(exercise, chosen as number[]));
+  };
+
+  const skip = () => finish(null, exercise.items.map(() => 'skipped'));
+
+  const pickDefinition = (definition: number) => {
+    if (selectedTerm === null) return;
+    // A definition belongs to one term at a time
+    const next = chosen.map((choice, index) =>
+      index === selectedTerm ? definition : choice === definition ? null : choice
+    );
+    setChosen(next);
+    const nextUnpaired = next.indexOf(null);
+    setSelectedTerm(nextUnpaired === -1 ? null : nextUnpaired);
+  };
+
+  const correctCount = results?.filter(result => result === 'correct').length ?? 0;
+  const isAllCorrect = results !== null && correctCount === results.length;
+
+  // ==== Question ====
+
+  const renderPrompt = () => {
+    switch (exercise.type) {
+      case 'typed_recall':
+      case 'multiple_choice':
+        return (
+          <>
+            <div className="p-5 bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl mb-5">
+              <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3">Definition</p>
+              <p className="text-xl text-white font-serif leading-relaxed">{exercise.prompt}</p>
+            </div>
+            {exercise.type === 'typed_recall' && exercise.hint && (
+              <div className="mb-5 p-4 bg-amber-50 rounded-xl border border-amber-200">
+                <p className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-2">💡 Hint (Example)</p>
+                <p className="text-slate-700 italic text-sm leading-relaxed">"{exercise.hint}"</p>
+              </div>
+            )}
+          </>
+        );
+      case 'cloze':
+        return (
+          <>
+            <div className="p-5 bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl mb-5">
+              <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3">From the text</p>
+              <p className="text-xl text-white font-serif leading-relaxed">"{exercise.sentence}"</p>
+            </div>
+            <div className="mb-5 p-4 bg-amber-50 rounded-xl border border-amber-200">
+              <p className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-2">💡 Hint (Meaning)</p>
+              <p className="text-slate-700 italic text-sm leading-relaxed">{exercise.hint}</p>
+            </div>
+          </>
+        );
+      case 'context_choice':
+        return (
+          <div className="p-5 bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl mb-5">
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3">{item.term}</p>
+            <p className="text-xl text-white font-serif leading-relaxed">"{exercise.sentence}"</p>
+          </div>
+        );
+      case 'word_order':
+        return (
+          <div className="p-5 bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl mb-5">
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3">Meaning</p>
+            <p className="text-lg text-white font-serif leading-relaxed">{exercise.hint}</p>
+          </div>
+        );
+      case 'matching':
+        return null;
+    }
+  };
+
+  const renderAnswerInput = () => {
+    switch (exercise.type) {
+      case 'typed_recall':
+      case 'cloze':
+        return (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={typedAnswer}
+              onChange={(e) => setTypedAnswer(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && answerWith(typedAnswer)}
+              placeholder="Type your answer..."
+              className="flex-1 px-4 py-3 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-lg font-serif"
+              autoFocus
+            />
+            <button
+              onClick={() => answerWith(typedAnswer)}
+              disabled={!typedAnswer.trim()}
+              className="px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-colors disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <Check className="w-5 h-5" />
+              Check
+            </button>
+          </div>
+        );
+      case 'multiple_choice':
+      case 'context_choice':
+        return (
+          <div className="grid sm:grid-cols-2 gap-2">
+            {exercise.options.map(option => (
+              <button
+                key={option}
+                onClick={() => answerWith(option)}
+                className="px-4 py-3 text-left border border-slate-200 rounded-xl font-serif text-lg text-slate-800 hover:border-emerald-500 hover:bg-emerald-50 transition-colors"
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        );
+      case 'word_order': {
+        const isComplete = placed.length === exercise.tokens.length;
+        return (
+          <div className="space-y-3">
+            <div className="min-h-[52px] px-3 py-2 border-2 border-dashed border-slate-200 rounded-xl flex flex-wrap gap-2 items-center">
+              {placed.map((tokenIndex, position) => (
+                <button
+                  key={position}
+                  onClick={() => setPlaced(prev => prev.filter((_, i) => i !== position))}
+                  className="px-3 py-1.5 bg-slate-900 text-white rounded-lg font-serif hover:bg-slate-700 transition-colors"
+                >
+                  {exercise.tokens[tokenIndex]}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {exercise.tokens.map((token, tokenIndex) => (
+                <button
+                  key={tokenIndex}
+                  onClick={() => setPlaced(prev => [...prev, tokenIndex])}
+                  disabled={placed.includes(tokenIndex)}
+                  className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-serif text-slate-800 hover:border-emerald-500 transition-colors disabled:opacity-30"
+                >
+                  {token}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPlaced([])}
+                disabled={placed.length === 0}
+                className="px-4 py-3 text-slate-500 hover:text-slate-800 rounded-xl font-medium transition-colors disabled:opacity-30 flex items-center gap-1"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Reset
+              </button>
+              <button
+                onClick={() => answerWith(placed.map(tokenIndex => exercise.tokens[tokenIndex]).join(' '))}
+                disabled={!isComplete}
+                className="flex-1 px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-colors disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                <Check className="w-5 h-5" />
+                Check
+              </button>
+            </div>
+          </div>
+        );
+      }
+      case 'matching':
+        return (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                {exercise.items.map((term, index) => (
+                  <button
+                    key={term.term}
+                    onClick={() => setSelectedTerm(index)}
+                    className={`w-full px-3 py-2 text-left rounded-lg border font-serif font-bold transition-colors flex items-center gap-2 ${
+                      selectedTerm === index ? 'border-indigo-500 bg-indigo-50 text-indigo-900' : 'border-slate-200 text-slate-800 hover:border-indigo-300'
+                    }`}
+                  >
+                    <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${chosen[index] !== null ? PAIR_COLORS[index % PAIR_COLORS.length] : 'bg-slate-200'}`} />
+                    {term.term}
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-2">
+                {exercise.definitions.map((definition, index) => {
+                  const owner = chosen.indexOf(index);
+                  return (
+                    <button
+                      key={index}
+                      onClick={() => pickDefinition(index)}
+                      disabled={selectedTerm === null}
+                      className="w-full px-3 py-2 text-left rounded-lg border border-slate-200 text-sm text-slate-700 hover:border-indigo-300 transition-colors flex items-start gap-2 disabled:hover:border-slate-200"
+                    >
+                      <span className={`mt-1 w-2.5 h-2.5 rounded-full flex-shrink-0 ${owner !== -1 ? PAIR_COLORS[owner % PAIR_COLORS.length] : 'bg-slate-200'}`} />
+                      {definition}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <button
+              onClick={checkMatching}
+              disabled={chosen.some(choice => choice === null)}
+              className="w-full px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-colors disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <Check className="w-5 h-5" />
+              Check
+            </button>
+          </div>
+        );
+    }
+  };
+
+  // ==== Answer ====
+
+  const renderSolution = () => {
+    if (exercise.type === 'matching') {
+      return (
+        <div className="p-4 bg-slate-900 rounded-xl space-y-3">
+          {exercise.items.map((term, index) => (
+            <div key={term.term} className="flex items-start gap-2">
+              {results?.[index] === 'correct'
+                ? <CheckCircle className="w-4 h-4 mt-1 text-emerald-400 flex-shrink-0" />
+                : <XCircle className="w-4 h-4 mt-1 text-red-400 flex-shrink-0" />}
+              <p className="text-sm text-slate-300">
+                <span className="font-serif font-bold text-white">{term.term}</span>: {exercise.definitions[exercise.answerKey[index]]}
+              </p>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <div className="p-4 bg-slate-900 rounded-xl">
+        <p className="text-xs font-bold text-slate-400 uppercase mb-2">Answer</p>
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-serif font-bold text-white">
+            {exercise.type === 'context_choice' ? exercise.answer : item.term}
+          </h3>
+          <button
+            onClick={playTerm}
+            className={`p-3 rounded-full bg-slate-800 hover:bg-slate-700 transition-colors ${
+              isPlaying ? 'text-emerald-400 animate-pulse' : 'text-slate-400'
+            }`}
+          >
+            <Volume2 className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-2xl p-6 min-h-[400px] flex flex-col">
+      {/* Category and exercise type */}
+      <div className="flex justify-center gap-2 mb-4">
+        {exercise.items.length === 1 && (
+          <span className="px-3 py-1 text-xs font-bold uppercase tracking-wider bg-indigo-100 text-indigo-700 rounded-full">
+            {item.category.replace(/_/g, ' ')}
+          </span>
+        )}
+        <span className="px-3 py-1 text-xs font-bold uppercase tracking-wider bg-slate-100 text-slate-600 rounded-full">
+          {EXERCISE_LABELS[exercise.type]}
+        </span>
+      </div>
+
+      {renderPrompt()}
+
+      <div className="flex-1 flex flex-col justify-end">
+        {!results ? (
+          <div className="space-y-4">
+            <div>
+              <p className="text-xs font-bold text-slate-400 uppercase mb-2">{QUESTIONS[exercise.type]}</p>
+              {renderAnswerInput()}
+            </div>
+            <button
+              onClick={skip}
+              className="w-full py-2 text-slate-400 hover:text-slate-600 text-sm font-medium transition-colors"
+            >
+              Skip & Show Answer
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Result */}
+            {match?.verdict === 'almost' ? (
+            <div className="p-4 rounded-xl flex items-center gap-3 bg-amber-50 border border-amber-200">
+              <AlertCircle className="w-6 h-6 text-amber-500 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="font-bold text-amber-700">Almost! Check the spelling</p>
+                <p className="text-lg font-serif text-slate-700">
+                  {match.diff.map((part, index) => (
+                    <span
+                      key={index}
+                      className={
+                        part.kind === 'missing' ? 'bg-emerald-100 text-emerald-700 font-bold underline'
+                        : part.kind === 'extra' ? 'bg-red-100 text-red-600 line-through'
+                        : undefined
+                      }
+                    >
+                      {part.text}
+                    </span>
+                  ))}
+                </p>
+              </div>
+            </div>
+            ) : (
+            <div className={`p-4 rounded-xl flex items-center gap-3 ${
+              isAllCorrect ? 'bg-emerald-50 border border-emerald-200' : 'bg-red-50 border border-red-200'
+            }`}>
+              {isAllCorrect ? (
+                <CheckCircle className="w-6 h-6 text-emerald-600 flex-shrink-0" />
+              ) : (
+                <XCircle className="w-6 h-6 text-red-500 flex-shrink-0" />
+              )}
+              <div className="flex-1">
+                <p className={`font-bold ${isAllCorrect ? 'text-emerald-700' : 'text-red-700'}`}>
+                  {isAllCorrect
+                    ? 'Correct!'
+                    : exercise.type === 'matching' && correctCount > 0
+                      ? `${correctCount} of ${results.length} right`
+                      : 'Not quite...'}
+                </p>
+                {!isAllCorrect && response && (
+                  <p className="text-sm text-red-600">Your answer: "{response}"</p>
+                )}
+              </div>
+            </div>
+            )}
+
+            {renderSolution()}
+
+            {children}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExerciseCard;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { ExerciseType, FlashcardResult, VocabularyItem } from '../types';
+import { Check, ChevronLeft, ChevronRight, RotateCcw, Shuffle, Trophy, X } from 'lucide-react';
+import { buildExerciseSession, Exercise, SessionAnswer, shuffle, summarizeSession } from '../services/exerciseService';
+import ExerciseCard from './ExerciseCard';
+import ExerciseAccuracyBar from './ExerciseAccuracyBar';
+
+// A term to practice, tagged with the analysis it came from when there is one
+export type SessionItem = VocabularyItem & { analysisId?: string | null };
+
+interface Props {
+  // Any list of terms: one analysis, a folder, the word bank, a review queue
+  items: SessionItem[];
+  title: string;
+  // analysisId is read from the answered item itself, so callers needn't look it up
+  onResult?: (item: VocabularyItem, result: FlashcardResult, exerciseType: ExerciseType, analysisId: string | null) => void;
+  onClose: () => void;
+}
+
+const FlashcardSession: React.FC<Props> = ({ items, title, onResult, onClose }) => {
+  const [isShuffled, setIsShuffled] = useState(false);
+  // The terms this run covers: everything, or only the ones missed last time
+  const [runItems, setRunItems] = useState<SessionItem[]>(items);
+  const [isRerun, setIsRerun] = useState(false);
+  const [exercises, setExercises] = useState<Exercise[]>(() => buildExerciseSession(items));
+  const [index, setIndex] = useState(0);
+  // First answer per exercise; going back and answering again doesn't change it
+  const [answers, setAnswers] = useState<Record<string, SessionAnswer[]>>({});
+  const [isFinished, setIsFinished] = useState(false);
+
+  const startRun = (terms: SessionItem[], shuffled: boolean, rerun = isRerun) => {
+    setRunItems(terms);
+    setIsRerun(rerun);
+    setExercises(buildExerciseSession(shuffled ? shuffle(terms) : terms));
+    setIndex(0);
+    setAnswers({});
+    setIsFinished(false);
+  };
+
+  const toggleShuffle = () => {
+    setIsShuffled(!isShuffled);
+    startRun(runItems, !isShuffled);
+  };
+
+  // Only the first answer counts: going back remounts the card, but a second
+  // try must not be logged or rescheduled again
+  const handleAnswered = (exercise: Exercise, results: FlashcardResult[]) => {
+    if (answers[exercise.id]) return;
+    setAnswers(prev => ({
+      ...prev,
+      [exercise.id]: exercise.items.map((item, i) => ({ item, exerciseType: exercise.type, result: results[i] })),
+    }));
+    exercise.items.forEach((item, i) => onResult?.(item, results[i], exercise.type, (item as SessionItem).analysisId ?? null));
+  };
+
+  const sessionAnswers = Object.keys(answers).flatMap(id => answers[id]);
+  // Cards passed over with Next count as skipped, so a re-run of missed terms includes them
+  const passedOver: SessionAnswer[] = exercises
+    .filter(exercise => !answers[exercise.id])
+    .flatMap(exercise => exercise.items.map(item => ({ item, exerciseType: exercise.type, result: 'skipped' as const })));
+  const summary = summarizeSession([...sessionAnswers, ...passedOver]);
+
+  if (exercises.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/95 z-50 flex flex-col items-center justify-center p-4">
+      {/* Close Button */}
+      <button
+        onClick={onClose}
+        className="absolute top-6 right-6 p-3 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+      >
+        <X className="w-6 h-6" />
+      </button>
+
+      {/* Title and Progress */}
+      <div className="absolute top-6 left-6 text-sm font-medium">
+        <p className="text-slate-300">{title}{isRerun && ' · missed terms'}</p>
+        {!isFinished && <p className="text-slate-500">{index + 1} / {exercises.length}</p>}
+      </div>
+
+      {isFinished ? (
+        <div className="w-full max-w-xl bg-white rounded-2xl shadow-2xl p-8 text-center animate-fade-in-up">
+          <div className="inline-flex p-3 bg-indigo-100 rounded-xl mb-4">
+            <Trophy className="w-8 h-8 text-indigo-600" />
+          </div>
+          <h2 className="text-2xl font-serif font-bold text-slate-900">Session complete</h2>
+          <p className="text-slate-500 mt-1">
+            {summary.answered > 0
+              ? `${summary.correct} of ${summary.answered} right (${Math.round((summary.correct / summary.answered) * 100)}%)`
+              : 'No answers this time.'}
+          </p>
+
+          {summary.missed.length > 0 && (
+            <div className="mt-6 text-left">
+              <p className="text-xs font-bold text-slate-400 uppercase mb-2">To work on</p>
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-xl max-h-60 overflow-y-auto scrollbar-thin">
+                {summary.missed.map(item => (
+                  <li key={item.term} className="px-4 py-2">
+                    <p className="font-serif font-bold text-slate-800">{item.term}</p>
+                    <p className="text-sm text-slate-500">{item.definition}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="mt-8 flex flex-col sm:flex-row gap-2">
+            {summary.missed.length > 0 && (
+              <button
+                onClick={() => startRun(summary.missed, isShuffled, true)}
+                className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Practice missed ({summary.missed.length})
+              </button>
+            )}
+            <button
+              onClick={() => startRun(items, isShuffled, false)}
+              className="flex-1 py-3 bg-slate-100 text-slate-700 rounded-xl font-bold hover:bg-slate-200 transition-colors"
+            >
+              Start over
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2"
+            >
+              Done <Check className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="w-full max-w-xl">
+          <ExerciseCard
+            key={exercises[index].id}
+            exercise={exercises[index]}
+            onAnswered={results => handleAnswered(exercises[index], results)}
+          >
+            {index < exercises.length - 1 ? (
+              <button
+                onClick={() => setIndex(prev => prev + 1)}
+                className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold hover:bg-slate-800 transition-colors flex items-center justify-center gap-2"
+              >
+                Next Card <ChevronRight className="w-5 h-5" />
+              </button>
+            ) : (
+              <button
+                onClick={() => setIsFinished(true)}
+                className="w-full py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2"
+              >
+                See results <Check className="w-5 h-5" />
+              </button>
+            )}
+          </ExerciseCard>
+        </div>
+      )}
+
+      <ExerciseAccuracyBar answers={sessionAnswers} />
+
+      {/* Navigation */}
+      {!isFinished && (
+        <div className="flex items-center gap-8 mt-8">
+          <button
+            onClick={() => setIndex(prev => prev - 1)}
+            disabled={index === 0}
+            className="p-3 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-all"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+          <button
+            onClick={toggleShuffle}
+            title="Shuffle and restart"
+            className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+              isShuffled ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            <Shuffle className="w-4 h-4" />
+            Shuffle
+          </button>
+          <button
+            onClick={() => setIndex(prev => prev + 1)}
+            disabled={index >= exercises.length - 1}
+            className="p-3 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-all"
+          >
+            <ChevronRight className="w-6 h-6" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardSession;
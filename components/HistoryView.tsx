@@ -1,7 +1,9 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { SavedAnalysis, AnalysisFolder, VocabularyItem } from '../types';
-import { Volume2, Trash2, ChevronLeft, ChevronRight, BookOpen, Calendar, ArrowRight, FolderPlus, Folder, FolderOpen, ChevronDown, ChevronUp, MoreHorizontal, Edit2, X, Check, GripVertical, CheckCircle, XCircle, GraduationCap } from 'lucide-react';
-import { generateSpeech } from '../services/geminiService';
+import React, { useState, useRef } from 'react';
+import { SavedAnalysis, AnalysisFolder, VocabularyItem, FlashcardResult, ExerciseType } from '../types';
+import { Trash2, BookOpen, Calendar, ArrowRight, FolderPlus, Folder, FolderOpen, ChevronDown, ChevronUp, MoreHorizontal, Edit2, X, Check, GripVertical, GraduationCap, Layers } from 'lucide-react';
+import { entriesFromAnalyses, AnkiEntry } from '../services/ankiService';
+import AnkiExportDialog from './AnkiExportDialog';
+import FlashcardSession from './FlashcardSession';
 
 interface Props {
   savedAnalyses: SavedAnalysis[];
@@ -12,6 +14,7 @@ interface Props {
   onUpdateFolder: (folder: AnalysisFolder) => void;
   onDeleteFolder: (folderId: string) => void;
   onMoveAnalysisToFolder: (analysisId: string, folderId: string | null) => void;
+  onFlashcardResult?: (item: VocabularyItem, result: FlashcardResult, analysisId: string | null, exerciseType: ExerciseType) => void;
 }
 
 const FOLDER_COLORS = [
@@ -36,16 +39,10 @@ const HistoryView: React.FC<Props> = ({
   onUpdateFolder,
   onDeleteFolder,
   onMoveAnalysisToFolder,
+  onFlashcardResult,
 }) => {
-  const [playingId, setPlayingId] = useState<string | null>(null);
-
   // Flashcard practice state
-  const [practiceAnalysis, setPracticeAnalysis] = useState<SavedAnalysis | null>(null);
-  const [flashcardIndex, setFlashcardIndex] = useState(0);
-  const [userAnswer, setUserAnswer] = useState('');
-  const [answerResult, setAnswerResult] = useState<'correct' | 'incorrect' | null>(null);
-  const [showAnswer, setShowAnswer] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const [practiceSession, setPracticeSession] = useState<{ title: string; analyses: SavedAnalysis[] } | null>(null);
 
   // Folder state
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
@@ -63,102 +60,27 @@ const HistoryView: React.FC<Props> = ({
 
   const newFolderInputRef = useRef<HTMLInputElement>(null);
 
-  // Helper function to mask the vocabulary term in text
-  const maskTerm = useCallback((text: string, term: string): string => {
-    if (!text || !term) return text;
-    
-    let maskedText = text;
-    const cleanTerm = term.replace(/[.,!?;:'"]+$/, '').trim();
-    const subPhrases = cleanTerm.split(/[,;]|\s+and\s+/i)
-      .map(s => s.trim())
-      .filter(s => s.length > 2);
-    
-    const allTermsToMask = [cleanTerm, ...subPhrases];
-    const uniqueTerms = [...new Set(allTermsToMask)];
-    uniqueTerms.sort((a, b) => b.length - a.length);
-    
-    for (const phrase of uniqueTerms) {
-      if (phrase.length < 3) continue;
-      const escapedTerm = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const regex = new RegExp(`\\b${escapedTerm}\\b`, 'gi');
-      maskedText = maskedText.replace(regex, '_____');
-    }
-    
-    return maskedText;
-  }, []);
-
-  const handlePlayAudio = async (e: React.MouseEvent, text: string, id: string) => {
-    e.stopPropagation();
-    if (playingId) return;
-    setPlayingId(id);
-    try {
-      await generateSpeech(text);
-    } finally {
-      setPlayingId(null);
-    }
-  };
+  // Anki export state
+  const [ankiExport, setAnkiExport] = useState<{ deckName: string; entries: AnkiEntry[] } | null>(null);
 
-  // Flashcard practice functions
-  const openPractice = (analysis: SavedAnalysis) => {
-    setPracticeAnalysis(analysis);
-    setFlashcardIndex(0);
-    setUserAnswer('');
-    setAnswerResult(null);
-    setShowAnswer(false);
-  };
-
-  const closePractice = () => {
-    setPracticeAnalysis(null);
-    setUserAnswer('');
-    setAnswerResult(null);
-    setShowAnswer(false);
-  };
-
-  const handleCheckAnswer = async () => {
-    if (!userAnswer.trim() || !practiceAnalysis) return;
-    
-    const currentItem = practiceAnalysis.analysisResult.vocabulary[flashcardIndex];
-    const isCorrect = userAnswer.trim().toLowerCase() === currentItem.term.toLowerCase();
-    
-    setAnswerResult(isCorrect ? 'correct' : 'incorrect');
-    setShowAnswer(true);
-    
-    try {
-      await generateSpeech(currentItem.term);
-    } catch (error) {
-      console.error('Failed to pronounce:', error);
-    }
+  const openAnkiExport = (deckName: string, analyses: SavedAnalysis[]) => {
+    setAnkiExport({ deckName, entries: entriesFromAnalyses(analyses) });
+    setFolderMenuOpen(null);
   };
 
-  const handleSkip = async () => {
-    if (!practiceAnalysis) return;
-    const currentItem = practiceAnalysis.analysisResult.vocabulary[flashcardIndex];
-    setShowAnswer(true);
-    setAnswerResult('incorrect');
-    try {
-      await generateSpeech(currentItem.term);
-    } catch (error) {
-      console.error('Failed to pronounce:', error);
-    }
+  // Flashcard practice over one analysis or a whole folder
+  const openPractice = (title: string, analyses: SavedAnalysis[]) => {
+    setPracticeSession({ title, analyses });
+    setFolderMenuOpen(null);
   };
 
-  const nextCard = () => {
-    if (!practiceAnalysis) return;
-    if (flashcardIndex < practiceAnalysis.analysisResult.vocabulary.length - 1) {
-      setFlashcardIndex(prev => prev + 1);
-      setUserAnswer('');
-      setAnswerResult(null);
-      setShowAnswer(false);
-    }
-  };
+  // Each term carries the analysis it came from, so answers are logged against it
+  const practiceItems = practiceSession?.analyses.flatMap(analysis =>
+    analysis.analysisResult.vocabulary.map(item => ({ ...item, analysisId: analysis.id }))
+  ) ?? [];
 
-  const prevCard = () => {
-    if (flashcardIndex > 0) {
-      setFlashcardIndex(prev => prev - 1);
-      setUserAnswer('');
-      setAnswerResult(null);
-      setShowAnswer(false);
-    }
+  const handlePracticeResult = (item: VocabularyItem, result: FlashcardResult, exerciseType: ExerciseType, analysisId: string | null) => {
+    onFlashcardResult?.(item, result, analysisId, exerciseType);
   };
 
   // Folder functions
@@ -320,7 +242,16 @@ const HistoryView: React.FC<Props> = ({
         <div className="flex gap-2">
           {analysis.analysisResult.vocabulary.length > 0 && (
             <button
-              onClick={() => openPractice(analysis)}
+              onClick={() => openAnkiExport(analysis.fileName || 'Text Analysis', [analysis])}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-lg text-xs font-medium hover:bg-slate-50 transition-colors"
+              title="Export to Anki"
+            >
+              <Layers className="w-3 h-3" /> Anki
+            </button>
+          )}
+          {analysis.analysisResult.vocabulary.length > 0 && (
+            <button
+              onClick={() => openPractice(analysis.fileName || 'Text Analysis', [analysis])}
               className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-medium hover:bg-indigo-700 transition-colors"
             >
               <GraduationCap className="w-3 h-3" /> Practice
@@ -352,7 +283,16 @@ const HistoryView: React.FC<Props> = ({
       {/* Header */}
       <div className="flex justify-between items-center mb-8">
         <h2 className="text-2xl font-serif font-bold text-slate-900">Saved Analyses</h2>
-        <div className="text-sm text-slate-500">{savedAnalyses.length} analyses</div>
+        <div className="flex items-center gap-4">
+          <div className="text-sm text-slate-500">{savedAnalyses.length} analyses</div>
+          <button
+            onClick={() => openAnkiExport('All Vocabulary', savedAnalyses)}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-sm font-medium hover:bg-slate-50 transition-colors shadow-sm"
+          >
+            <Layers className="w-4 h-4" />
+            Export to Anki
+          </button>
+        </div>
       </div>
 
       {/* Folder Management */}
@@ -521,6 +461,28 @@ const HistoryView: React.FC<Props> = ({
                               >
                                 <Edit2 className="w-3.5 h-3.5" /> Rename
                               </button>
+                              {folderAnalyses.length > 0 && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    openAnkiExport(folder.name, folderAnalyses);
+                                  }}
+                                  className="w-full px-3 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 flex items-center gap-2 whitespace-nowrap"
+                                >
+                                  <Layers className="w-3.5 h-3.5" /> Export to Anki
+                                </button>
+                              )}
+                              {folderAnalyses.some(analysis => analysis.analysisResult.vocabulary.length > 0) && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    openPractice(folder.name, folderAnalyses);
+                                  }}
+                                  className="w-full px-3 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 flex items-center gap-2 whitespace-nowrap"
+                                >
+                                  <GraduationCap className="w-3.5 h-3.5" /> Practice
+                                </button>
+                              )}
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -583,174 +545,21 @@ const HistoryView: React.FC<Props> = ({
       </div>
 
       {/* Flashcard Practice Modal */}
-      {practiceAnalysis && practiceAnalysis.analysisResult.vocabulary.length > 0 && (
-        <div className="fixed inset-0 bg-slate-900/95 z-50 flex flex-col items-center justify-center p-4">
-          {/* Close Button */}
-          <button
-            onClick={closePractice}
-            className="absolute top-6 right-6 p-3 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
-          >
-            <X className="w-6 h-6" />
-          </button>
-
-          {/* Source Name */}
-          <div className="absolute top-6 left-6 text-slate-300 text-sm font-medium">
-            {practiceAnalysis.fileName || 'Text Analysis'}
-          </div>
-
-          {/* Card */}
-          <div className="w-full max-w-xl">
-            {(() => {
-              const currentItem = practiceAnalysis.analysisResult.vocabulary[flashcardIndex];
-              const example = currentItem.examples && currentItem.examples.length > 0 
-                ? currentItem.examples[0].sentence 
-                : null;
-
-              return (
-                <div className="bg-white rounded-2xl shadow-2xl p-6 min-h-[400px] flex flex-col">
-                  {/* Category Badge */}
-                  <div className="flex justify-center mb-4">
-                    <span className="px-3 py-1 text-xs font-bold uppercase tracking-wider bg-indigo-100 text-indigo-700 rounded-full">
-                      {currentItem.category.replace(/_/g, ' ')}
-                    </span>
-                  </div>
-
-                  {/* Definition Card */}
-                  <div className="p-5 bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl mb-5">
-                    <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3">Definition</p>
-                    <p className="text-xl text-white font-serif leading-relaxed">
-                      {maskTerm(currentItem.definition, currentItem.term)}
-                    </p>
-                  </div>
-
-                  {/* Example Hint */}
-                  {example && (
-                    <div className="mb-5 p-4 bg-amber-50 rounded-xl border border-amber-200">
-                      <p className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-2">💡 Hint (Example)</p>
-                      <p className="text-slate-700 italic text-sm leading-relaxed">"{maskTerm(example, currentItem.term)}"</p>
-                    </div>
-                  )}
-
-                  {/* Answer Section */}
-                  <div className="flex-1 flex flex-col justify-end">
-                    {!showAnswer ? (
-                      <div className="space-y-4">
-                        <div>
-                          <p className="text-xs font-bold text-slate-400 uppercase mb-2">What's the term?</p>
-                          <div className="flex gap-2">
-                            <input
-                              ref={inputRef}
-                              type="text"
-                              value={userAnswer}
-                              onChange={(e) => setUserAnswer(e.target.value)}
-                              onKeyDown={(e) => e.key === 'Enter' && handleCheckAnswer()}
-                              placeholder="Type your answer..."
-                              className="flex-1 px-4 py-3 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-lg font-serif"
-                              autoFocus
-                            />
-                            <button
-                              onClick={handleCheckAnswer}
-                              disabled={!userAnswer.trim()}
-                              className="px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-colors disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center gap-2"
-                            >
-                              <Check className="w-5 h-5" />
-                              Check
-                            </button>
-                          </div>
-                        </div>
-                        <button
-                          onClick={handleSkip}
-                          className="w-full py-2 text-slate-400 hover:text-slate-600 text-sm font-medium transition-colors"
-                        >
-                          Skip & Show Answer
-                        </button>
-                      </div>
-                    ) : (
-                      <div className="space-y-4">
-                        {/* Result */}
-                        <div className={`p-4 rounded-xl flex items-center gap-3 ${
-                          answerResult === 'correct' 
-                            ? 'bg-emerald-50 border border-emerald-200' 
-                            : 'bg-red-50 border border-red-200'
-                        }`}>
-                          {answerResult === 'correct' ? (
-                            <CheckCircle className="w-6 h-6 text-emerald-600 flex-shrink-0" />
-                          ) : (
-                            <XCircle className="w-6 h-6 text-red-500 flex-shrink-0" />
-                          )}
-                          <div className="flex-1">
-                            <p className={`font-bold ${answerResult === 'correct' ? 'text-emerald-700' : 'text-red-700'}`}>
-                              {answerResult === 'correct' ? 'Correct!' : 'Not quite...'}
-                            </p>
-                            {answerResult === 'incorrect' && userAnswer && (
-                              <p className="text-sm text-red-600">Your answer: "{userAnswer}"</p>
-                            )}
-                          </div>
-                        </div>
-
-                        {/* Correct Answer */}
-                        <div className="p-4 bg-slate-900 rounded-xl">
-                          <p className="text-xs font-bold text-slate-400 uppercase mb-2">Answer</p>
-                          <div className="flex items-center justify-between">
-                            <h3 className="text-2xl font-serif font-bold text-white">
-                              {currentItem.term}
-                            </h3>
-                            <button
-                              onClick={(e) => handlePlayAudio(e, currentItem.term, `practice-${flashcardIndex}`)}
-                              className={`p-3 rounded-full bg-slate-800 hover:bg-slate-700 transition-colors ${
-                                playingId === `practice-${flashcardIndex}` ? 'text-emerald-400 animate-pulse' : 'text-slate-400'
-                              }`}
-                            >
-                              <Volume2 className="w-5 h-5" />
-                            </button>
-                          </div>
-                        </div>
-
-                        {/* Next Button */}
-                        {flashcardIndex < practiceAnalysis.analysisResult.vocabulary.length - 1 ? (
-                          <button
-                            onClick={nextCard}
-                            className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold hover:bg-slate-800 transition-colors flex items-center justify-center gap-2"
-                          >
-                            Next Card <ChevronRight className="w-5 h-5" />
-                          </button>
-                        ) : (
-                          <button
-                            onClick={closePractice}
-                            className="w-full py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2"
-                          >
-                            Complete! <Check className="w-5 h-5" />
-                          </button>
-                        )}
-                      </div>
-                    )}
-                  </div>
-                </div>
-              );
-            })()}
-          </div>
+      {practiceSession && practiceItems.length > 0 && (
+        <FlashcardSession
+          items={practiceItems}
+          title={practiceSession.title}
+          onResult={handlePracticeResult}
+          onClose={() => setPracticeSession(null)}
+        />
+      )}
 
-          {/* Navigation */}
-          <div className="flex items-center gap-8 mt-8">
-            <button
-              onClick={prevCard}
-              disabled={flashcardIndex === 0}
-              className="p-3 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-all"
-            >
-              <ChevronLeft className="w-6 h-6" />
-            </button>
-            <span className="text-sm font-medium text-slate-400">
-              {flashcardIndex + 1} / {practiceAnalysis.analysisResult.vocabulary.length}
-            </span>
-            <button
-              onClick={nextCard}
-              disabled={flashcardIndex >= practiceAnalysis.analysisResult.vocabulary.length - 1}
-              className="p-3 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-all"
-            >
-              <ChevronRight className="w-6 h-6" />
-            </button>
-          </div>
-        </div>
+      {ankiExport && (
+        <AnkiExportDialog
+          deckName={ankiExport.deckName}
+          entries={ankiExport.entries}
+          onClose={() => setAnkiExport(null)}
+        />
       )}
     </div>
   );
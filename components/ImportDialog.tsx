@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { X, Upload, AlertCircle, Loader2, FileText, Folder, Star } from 'lucide-react';
+import { ConflictResolution, ImportCollection, ImportPlan } from '../services/importService';
+
+interface Props {
+  plan: ImportPlan | null;
+  error: string | null;
+  isApplying: boolean;
+  onApply: (resolutions: Record<string, ConflictResolution>) => void;
+  onClose: () => void;
+}
+
+const COLLECTION_META: Record<ImportCollection, { label: string; icon: React.ReactNode }> = {
+  analyses: { label: 'Analysis', icon: <FileText className="w-4 h-4" /> },
+  folders: { label: 'Folder', icon: <Folder className="w-4 h-4" /> },
+  vocabulary: { label: 'Word', icon: <Star className="w-4 h-4" /> },
+};
+
+const RESOLUTION_OPTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: 'mine', label: 'Keep mine' },
+  { value: 'theirs', label: 'Keep theirs' },
+  { value: 'both', label: 'Keep both' },
+];
+
+const ImportDialog: React.FC<Props> = ({ plan, error, isApplying, onApply, onClose }) => {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const setAll = (resolution: ConflictResolution) => {
+    if (!plan) return;
+    setResolutions(Object.fromEntries(plan.conflicts.map(c => [c.key, resolution])));
+  };
+
+  const totalNew = plan ? plan.newCounts.analyses + plan.newCounts.folders + plan.newCounts.vocabulary : 0;
+  const hasChanges = totalNew > 0 || (plan?.conflicts.length ?? 0) > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-serif font-bold text-slate-800">Import Data</h2>
+            <p className="text-sm text-slate-500">Restore a NativeNuance JSON export</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 p-2 rounded-full hover:bg-slate-100 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-thin">
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {plan && (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                {(Object.keys(COLLECTION_META) as ImportCollection[]).map(collection => (
+                  <div key={collection} className="bg-slate-50 rounded-xl p-4 border border-slate-100 text-center">
+                    <p className="text-2xl font-bold text-slate-900">{plan.newCounts[collection]}</p>
+                    <p className="text-xs text-slate-500 uppercase tracking-wide">
+                      new {collection === 'vocabulary' ? 'words' : collection}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {!hasChanges && (
+                <p className="text-center text-slate-500 italic">Everything in this file is already here.</p>
+              )}
+
+              {plan.conflicts.length > 0 && (
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">
+                      Conflicts ({plan.conflicts.length})
+                    </h3>
+                    <div className="flex gap-1 text-xs">
+                      <span className="text-slate-400 py-1">Apply to all:</span>
+                      {RESOLUTION_OPTIONS.map(option => (
+                        <button
+                          key={option.value}
+                          onClick={() => setAll(option.value)}
+                          className="px-2 py-1 rounded-md text-slate-600 hover:bg-slate-100 font-medium"
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    These items exist on this device and in the file, but differ. Conflicts you leave alone keep your copy.
+                  </p>
+
+                  {plan.conflicts.map(conflict => {
+                    const selected = resolutions[conflict.key] ?? 'mine';
+                    const meta = COLLECTION_META[conflict.collection];
+                    return (
+                      <div key={conflict.key} className="flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-200">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="text-slate-400">{meta.icon}</span>
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-slate-800 truncate">{conflict.label}</p>
+                            <p className="text-[10px] text-slate-400 uppercase tracking-wider">{meta.label}</p>
+                          </div>
+                        </div>
+                        <div className="flex bg-slate-100 p-1 rounded-lg flex-shrink-0">
+                          {RESOLUTION_OPTIONS.map(option => (
+                            <button
+                              key={option.value}
+                              onClick={() => setResolutions(prev => ({ ...prev, [conflict.key]: option.value }))}
+                              className={`px-2.5 py-1 rounded-md text-xs font-medium transition-all ${selected === option.value ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-500 hover:text-slate-800 font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          {plan && hasChanges && (
+            <button
+              onClick={() => onApply(resolutions)}
+              disabled={isApplying}
+              className="flex items-center gap-2 px-6 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium transition-all shadow-lg disabled:bg-slate-300"
+            >
+              {isApplying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnswerGrade, GeneratedPractice } from '../types';
+import { AlertCircle, ArrowRight, Eye, Loader2, PenLine, RotateCcw } from 'lucide-react';
+import { gradeAnswer } from '../services/geminiService';
+import { ApiError, ValidationError } from '../services/apiErrors';
+
+type PracticeSentence = GeneratedPractice['sentences'][number];
+
+// A score this high means a native would say it that way
+export const PASSING_SCORE = 7;
+
+interface Props {
+  sentence: PracticeSentence;
+  targetTerm: string;
+  // The native version is showing; skipped sentences have nothing more to show here
+  isRevealed: boolean;
+  onGraded: (grade: AnswerGrade) => void;
+  onReveal: () => void;
+}
+
+const scoreStyle = (grade: AnswerGrade) =>
+  grade.score >= PASSING_SCORE && grade.used_target
+    ? 'bg-emerald-100 text-emerald-700'
+    : grade.score >= 4
+      ? 'bg-amber-100 text-amber-700'
+      : 'bg-rose-100 text-rose-700';
+
+const PracticeAttempt: React.FC<Props> = ({ sentence, targetTerm, isRevealed, onGraded, onReveal }) => {
+  const [answer, setAnswer] = useState('');
+  const [grade, setGrade] = useState<AnswerGrade | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleCheck = async () => {
+    if (!answer.trim() || isGrading) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGrading(true);
+    setError(null);
+
+    try {
+      const result = await gradeAnswer({
+        original_concept: sentence.original_concept,
+        target_term: targetTerm,
+        native_version: sentence.native_version,
+        answer: answer.trim(),
+      }, { signal: controller.signal });
+      setGrade(result);
+      onGraded(result);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error('Grading failed', e);
+      setError(e instanceof ApiError && !(e instanceof ValidationError)
+        ? e.message
+        : 'Could not grade your answer. Please try again.');
+    } finally {
+      if (!controller.signal.aborted) setIsGrading(false);
+    }
+  };
+
+  if (!grade && isRevealed) return null;
+
+  if (grade) {
+    return (
+      <div className="space-y-3">
+        <div className="flex items-start gap-3">
+          <span className={`flex-shrink-0 px-2.5 py-1 rounded-full text-sm font-bold ${scoreStyle(grade)}`}>
+            {grade.score}/10
+          </span>
+          <div>
+            <p className="text-slate-700 font-serif text-lg leading-relaxed">"{answer.trim()}"</p>
+            {grade.feedback && <p className="text-sm text-slate-500 mt-1">{grade.feedback}</p>}
+            {targetTerm && !grade.used_target && (
+              <p className="text-sm text-amber-700 mt-1">Doesn't use <span className="font-semibold">{targetTerm}</span> yet.</p>
+            )}
+          </div>
+        </div>
+
+        {grade.issues.length > 0 && (
+          <ul className="space-y-2">
+            {grade.issues.map((issue, index) => (
+              <li key={index} className="text-sm bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                <span className="line-through text-rose-600">{issue.phrase}</span>
+                <ArrowRight className="inline w-3 h-3 mx-1.5 text-slate-400" />
+                <span className="font-semibold text-emerald-700">{issue.suggestion}</span>
+                {issue.problem && <p className="text-slate-500 mt-0.5">{issue.problem}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {grade.suggested_fix && grade.suggested_fix !== answer.trim() && (
+          <p className="text-sm text-slate-600">
+            <span className="font-semibold text-indigo-600">Your version, fixed:</span> {grade.suggested_fix}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs text-indigo-600 font-bold uppercase tracking-wider flex items-center gap-1">
+        <PenLine className="w-3 h-3" />
+        Your version{targetTerm && <> &middot; use <span className="normal-case">"{targetTerm}"</span></>}
+      </label>
+      <textarea
+        value={answer}
+        onChange={e => setAnswer(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleCheck();
+        }}
+        rows={2}
+        maxLength={500}
+        disabled={isGrading}
+        placeholder="Say it the way a native would..."
+        className="w-full px-4 py-3 border border-slate-200 rounded-lg font-serif text-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none disabled:bg-slate-50"
+      />
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-rose-600">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+          <button onClick={handleCheck} className="flex items-center gap-1 font-medium hover:text-rose-800">
+            <RotateCcw className="w-3 h-3" />
+            Retry
+          </button>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onReveal}
+          disabled={isGrading}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-500 hover:text-slate-800 font-medium transition-colors disabled:opacity-50"
+        >
+          <Eye className="w-4 h-4" />
+          Show answer
+        </button>
+        <button
+          onClick={handleCheck}
+          disabled={!answer.trim() || isGrading}
+          className="flex items-center gap-2 px-4 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium transition-colors disabled:bg-slate-300"
+        >
+          {isGrading ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
+          {isGrading ? 'Checking...' : 'Check'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PracticeAttempt;
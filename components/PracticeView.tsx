@@ -1,8 +1,9 @@
 
-import React, { useState } from 'react';
-import { GeneratedPractice } from '../types';
-import { RefreshCw, Check, Volume2, X, ArrowRight, Loader2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { AnswerGrade, FlashcardResult, GeneratedPractice, VocabularyItem } from '../types';
+import { Check, Volume2, X, ArrowRight, Loader2, PenLine } from 'lucide-react';
 import { generateSpeech } from '../services/geminiService';
+import PracticeAttempt, { PASSING_SCORE } from './PracticeAttempt';
 
 interface Props {
   data: GeneratedPractice;
@@ -10,10 +11,36 @@ interface Props {
   onNextBatch?: () => void;
   isNextAvailable?: boolean;
   isLoadingNext?: boolean;
+  // The terms this batch was generated from, to tell which one a sentence practices
+  vocabulary?: VocabularyItem[];
+  onAttempt?: (term: string, result: FlashcardResult) => void;
 }
 
-const PracticeView: React.FC<Props> = ({ data, onClose, onNextBatch, isNextAvailable, isLoadingNext }) => {
+const PracticeView: React.FC<Props> = ({ data, onClose, onNextBatch, isNextAvailable, isLoadingNext, vocabulary = [], onAttempt }) => {
   const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const [tryItFirst, setTryItFirst] = useState(true);
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+
+  // A new batch starts hidden again
+  useEffect(() => {
+    setRevealed(new Set());
+  }, [data]);
+
+  // Older replies don't name the term; fall back to the batch term the native version uses
+  const targetTermOf = (sentence: GeneratedPractice['sentences'][number]) =>
+    sentence.term
+    || vocabulary.find(item => sentence.native_version.toLowerCase().includes(item.term.toLowerCase()))?.term
+    || '';
+
+  const reveal = (index: number, result: FlashcardResult) => {
+    if (revealed.has(index)) return;
+    setRevealed(prev => new Set(prev).add(index));
+    const term = targetTermOf(data.sentences[index]);
+    if (term) onAttempt?.(term, result);
+  };
+
+  const handleGraded = (index: number, grade: AnswerGrade) =>
+    reveal(index, grade.score >= PASSING_SCORE && grade.used_target ? 'correct' : 'incorrect');
 
   const handlePlayAudio = async (text: string, index: number) => {
     if (playingIndex !== null) return;
@@ -33,14 +60,26 @@ const PracticeView: React.FC<Props> = ({ data, onClose, onNextBatch, isNextAvail
         <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-white z-10 flex-shrink-0">
           <div>
             <h2 className="text-2xl font-serif font-bold text-slate-800">Practice Scenario</h2>
-            <p className="text-sm text-slate-500">Compare and speak aloud</p>
+            <p className="text-sm text-slate-500">{tryItFirst ? 'Write your own version, then compare' : 'Compare and speak aloud'}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setTryItFirst(prev => !prev)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                tryItFirst ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+              }`}
+              title="Write each sentence yourself before seeing the native version"
+            >
+              <PenLine className="w-4 h-4" />
+              Try it first
+            </button>
+            <button 
+              onClick={onClose}
+              className="text-slate-400 hover:text-slate-600 p-2 rounded-full hover:bg-slate-100 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
           </div>
-          <button 
-            onClick={onClose}
-            className="text-slate-400 hover:text-slate-600 p-2 rounded-full hover:bg-slate-100 transition-colors"
-          >
-            <X className="w-6 h-6" />
-          </button>
         </div>
 
         <div className="flex-1 overflow-y-auto p-8 space-y-8 bg-slate-50/50 scrollbar-thin">
@@ -58,8 +97,10 @@ const PracticeView: React.FC<Props> = ({ data, onClose, onNextBatch, isNextAvail
               </div>
 
               <div className="space-y-8">
-                {data.sentences.map((item, idx) => (
-                  <div key={idx} className="group relative bg-white p-6 rounded-xl shadow-sm border border-slate-100 hover:shadow-md transition-all">
+                {data.sentences.map((item, idx) => {
+                  const isHidden = tryItFirst && !revealed.has(idx);
+                  return (
+                  <div key={`${data.scenario}:${idx}`} className="group relative bg-white p-6 rounded-xl shadow-sm border border-slate-100 hover:shadow-md transition-all">
                     <div className="absolute left-0 top-6 bottom-6 w-1 bg-slate-200 group-hover:bg-indigo-500 transition-colors rounded-r-full"></div>
                     
                     <div className="grid md:grid-cols-2 gap-8 mb-4">
@@ -71,7 +112,18 @@ const PracticeView: React.FC<Props> = ({ data, onClose, onNextBatch, isNextAvail
                         </p>
                       </div>
                       
-                      {/* Native Version */}
+                      {/* Native Version, after the learner's own attempt */}
+                      <div className="space-y-4">
+                      {tryItFirst && (
+                        <PracticeAttempt
+                          sentence={item}
+                          targetTerm={targetTermOf(item)}
+                          isRevealed={revealed.has(idx)}
+                          onGraded={grade => handleGraded(idx, grade)}
+                          onReveal={() => reveal(idx, 'skipped')}
+                        />
+                      )}
+                      {!isHidden && (
                       <div className="space-y-2">
                         <div className="flex justify-between items-center">
                           <p className="text-xs text-emerald-600 font-bold uppercase tracking-wider flex items-center gap-1">
@@ -94,16 +146,21 @@ const PracticeView: React.FC<Props> = ({ data, onClose, onNextBatch, isNextAvail
                           "{item.native_version}"
                         </p>
                       </div>
+                      )}
+                      </div>
                     </div>
 
+                    {!isHidden && (
                     <div className="mt-4 pt-4 border-t border-slate-50">
                       <p className="text-sm text-slate-600 italic leading-relaxed flex gap-2">
                         <span className="font-semibold text-indigo-600 not-italic flex-shrink-0">Why it's better:</span> 
                         {item.explanation}
                       </p>
                     </div>
+                    )}
                   </div>
-                ))}
+                  );
+                })}
               </div>
             </>
           )}
@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { ExerciseType, FlashcardResult, ReviewGrade, SavedAnalysis, SavedVocabularyItem, VocabularyItem } from '../types';
+import { buildReviewQueue, formatInterval, normalizeTerm, scheduleReview, ReviewCard } from '../services/srsService';
+import { generateSpeech } from '../services/geminiService';
+import { Volume2, RotateCw, CalendarCheck, Sparkles, GraduationCap } from 'lucide-react';
+import FlashcardSession from './FlashcardSession';
+
+interface Props {
+  savedVocabulary: SavedVocabularyItem[];
+  savedAnalyses: SavedAnalysis[];
+  onRecordReview: (item: VocabularyItem, grade: ReviewGrade) => void;
+  onFlashcardResult?: (item: VocabularyItem, result: FlashcardResult, analysisId: string | null, exerciseType: ExerciseType) => void;
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100' },
+  { grade: 'hard', label: 'Hard', className: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100' },
+  { grade: 'good', label: 'Good', className: 'bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-100' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100' },
+];
+
+const ReviewView: React.FC<Props> = ({ savedVocabulary, savedAnalyses, onRecordReview, onFlashcardResult }) => {
+  // Snapshot the queue when the session starts so grading doesn't reshuffle it
+  const [queue, setQueue] = useState<ReviewCard[]>(() => buildReviewQueue(savedVocabulary));
+  const [index, setIndex] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  // Snapshot of the due cards an exercise session runs over
+  const [exerciseCards, setExerciseCards] = useState<ReviewCard[] | null>(null);
+
+  // Cloud data may arrive after mount; rebuild only if the session hasn't started
+  useEffect(() => {
+    if (reviewedCount === 0) {
+      setQueue(buildReviewQueue(savedVocabulary));
+      setIndex(0);
+    }
+  }, [savedVocabulary.length]);
+
+  const currentCard = queue[index];
+
+  const handlePlayAudio = async (text: string) => {
+    if (isPlaying) return;
+    setIsPlaying(true);
+    try {
+      await generateSpeech(text);
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!currentCard) return;
+    onRecordReview(currentCard.item, grade);
+
+    // Forgotten cards go to the back of this session's queue
+    if (grade === 'again') {
+      setQueue(prev => [...prev, currentCard]);
+    }
+
+    setReviewedCount(prev => prev + 1);
+    setIndex(prev => prev + 1);
+    setIsRevealed(false);
+  };
+
+  const restartSession = () => {
+    setQueue(buildReviewQueue(savedVocabulary));
+    setIndex(0);
+    setReviewedCount(0);
+    setIsRevealed(false);
+  };
+
+  if (!currentCard) {
+    return (
+      <div className="text-center py-20 animate-fade-in">
+        <CalendarCheck className="w-16 h-16 text-emerald-200 mx-auto mb-4" />
+        <h3 className="text-xl font-serif text-slate-600">
+          {reviewedCount > 0 ? `Session complete: ${reviewedCount} cards reviewed.` : 'Nothing due today.'}
+        </h3>
+        <p className="text-slate-400 mb-6">
+          {savedVocabulary.length === 0
+            ? 'Star terms in an analysis to add them to your review deck.'
+            : 'Come back later, or check for newly due cards.'}
+        </p>
+        <button
+          onClick={restartSession}
+          className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-sm font-medium hover:bg-slate-50 transition-colors shadow-sm"
+        >
+          Check again
+        </button>
+      </div>
+    );
+  }
+
+  // Exercises over the cards still due; each answer reschedules its card, so
+  // the queue is rebuilt afterwards
+  const openExercises = () => {
+    setExerciseCards(queue.slice(index).filter((card, i, cards) => cards.indexOf(card) === i));
+  };
+
+  const closeExercises = () => {
+    setExerciseCards(null);
+    restartSession();
+  };
+
+  const { item } = currentCard;
+  // Look up the live record: re-queued cards were graded since the snapshot
+  const savedItem = savedVocabulary.find(v => normalizeTerm(v.term) === normalizeTerm(item.term));
+  const example = item.examples && item.examples.length > 0 ? item.examples[0].sentence : null;
+  const sourceAnalysis = currentCard.analysisId
+    ? savedAnalyses.find(a => a.id === currentCard.analysisId)
+    : undefined;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-serif font-bold text-slate-900">Due Today</h2>
+        <div className="flex items-center gap-4">
+          <div className="text-sm text-slate-500">
+            {queue.length - index} remaining · {reviewedCount} reviewed
+          </div>
+          <button
+            onClick={openExercises}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-sm font-medium hover:bg-slate-50 transition-colors shadow-sm"
+          >
+            <GraduationCap className="w-4 h-4" />
+            Practice as exercises
+          </button>
+        </div>
+      </div>
+
+      {exerciseCards && (
+        <FlashcardSession
+          items={exerciseCards.map(card => ({ ...card.item, analysisId: card.analysisId }))}
+          title="Due Today"
+          onResult={(answered, result, exerciseType, analysisId) => onFlashcardResult?.(answered, result, analysisId, exerciseType)}
+          onClose={closeExercises}
+        />
+      )}
+
+      <div className="bg-white rounded-2xl shadow-lg border border-slate-200 p-8 min-h-[400px] flex flex-col">
+        <div className="flex justify-between items-center mb-6">
+          <span className="px-3 py-1 text-xs font-bold uppercase tracking-wider bg-indigo-100 text-indigo-700 rounded-full">
+            {item.category.replace(/_/g, ' ')}
+          </span>
+          {!savedItem && (
+            <span className="flex items-center gap-1 text-xs font-bold text-amber-600 uppercase tracking-wider">
+              <Sparkles className="w-3 h-3" /> New
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center justify-center gap-3 mb-2">
+          <h3 className="text-4xl font-serif font-bold text-slate-900 text-center">{item.term}</h3>
+          <button
+            onClick={() => handlePlayAudio(item.term)}
+            className={`p-2 rounded-full hover:bg-slate-100 transition-colors ${isPlaying ? 'text-emerald-500 animate-pulse' : 'text-slate-400'}`}
+          >
+            <Volume2 className="w-5 h-5" />
+          </button>
+        </div>
+        {sourceAnalysis && (
+          <p className="text-center text-xs text-slate-400 mb-6">
+            From: {sourceAnalysis.fileName || sourceAnalysis.analysisResult.summary.substring(0, 40) + '...'}
+          </p>
+        )}
+
+        <div className="flex-1 flex flex-col justify-end">
+          {!isRevealed ? (
+            <button
+              onClick={() => setIsRevealed(true)}
+              className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold hover:bg-slate-800 transition-colors flex items-center justify-center gap-2"
+            >
+              <RotateCw className="w-5 h-5" /> Show Answer
+            </button>
+          ) : (
+            <div className="space-y-5 animate-fade-in">
+              <p className="text-slate-700 text-lg leading-relaxed text-center">{item.definition}</p>
+
+              {item.imagery_etymology && (
+                <div className="bg-amber-50 p-4 rounded-lg border border-amber-100">
+                  <p className="text-xs font-bold text-amber-600 uppercase mb-1">Mental Image / Origin</p>
+                  <p className="text-slate-800 text-sm">{item.imagery_etymology}</p>
+                </div>
+              )}
+
+              {example && (
+                <p className="text-slate-500 italic text-center border-t border-slate-100 pt-4">"{example}"</p>
+              )}
+
+              <div className="grid grid-cols-4 gap-2 pt-2">
+                {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                  <button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    className={`flex flex-col items-center py-3 rounded-xl border font-bold text-sm transition-colors ${className}`}
+                  >
+                    {label}
+                    <span className="text-[10px] font-medium opacity-70">
+                      {formatInterval(scheduleReview(savedItem?.review, grade))}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {savedItem?.review && savedItem.review.lapses > 0 && (
+        <p className="text-center text-xs text-slate-400 flex items-center justify-center gap-1">
+          <RotateCw className="w-3 h-3" />
+          Forgotten {savedItem.review.lapses} {savedItem.review.lapses === 1 ? 'time' : 'times'} so far
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReviewView;
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { X, Settings, Save, Loader2, CheckCircle2, AlertCircle, PlugZap } from 'lucide-react';
+import { createProvider, PROVIDERS, providerSettings, ProviderSettings } from '../services/providers';
+import { ApiError } from '../services/apiErrors';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type TestStatus = { state: 'idle' } | { state: 'testing' } | { state: 'ok' } | { state: 'failed'; message: string };
+
+// A connection test is one short lookup; don't leave the user waiting on it
+const TEST_TIMEOUT_MS = 20_000;
+
+const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const SettingsModal: React.FC<Props> = ({ isOpen, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(() => providerSettings.load());
+  const [testStatus, setTestStatus] = useState<TestStatus>({ state: 'idle' });
+
+  // Start from what's saved every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(providerSettings.load());
+      setTestStatus({ state: 'idle' });
+    }
+  }, [isOpen]);
+
+  const update = (next: ProviderSettings) => {
+    setDraft(next);
+    setTestStatus({ state: 'idle' });
+  };
+
+  const handleTest = async () => {
+    setTestStatus({ state: 'testing' });
+    try {
+      await createProvider(draft).lookupWord('nuance', 'Native speakers pick up on every nuance.', AbortSignal.timeout(TEST_TIMEOUT_MS));
+      setTestStatus({ state: 'ok' });
+    } catch (e) {
+      const message = e instanceof ApiError ? e.message
+        : e instanceof DOMException && e.name === 'TimeoutError' ? 'No answer within 20 seconds.'
+        : 'Could not reach the provider.';
+      setTestStatus({ state: 'failed', message });
+    }
+  };
+
+  const handleSave = () => {
+    providerSettings.save(draft);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-indigo-50 text-indigo-600">
+              <Settings className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-xl font-serif font-bold text-slate-800">Settings</h2>
+              <p className="text-sm text-slate-500">Choose which AI model answers your requests</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 p-2 rounded-full hover:bg-slate-100 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto">
+          {PROVIDERS.map(option => (
+            <div
+              key={option.id}
+              className={`rounded-xl border-2 transition-all ${draft.provider === option.id ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-slate-300'}`}
+            >
+              <button
+                onClick={() => update({ ...draft, provider: option.id })}
+                className="w-full text-left p-4"
+              >
+                <p className="font-bold text-slate-800">{option.label}</p>
+                <p className="text-sm text-slate-500">{option.description}</p>
+              </button>
+
+              {draft.provider === 'gemini' && option.id === 'gemini' && (
+                <div className="px-4 pb-4 space-y-2">
+                  <input
+                    type="password"
+                    value={draft.gemini.apiKey}
+                    onChange={(e) => update({ ...draft, gemini: { ...draft.gemini, apiKey: e.target.value } })}
+                    placeholder="Gemini API key"
+                    className={inputClass}
+                  />
+                  <input
+                    value={draft.gemini.model}
+                    onChange={(e) => update({ ...draft, gemini: { ...draft.gemini, model: e.target.value } })}
+                    placeholder="Model, e.g. gemini-2.5-flash"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {draft.provider === 'openai' && option.id === 'openai' && (
+                <div className="px-4 pb-4 space-y-2">
+                  <input
+                    value={draft.openai.baseUrl}
+                    onChange={(e) => update({ ...draft, openai: { ...draft.openai, baseUrl: e.target.value } })}
+                    placeholder="Base URL, e.g. http://localhost:11434/v1"
+                    className={inputClass}
+                  />
+                  <input
+                    value={draft.openai.model}
+                    onChange={(e) => update({ ...draft, openai: { ...draft.openai, model: e.target.value } })}
+                    placeholder="Model, e.g. llama3.1"
+                    className={inputClass}
+                  />
+                  <input
+                    type="password"
+                    value={draft.openai.apiKey}
+                    onChange={(e) => update({ ...draft, openai: { ...draft.openai, apiKey: e.target.value } })}
+                    placeholder="API key (optional for local servers)"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+          <p className="text-xs text-slate-400">
+            API keys are stored in this browser only and sent straight to the provider you choose.
+          </p>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <button
+              onClick={handleTest}
+              disabled={testStatus.state === 'testing'}
+              className="flex items-center gap-2 px-3 py-2 text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {testStatus.state === 'testing' ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+              Test
+            </button>
+            {testStatus.state === 'ok' && (
+              <span className="flex items-center gap-1 text-sm text-emerald-600">
+                <CheckCircle2 className="w-4 h-4" /> Connected
+              </span>
+            )}
+            {testStatus.state === 'failed' && (
+              <span className="flex items-center gap-1 text-sm text-red-600 min-w-0" title={testStatus.message}>
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">{testStatus.message}</span>
+              </span>
+            )}
+          </div>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-6 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium transition-all shadow-lg"
+          >
+            <Save className="w-4 h-4" />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -1,9 +1,13 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { SavedAnalysis } from '../types';
-import { Plus, MessageSquare, Trash2, ChevronLeft, Sparkles, LogOut, LogIn, Download, Cloud, CloudOff, History, FolderOpen } from 'lucide-react';
+import { Plus, MessageSquare, Trash2, ChevronLeft, Sparkles, LogOut, LogIn, Download, Cloud, CloudOff, History, FolderOpen, CalendarCheck, Star, Upload, RefreshCw, AlertTriangle, X, Settings } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import AuthModal from './AuthModal';
 import CalendarHeatmap from './CalendarHeatmap';
+import UsageMeter from './UsageMeter';
+import SettingsModal from './SettingsModal';
+import { describeOperation, SyncStatus } from '../services/syncQueue';
+import { UsageSummary } from '../services/usageService';
 
 interface Props {
     savedAnalyses: SavedAnalysis[];
@@ -13,15 +17,33 @@ interface Props {
     isOpen: boolean;
     toggleSidebar: () => void;
     onExportData?: () => void;
+    onImportData?: (file: File) => void;
     onOpenHistory?: () => void;
     isHistoryActive?: boolean;
+    onOpenReview?: () => void;
+    isReviewActive?: boolean;
+    dueCount?: number;
+    onOpenWordBank?: () => void;
+    isWordBankActive?: boolean;
+    wordBankCount?: number;
+    syncStatus?: SyncStatus;
+    onRetrySync?: () => void;
+    onDiscardSync?: (id: string) => void;
+    usage?: UsageSummary;
 }
 
-const Sidebar: React.FC<Props> = ({ savedAnalyses, onLoadAnalysis, onNewAnalysis, onRemoveAnalysis, isOpen, toggleSidebar, onExportData, onOpenHistory, isHistoryActive }) => {
+const Sidebar: React.FC<Props> = ({ savedAnalyses, onLoadAnalysis, onNewAnalysis, onRemoveAnalysis, isOpen, toggleSidebar, onExportData, onImportData, onOpenHistory, isHistoryActive, onOpenReview, isReviewActive, dueCount = 0, onOpenWordBank, isWordBankActive, wordBankCount = 0, syncStatus, onRetrySync, onDiscardSync, usage }) => {
     const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
     const [isHeatmapOpen, setIsHeatmapOpen] = useState(false);
+    const [isSyncDetailsOpen, setIsSyncDetailsOpen] = useState(false);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
     const { user, isAuthenticated, signOut, isLoading } = useAuth();
 
+    const unsynced = (syncStatus?.entries || []).filter(entry => entry.userId === user?.id);
+    const failedCount = unsynced.filter(entry => entry.status === 'failed').length;
+    const pendingCount = unsynced.length - failedCount;
+
     const handleSignOut = async () => {
         await signOut();
     };
@@ -85,26 +107,114 @@ const Sidebar: React.FC<Props> = ({ savedAnalyses, onLoadAnalysis, onNewAnalysis
                                 History
                             </button>
                         )}
+
+                        {onOpenReview && (
+                            <button
+                                onClick={onOpenReview}
+                                className={`w-full flex items-center gap-2 px-3 py-3 rounded-lg transition-all font-medium text-sm ${
+                                    isReviewActive
+                                        ? 'bg-indigo-600 text-white shadow-lg'
+                                        : 'bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white'
+                                }`}
+                            >
+                                <CalendarCheck className="w-4 h-4" />
+                                <span className="flex-1 text-left">Review</span>
+                                {dueCount > 0 && (
+                                    <span className="px-2 py-0.5 rounded-full bg-emerald-500 text-white text-xs font-bold">
+                                        {dueCount}
+                                    </span>
+                                )}
+                            </button>
+                        )}
+
+                        {onOpenWordBank && (
+                            <button
+                                onClick={onOpenWordBank}
+                                className={`w-full flex items-center gap-2 px-3 py-3 rounded-lg transition-all font-medium text-sm ${
+                                    isWordBankActive
+                                        ? 'bg-indigo-600 text-white shadow-lg'
+                                        : 'bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white'
+                                }`}
+                            >
+                                <Star className="w-4 h-4" />
+                                <span className="flex-1 text-left">Word Bank</span>
+                                {wordBankCount > 0 && (
+                                    <span className="text-xs text-slate-400">{wordBankCount}</span>
+                                )}
+                            </button>
+                        )}
                     </div>
                 </div>
 
                 {/* Sync Status Indicator */}
                 <div className="px-4 pb-2">
-                    <div className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs ${isAuthenticated ? 'bg-emerald-900/30 text-emerald-400' : 'bg-slate-800 text-slate-500'}`}>
-                        {isAuthenticated ? (
-                            <>
-                                <Cloud className="w-3.5 h-3.5" />
-                                <span>Synced to cloud</span>
-                            </>
-                        ) : (
-                            <>
-                                <CloudOff className="w-3.5 h-3.5" />
-                                <span>Local only</span>
-                            </>
-                        )}
-                    </div>
+                    {!isAuthenticated ? (
+                        <div className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs bg-slate-800 text-slate-500">
+                            <CloudOff className="w-3.5 h-3.5" />
+                            <span>Local only</span>
+                        </div>
+                    ) : unsynced.length === 0 ? (
+                        <div className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs bg-emerald-900/30 text-emerald-400">
+                            <Cloud className="w-3.5 h-3.5" />
+                            <span>Synced to cloud</span>
+                        </div>
+                    ) : (
+                        <div className={`rounded-lg text-xs ${failedCount > 0 ? 'bg-red-900/30 text-red-300' : 'bg-amber-900/30 text-amber-300'}`}>
+                            <div className="flex items-center gap-2 px-3 py-2">
+                                {syncStatus?.isSyncing ? (
+                                    <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+                                ) : failedCount > 0 ? (
+                                    <AlertTriangle className="w-3.5 h-3.5" />
+                                ) : (
+                                    <CloudOff className="w-3.5 h-3.5" />
+                                )}
+                                <button
+                                    onClick={() => setIsSyncDetailsOpen(!isSyncDetailsOpen)}
+                                    className="flex-1 text-left hover:underline"
+                                >
+                                    {failedCount > 0
+                                        ? `${failedCount} change${failedCount === 1 ? '' : 's'} failed to sync`
+                                        : `${pendingCount} change${pendingCount === 1 ? '' : 's'} not synced yet`}
+                                </button>
+                                {onRetrySync && !syncStatus?.isSyncing && (
+                                    <button onClick={onRetrySync} className="font-bold hover:text-white">
+                                        Retry
+                                    </button>
+                                )}
+                            </div>
+                            {isSyncDetailsOpen && (
+                                <div className="border-t border-white/10 px-3 py-2 space-y-1.5 max-h-40 overflow-y-auto">
+                                    {unsynced.map(entry => (
+                                        <div key={entry.id} className="flex items-start gap-2 group/sync">
+                                            <span className={`mt-1 w-1.5 h-1.5 rounded-full flex-shrink-0 ${entry.status === 'failed' ? 'bg-red-400' : 'bg-amber-400'}`} />
+                                            <div className="flex-1 min-w-0">
+                                                <p className="truncate text-slate-200">{describeOperation(entry.operation)}</p>
+                                                {entry.lastError && <p className="truncate text-slate-500">{entry.lastError}</p>}
+                                            </div>
+                                            {onDiscardSync && entry.status === 'failed' && (
+                                                <button
+                                                    onClick={() => onDiscardSync(entry.id)}
+                                                    className="text-slate-500 hover:text-red-400"
+                                                    title="Discard this change"
+                                                >
+                                                    <X className="w-3 h-3" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </div>
 
+                {/* AI Usage */}
+                {usage && (
+                    <div className="px-4 pb-2">
+                        <UsageMeter usage={usage} />
+                    </div>
+                )}
+
                 {/* History List */}
                 <div className="flex-1 overflow-y-auto px-2 pb-4 space-y-2 scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-transparent">
                     <div className="px-4 py-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
@@ -138,9 +248,9 @@ const Sidebar: React.FC<Props> = ({ savedAnalyses, onLoadAnalysis, onNewAnalysis
                     )}
                 </div>
 
-                {/* Export Button */}
-                {onExportData && savedAnalyses.length > 0 && (
-                    <div className="px-4 pb-2">
+                {/* Export / Import Buttons */}
+                <div className="px-4 pb-2 space-y-2">
+                    {onExportData && (savedAnalyses.length > 0 || wordBankCount > 0) && (
                         <button
                             onClick={onExportData}
                             className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 hover:text-white transition-all text-sm"
@@ -148,8 +258,37 @@ const Sidebar: React.FC<Props> = ({ savedAnalyses, onLoadAnalysis, onNewAnalysis
                             <Download className="w-4 h-4" />
                             Export as JSON
                         </button>
-                    </div>
-                )}
+                    )}
+                    {onImportData && (
+                        <>
+                            <input
+                                type="file"
+                                ref={importInputRef}
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) onImportData(file);
+                                    e.target.value = ''; // Reset
+                                }}
+                            />
+                            <button
+                                onClick={() => importInputRef.current?.click()}
+                                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-slate-400 rounded-lg hover:bg-slate-800 hover:text-white transition-all text-sm"
+                            >
+                                <Upload className="w-4 h-4" />
+                                Import JSON
+                            </button>
+                        </>
+                    )}
+                    <button
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 text-slate-400 rounded-lg hover:bg-slate-800 hover:text-white transition-all text-sm"
+                    >
+                        <Settings className="w-4 h-4" />
+                        AI Settings
+                    </button>
+                </div>
 
                 {/* Footer - User Section */}
                 <div className="p-4 border-t border-slate-800">
@@ -201,6 +340,12 @@ const Sidebar: React.FC<Props> = ({ savedAnalyses, onLoadAnalysis, onNewAnalysis
                 onClose={() => setIsAuthModalOpen(false)} 
             />
 
+            {/* AI Provider Settings */}
+            <SettingsModal
+                isOpen={isSettingsOpen}
+                onClose={() => setIsSettingsOpen(false)}
+            />
+
             {/* Calendar Heatmap Modal */}
             {user && (
                 <CalendarHeatmap
@@ -0,0 +1,91 @@
+import React from 'react';
+import { X, GitMerge } from 'lucide-react';
+import { MergeConflict } from '../services/mergeService';
+
+interface Props {
+  conflicts: MergeConflict[];
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  date: 'Date',
+  sourceType: 'Source type',
+  inputText: 'Original text',
+  analysisResult: 'Analysis',
+  fileName: 'Title',
+  folderId: 'Folder',
+  name: 'Name',
+  color: 'Color',
+};
+
+const SyncConflictReport: React.FC<Props> = ({ conflicts, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-amber-50 text-amber-600">
+              <GitMerge className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-xl font-serif font-bold text-slate-800">Sync Conflicts</h2>
+              <p className="text-sm text-slate-500">
+                {conflicts.length} {conflicts.length === 1 ? 'field was' : 'fields were'} edited on this device and elsewhere. The newer edit was kept.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 p-2 rounded-full hover:bg-slate-100 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {conflicts.map(conflict => (
+            <div key={`${conflict.id}-${conflict.field}`} className="p-4 rounded-xl border border-slate-200">
+              <div className="flex justify-between items-baseline gap-4 mb-2">
+                <p className="font-bold text-slate-800 truncate">{conflict.label}</p>
+                <span className="text-xs font-bold uppercase tracking-wider text-slate-400 shrink-0">
+                  {conflict.collection === 'folders' ? 'Folder' : 'Analysis'} · {FIELD_LABELS[conflict.field] || conflict.field}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                {(['local', 'cloud'] as const).map(side => (
+                  <div
+                    key={side}
+                    className={`p-3 rounded-lg ${conflict.kept === side ? 'bg-emerald-50 border border-emerald-200' : 'bg-slate-50 border border-slate-100 text-slate-400'}`}
+                  >
+                    <p className="text-xs font-bold uppercase tracking-wider mb-1">
+                      {side === 'local' ? 'This device' : 'Cloud'}{conflict.kept === side && ' · kept'}
+                    </p>
+                    <p className="break-words">{side === 'local' ? conflict.localValue : conflict.cloudValue}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium transition-all shadow-lg"
+          >
+            Got it
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictReport;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Gauge, ChevronDown, ChevronUp } from 'lucide-react';
+import { USAGE_KINDS, UsageKind, UsageSummary } from '../services/usageService';
+
+interface Props {
+    usage: UsageSummary;
+}
+
+const KIND_LABELS: Record<UsageKind, string> = {
+    analysis: 'Analyses',
+    lookup: 'Word lookups',
+    practice: 'Practice batches',
+    grading: 'Graded answers',
+};
+
+// Share of the tighter of the two limits, so the bar fills before either runs out
+const usedShare = ({ today, thisMonth, dailyLimit, monthlyLimit }: UsageSummary['counts'][UsageKind]) =>
+    Math.min(1, Math.max(today / dailyLimit, thisMonth / monthlyLimit));
+
+const UsageMeter: React.FC<Props> = ({ usage }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const analysis = usage.counts.analysis;
+    const isNearLimit = USAGE_KINDS.some(kind => usedShare(usage.counts[kind]) >= 0.8);
+
+    return (
+        <div className={`rounded-lg text-xs ${isNearLimit ? 'bg-amber-900/30 text-amber-300' : 'bg-slate-800 text-slate-400'}`}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center gap-2 px-3 py-2 hover:text-white transition-colors"
+            >
+                <Gauge className="w-3.5 h-3.5" />
+                <span className="flex-1 text-left">
+                    {analysis.today} of {analysis.dailyLimit} analyses today
+                </span>
+                {isOpen ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+            </button>
+            {isOpen && (
+                <div className="border-t border-white/10 px-3 py-2 space-y-2.5">
+                    {USAGE_KINDS.map(kind => {
+                        const count = usage.counts[kind];
+                        const share = usedShare(count);
+                        return (
+                            <div key={kind}>
+                                <div className="flex justify-between text-slate-300">
+                                    <span>{KIND_LABELS[kind]}</span>
+                                    <span>{count.today}/{count.dailyLimit} today</span>
+                                </div>
+                                <div className="h-1 mt-1 rounded-full bg-slate-700 overflow-hidden">
+                                    <div
+                                        className={`h-full rounded-full ${share >= 1 ? 'bg-red-400' : share >= 0.8 ? 'bg-amber-400' : 'bg-emerald-400'}`}
+                                        style={{ width: `${share * 100}%` }}
+                                    />
+                                </div>
+                                <p className="mt-0.5 text-slate-500">{count.thisMonth}/{count.monthlyLimit} this month</p>
+                            </div>
+                        );
+                    })}
+                    {usage.isAnonymous && (
+                        <p className="text-slate-500">Signed-out use has a small free allowance. Sign in for more.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UsageMeter;
@@ -0,0 +1,223 @@
+import React, { useState, useMemo } from 'react';
+import { ExerciseType, FlashcardResult, SavedAnalysis, SavedVocabularyItem, VocabularyCategory, VocabularyItem } from '../types';
+import { CATEGORY_CONFIG } from './AnalysisView';
+import { generateSpeech } from '../services/geminiService';
+import { formatInterval, isDue } from '../services/srsService';
+import { formatTimestamp } from '../services/subtitleService';
+import { entriesFromVocabulary } from '../services/ankiService';
+import AnkiExportDialog from './AnkiExportDialog';
+import FlashcardSession from './FlashcardSession';
+import { Search, Star, Volume2, Trash2, ArrowRight, Calendar, Quote, Layers, GraduationCap } from 'lucide-react';
+
+interface Props {
+  savedVocabulary: SavedVocabularyItem[];
+  savedAnalyses: SavedAnalysis[];
+  onRemoveItem: (id: string) => void;
+  onLoadAnalysis: (analysis: SavedAnalysis) => void;
+  onFlashcardResult?: (item: VocabularyItem, result: FlashcardResult, analysisId: string | null, exerciseType: ExerciseType) => void;
+}
+
+const WordBankView: React.FC<Props> = ({ savedVocabulary, savedAnalyses, onRemoveItem, onLoadAnalysis, onFlashcardResult }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<VocabularyCategory | 'all'>('all');
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [isAnkiExportOpen, setIsAnkiExportOpen] = useState(false);
+  // Practice covers the terms currently shown, filters included
+  const [practiceItems, setPracticeItems] = useState<SavedVocabularyItem[] | null>(null);
+
+  const filteredItems = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return savedVocabulary.filter(item => {
+      if (categoryFilter !== 'all' && item.category !== categoryFilter) return false;
+      if (!query) return true;
+      return (
+        item.term.toLowerCase().includes(query) ||
+        item.definition.toLowerCase().includes(query) ||
+        (item.source_context || '').toLowerCase().includes(query)
+      );
+    });
+  }, [savedVocabulary, searchQuery, categoryFilter]);
+
+  const categoryCounts = useMemo(() => {
+    const counts: Partial<Record<VocabularyCategory, number>> = {};
+    savedVocabulary.forEach(item => {
+      counts[item.category] = (counts[item.category] || 0) + 1;
+    });
+    return counts;
+  }, [savedVocabulary]);
+
+  const handlePlayAudio = async (text: string, id: string) => {
+    if (playingId) return;
+    setPlayingId(id);
+    try {
+      await generateSpeech(text);
+    } finally {
+      setPlayingId(null);
+    }
+  };
+
+  if (savedVocabulary.length === 0) {
+    return (
+      <div className="text-center py-20">
+        <Star className="w-16 h-16 text-slate-200 mx-auto mb-4" />
+        <h3 className="text-xl font-serif text-slate-600">Your word bank is empty.</h3>
+        <p className="text-slate-400">Star terms in an analysis to collect them here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-serif font-bold text-slate-900">Word Bank</h2>
+        <div className="flex items-center gap-4">
+          <div className="text-sm text-slate-500">{savedVocabulary.length} terms</div>
+          <button
+            onClick={() => setIsAnkiExportOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-sm font-medium hover:bg-slate-50 transition-colors shadow-sm"
+          >
+            <Layers className="w-4 h-4" />
+            Export to Anki
+          </button>
+          <button
+            onClick={() => setPracticeItems(filteredItems)}
+            disabled={filteredItems.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm disabled:bg-slate-300"
+          >
+            <GraduationCap className="w-4 h-4" />
+            Practice
+          </button>
+        </div>
+      </div>
+
+      {/* Search & Filters */}
+      <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm space-y-3">
+        <div className="relative">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search terms, definitions or context..."
+            className="w-full pl-9 pr-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          <button
+            onClick={() => setCategoryFilter('all')}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${categoryFilter === 'all' ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            All ({savedVocabulary.length})
+          </button>
+          {(Object.keys(CATEGORY_CONFIG) as VocabularyCategory[]).map(cat => {
+            const count = categoryCounts[cat] || 0;
+            if (count === 0) return null;
+            return (
+              <button
+                key={cat}
+                onClick={() => setCategoryFilter(cat)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${categoryFilter === cat ? CATEGORY_CONFIG[cat].color : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+              >
+                {CATEGORY_CONFIG[cat].label} ({count})
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Entries */}
+      {filteredItems.length === 0 ? (
+        <div className="text-center py-12 text-slate-400 italic">No terms match your search.</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {filteredItems.map(item => {
+            const sourceAnalysis = item.analysisId
+              ? savedAnalyses.find(a => a.id === item.analysisId)
+              : undefined;
+            const config = CATEGORY_CONFIG[item.category] ?? CATEGORY_CONFIG.topic_specific;
+
+            return (
+              <div key={item.id} className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm hover:shadow-md transition-all group flex flex-col">
+                <div className="flex justify-between items-start mb-2">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-xl font-serif font-bold text-slate-900">{item.term}</h3>
+                    <button
+                      onClick={() => handlePlayAudio(item.term, item.id)}
+                      className={`p-1.5 rounded-full hover:bg-slate-100 transition-colors ${playingId === item.id ? 'text-emerald-500 animate-pulse' : 'text-slate-400'}`}
+                    >
+                      <Volume2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => onRemoveItem(item.id)}
+                    className="text-slate-300 hover:text-red-500 transition-colors p-1.5 hover:bg-red-50 rounded-full opacity-0 group-hover:opacity-100"
+                    title="Remove from word bank"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <span className={`self-start px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wider mb-3 ${config.color}`}>
+                  {config.label}
+                </span>
+
+                <p className="text-slate-600 text-sm mb-3">{item.definition}</p>
+
+                {item.source_context && (
+                  <p className="text-slate-500 text-xs italic mb-3 flex gap-1">
+                    <Quote className="w-3 h-3 flex-shrink-0 mt-0.5" />
+                    <span>
+                      "{item.source_context}"
+                      {item.source_timestamp !== undefined && (
+                        <span className="not-italic font-mono text-slate-400 ml-1">@ {formatTimestamp(item.source_timestamp)}</span>
+                      )}
+                    </span>
+                  </p>
+                )}
+
+                <div className="mt-auto flex items-center justify-between pt-3 border-t border-slate-100 text-xs text-slate-400">
+                  <span className="flex items-center gap-1">
+                    <Calendar className="w-3 h-3" />
+                    {item.review
+                      ? isDue(item) ? 'Due today' : `Next review in ${formatInterval(item.review)}`
+                      : 'Not reviewed yet'}
+                  </span>
+                  {sourceAnalysis && (
+                    <button
+                      onClick={() => onLoadAnalysis(sourceAnalysis)}
+                      className="flex items-center gap-1 text-indigo-600 hover:text-indigo-700 font-medium max-w-[50%]"
+                      title={sourceAnalysis.fileName || sourceAnalysis.analysisResult.summary}
+                    >
+                      <span className="truncate">{sourceAnalysis.fileName || 'Text Analysis'}</span>
+                      <ArrowRight className="w-3 h-3 flex-shrink-0" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {practiceItems && (
+        <FlashcardSession
+          items={practiceItems}
+          title="Word Bank"
+          onResult={(item, result, exerciseType, analysisId) => onFlashcardResult?.(item, result, analysisId, exerciseType)}
+          onClose={() => setPracticeItems(null)}
+        />
+      )}
+
+      {isAnkiExportOpen && (
+        <AnkiExportDialog
+          deckName="Word Bank"
+          entries={entriesFromVocabulary(savedVocabulary, savedAnalyses)}
+          onClose={() => setIsAnkiExportOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default WordBankView;
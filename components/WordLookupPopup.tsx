@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Volume2, Loader2, BookOpen } from 'lucide-react';
+import { X, Volume2, Loader2, BookOpen, RefreshCw } from 'lucide-react';
 import { lookupWord, generateSpeech } from '../services/geminiService';
+import { ApiError, ValidationError } from '../services/apiErrors';
 
 interface Props {
     word: string;
@@ -14,28 +15,38 @@ const WordLookupPopup: React.FC<Props> = ({ word, context, position, onClose, on
     const [data, setData] = useState<{ definition: string; pronunciation: string } | null>(null);
     const [loading, setLoading] = useState(true);
     const [playing, setPlaying] = useState(false);
+    // Repeated lookups come from the cache; bumping this fetches a fresh definition
+    const [refreshCount, setRefreshCount] = useState(0);
+    const [isCached, setIsCached] = useState(false);
     const popupRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
-        let isMounted = true;
+        // Closing the popup or picking another word cancels the lookup
+        const controller = new AbortController();
         const fetchDefinition = async () => {
+            setLoading(true);
+            setIsCached(false);
             try {
-                const result = await lookupWord(word, context);
-                if (isMounted) {
-                    setData(result);
-                    setLoading(false);
-                }
+                const result = await lookupWord(word, context, {
+                    signal: controller.signal,
+                    forceRefresh: refreshCount > 0,
+                    onCached: () => setIsCached(true),
+                });
+                setData(result);
+                setLoading(false);
             } catch (error) {
-                if (isMounted) {
-                    setData({ definition: "Could not find definition.", pronunciation: "" });
-                    setLoading(false);
-                }
+                if (controller.signal.aborted) return;
+                const message = error instanceof ApiError && !(error instanceof ValidationError)
+                    ? error.message
+                    : "Could not find definition.";
+                setData({ definition: message, pronunciation: "" });
+                setLoading(false);
             }
         };
 
         fetchDefinition();
-        return () => { isMounted = false; };
-    }, [word, context]);
+        return () => controller.abort();
+    }, [word, context, refreshCount]);
 
     const handlePlay = async () => {
         if (playing) return;
@@ -65,6 +76,15 @@ const WordLookupPopup: React.FC<Props> = ({ word, context, position, onClose, on
                     {word}
                 </h4>
                 <div className="flex gap-1">
+                    {isCached && !loading && (
+                        <button
+                            onClick={() => setRefreshCount(count => count + 1)}
+                            className="p-1 rounded-full hover:bg-slate-100 text-slate-400 transition-colors"
+                            title="Saved definition. Click to look it up again"
+                        >
+                            <RefreshCw className="w-4 h-4" />
+                        </button>
+                    )}
                     <button
                         onClick={handlePlay}
                         className={`p-1 rounded-full hover:bg-slate-100 transition-colors ${playing ? 'text-emerald-500 animate-pulse' : 'text-slate-400'}`}
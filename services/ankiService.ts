@@ -0,0 +1,132 @@
+import { SavedAnalysis, SavedVocabularyItem, SourceType, VocabularyItem } from '../types';
+import { containsTerm, maskTerm } from './clozeService';
+import { normalizeTerm } from './srsService';
+
+export type AnkiCardType = 'basic' | 'cloze';
+
+export interface AnkiEntry {
+  item: VocabularyItem;
+  sourceType?: SourceType;
+}
+
+const DECK_ROOT = 'NativeNuance';
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+// Anki tags can't contain spaces; "TV Show Transcript" -> "tv_show_transcript"
+const toTag = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const tagsFor = ({ item, sourceType }: AnkiEntry): string =>
+  [
+    'nativenuance',
+    `category::${toTag(item.category)}`,
+    sourceType ? `source::${toTag(sourceType)}` : null,
+  ].filter(Boolean).join(' ');
+
+// Tab-separated fields can't hold raw tabs or newlines; quote fields containing quotes
+const toField = (html: string): string => {
+  const flat = html.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+  return flat.includes('"') ? `"${flat.replace(/"/g, '""')}"` : flat;
+};
+
+const renderBack = (item: VocabularyItem): string => {
+  const parts = [`<div>${escapeHtml(item.definition)}</div>`];
+  if (item.imagery_etymology) parts.push(`<div><i>Image / origin:</i> ${escapeHtml(item.imagery_etymology)}</div>`);
+  if (item.nuance) parts.push(`<div><i>Nuance:</i> ${escapeHtml(item.nuance)}</div>`);
+
+  const examples = item.examples?.length
+    ? item.examples.map(ex => `<li><b>${escapeHtml(ex.context_label)}:</b> ${escapeHtml(ex.sentence)}</li>`)
+    : item.example_usage ? [`<li>${escapeHtml(item.example_usage)}</li>`] : [];
+  if (examples.length > 0) parts.push(`<ul>${examples.join('')}</ul>`);
+
+  if (item.source_context) parts.push(`<div><i>In the source:</i> "${escapeHtml(item.source_context)}"</div>`);
+  return parts.join('');
+};
+
+// Cloze text: the first sentence that actually uses the term, with the term hidden
+const renderCloze = (item: VocabularyItem): string => {
+  const candidates = [
+    ...(item.examples || []).map(ex => ex.sentence),
+    item.source_context,
+    item.example_usage,
+  ].filter((text): text is string => !!text);
+
+  const sentence = candidates.find(text => containsTerm(text, item.term));
+  if (sentence) {
+    return maskTerm(escapeHtml(sentence), escapeHtml(item.term), match => `{{c1::${match}}}`);
+  }
+  return `{{c1::${escapeHtml(item.term)}}} — ${escapeHtml(item.definition)}`;
+};
+
+/**
+ * Build a tab-separated file Anki can import directly (File → Import).
+ * Header lines tell Anki the separator, note type, deck and tag column.
+ */
+export const buildAnkiDeck = (entries: AnkiEntry[], deckName: string, cardType: AnkiCardType): string => {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    `#notetype:${cardType === 'cloze' ? 'Cloze' : 'Basic'}`,
+    `#deck:${DECK_ROOT}::${deckName.replace(/[\t\n]/g, ' ')}`,
+    '#tags column:3',
+  ];
+
+  const rows = entries.map(entry => {
+    const { item } = entry;
+    const fields = cardType === 'cloze'
+      ? [renderCloze(item), renderBack(item)]
+      : [`<b>${escapeHtml(item.term)}</b>`, renderBack(item)];
+    return [...fields.map(toField), tagsFor(entry)].join('\t');
+  });
+
+  return [...header, ...rows].join('\n') + '\n';
+};
+
+/**
+ * Vocabulary from the given analyses, one entry per term
+ */
+export const entriesFromAnalyses = (analyses: SavedAnalysis[]): AnkiEntry[] => {
+  const seen = new Set<string>();
+  const entries: AnkiEntry[] = [];
+  analyses.forEach(analysis => {
+    analysis.analysisResult.vocabulary.forEach(item => {
+      const key = normalizeTerm(item.term);
+      if (seen.has(key)) return;
+      seen.add(key);
+      entries.push({ item, sourceType: analysis.sourceType });
+    });
+  });
+  return entries;
+};
+
+/**
+ * Word bank items, tagged with the source type of the analysis they came from
+ */
+export const entriesFromVocabulary = (vocabulary: SavedVocabularyItem[], analyses: SavedAnalysis[]): AnkiEntry[] => {
+  const sourceById = new Map(analyses.map(a => [a.id, a.sourceType]));
+  return vocabulary.map(item => ({
+    item,
+    sourceType: item.analysisId ? sourceById.get(item.analysisId) : undefined,
+  }));
+};
+
+/**
+ * Build the deck and trigger a download
+ */
+export const downloadAnkiDeck = (entries: AnkiEntry[], deckName: string, cardType: AnkiCardType): void => {
+  const blob = new Blob([buildAnkiDeck(entries, deckName, cardType)], { type: 'text/tab-separated-values' });
+  const url = URL.createObjectURL(blob);
+
+  const slug = deckName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'deck';
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `nativenuance-anki-${slug}-${cardType}.txt`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
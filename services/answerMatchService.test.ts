@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { diffAnswer, matchAnswer, termVariants } from './answerMatchService';
+
+describe('termVariants', () => {
+  it('expands alternatives, slashes and optional words', () => {
+    expect(termVariants('on the fence, sit on the fence')).toEqual(['on the fence', 'sit on the fence']);
+    expect(termVariants('get/have cold feet')).toEqual(['get cold feet', 'have cold feet']);
+    expect(termVariants('send (something) tumbling')).toEqual(['send something tumbling', 'send tumbling']);
+  });
+});
+
+describe('matchAnswer', () => {
+  it.each([
+    ['getting into a jam', 'get into a jam'],
+    ['get into jam', 'get into a jam'],
+    ['It’s a long-term play!', "it's a long term play"],
+    ['  Beat Expectations ', 'beat expectations'],
+    ['sat on the fence', 'on the fence, sit on the fence'],
+    ['sent shares tumbling', 'send (something) tumbling'],
+    ['send tumbling', 'send (something) tumbling'],
+    ['had cold feet', 'get/have cold feet'],
+    ['gave my boss the cold shoulder', "give someone the cold shoulder"],
+  ])('accepts "%s" for "%s"', (answer, term) => {
+    expect(matchAnswer(answer, term).verdict).toBe('correct');
+  });
+
+  it('calls a typo almost right and shows where it differs', () => {
+    const match = matchAnswer('lukwarm', 'lukewarm');
+
+    expect(match.verdict).toBe('almost');
+    expect(match.diff).toEqual([
+      { text: 'luk', kind: 'same' },
+      { text: 'e', kind: 'missing' },
+      { text: 'warm', kind: 'same' },
+    ]);
+  });
+
+  it('rejects different words, and typos in very short terms', () => {
+    expect(matchAnswer('tailwinds', 'headwinds').verdict).toBe('incorrect');
+    expect(matchAnswer('gog', 'gig').verdict).toBe('incorrect');
+    expect(matchAnswer('', 'pivot').verdict).toBe('incorrect');
+  });
+});
+
+describe('diffAnswer', () => {
+  it('marks extra and missing characters, ignoring case', () => {
+    expect(diffAnswer('Priced inn', 'priced in')).toEqual([
+      { text: 'priced in', kind: 'same' },
+      { text: 'n', kind: 'extra' },
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Lenient checking for typed answers. An answer is correct when it is the
+ * term up to case, punctuation, articles, inflection, optional words and
+ * alternative forms; it is "almost" right when only a typo or two apart.
+ */
+
+export type AnswerVerdict = 'correct' | 'almost' | 'incorrect';
+
+export interface DiffPart {
+  text: string;
+  // same: in both; missing: in the expected answer only; extra: in the learner's only
+  kind: 'same' | 'missing' | 'extra';
+}
+
+export interface AnswerMatch {
+  verdict: AnswerVerdict;
+  // The form of the term the answer came closest to
+  expected: string;
+  // Character diff from the answer to `expected`; empty when correct
+  diff: DiffPart[];
+}
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+// Dictionary stand-ins for whatever object or owner fits the sentence
+const PLACEHOLDERS = new Set(['someone', 'somebody', 'something', 'sb', 'sth', "one's", 'oneself', 'someone\'s', 'somebody\'s']);
+const MAX_PLACEHOLDER_WORDS = 3;
+// Past forms suffix rules can't reach, mapped to the base form
+const IRREGULAR: Record<string, string> = {
+  got: 'get', gotten: 'get', went: 'go', gone: 'go', took: 'take', taken: 'take', came: 'come',
+  made: 'make', gave: 'give', given: 'give', broke: 'break', broken: 'break', ran: 'run',
+  kept: 'keep', held: 'hold', brought: 'bring', caught: 'catch', fell: 'fall', fallen: 'fall',
+  threw: 'throw', thrown: 'throw', sat: 'sit', stood: 'stand', was: 'be', were: 'be', been: 'be',
+  is: 'be', are: 'be', am: 'be', has: 'have', had: 'have', did: 'do', done: 'do', does: 'do',
+  said: 'say', found: 'find', saw: 'see', seen: 'see', thought: 'think', left: 'leave', felt: 'feel',
+  paid: 'pay', sent: 'send', beaten: 'beat', bought: 'buy', told: 'tell', drew: 'draw', drawn: 'draw',
+  wore: 'wear', worn: 'wear', bit: 'bite', bitten: 'bite', spoke: 'speak', spoken: 'speak',
+};
+// Cap on expanded forms, so a term full of options can't blow up
+const MAX_VARIANTS = 32;
+
+export const normalizeAnswer = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[‘’ʼ`´]/g, "'")
+    .replace(/[‐‑‒–—-]/g, ' ')
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .replace(/(^|\s)'+|'+(?=\s|$)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const words = (text: string): string[] => normalizeAnswer(text).split(' ').filter(word => word && !ARTICLES.has(word));
+
+// Suffix rules that undo inflection; each may or may not apply, so all results are kept
+const INFLECTIONS: [RegExp, string][] = [
+  [/ies$/, 'y'], [/ied$/, 'y'], [/ing$/, ''], [/ing$/, 'e'], [/ed$/, ''], [/ed$/, 'e'], [/es$/, ''], [/s$/, ''],
+];
+
+/**
+ * Forms a word could be inflected from: "getting" → get, "priced" → price, "fell" → fall
+ */
+const baseForms = (word: string): string[] => {
+  const forms = [word, word.replace(/'s$/, '')];
+  if (IRREGULAR[word]) forms.push(IRREGULAR[word]);
+  if (word.length > 3) {
+    INFLECTIONS.filter(([suffix]) => suffix.test(word)).forEach(([suffix, replacement]) => {
+      const base = word.replace(suffix, replacement);
+      // "gett(ing)" → get
+      forms.push(base, base.replace(/([^aeiouls])\1$/, '$1'));
+    });
+  }
+  return forms;
+};
+
+const sameWord = (answer: string, expected: string) => {
+  if (answer === expected) return true;
+  const answerForms = baseForms(answer);
+  return baseForms(expected).some(form => answerForms.includes(form));
+};
+
+const matchWords = (answer: string[], expected: string[]): boolean => {
+  if (expected.length === 0) return answer.length === 0;
+  const [head, ...rest] = expected;
+  if (PLACEHOLDERS.has(head)) {
+    for (let taken = 1; taken <= MAX_PLACEHOLDER_WORDS && taken <= answer.length; taken++) {
+      if (matchWords(answer.slice(taken), rest)) return true;
+    }
+    // Leaving the stand-in out is fine too
+    return matchWords(answer, rest);
+  }
+  return answer.length > 0 && sameWord(answer[0], head) && matchWords(answer.slice(1), rest);
+};
+
+const expandOptional = (phrase: string): string[] =>
+  phrase.split(/(\([^)]*\))/).reduce<string[]>((variants, part) => {
+    const optional = part.match(/^\((.*)\)$/);
+    return optional
+      ? variants.flatMap(variant => [`${variant} ${optional[1]}`, variant])
+      : variants.map(variant => `${variant} ${part}`);
+  }, ['']);
+
+const expandSlashes = (phrase: string): string[] =>
+  phrase.trim().split(/\s+/).reduce<string[]>((variants, word) => {
+    const options = word.includes('/') ? word.split('/').filter(Boolean) : [word];
+    return variants.flatMap(variant => options.map(option => `${variant} ${option}`));
+  }, ['']);
+
+/**
+ * Every accepted written form of a term: "on the fence, sit on the fence",
+ * "get/have cold feet" and "send (something) tumbling" each have several
+ */
+export const termVariants = (term: string): string[] => {
+  const variants = term
+    .split(/[,;]|\s\/\s/)
+    .flatMap(expandOptional)
+    .flatMap(expandSlashes)
+    .map(variant => variant.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  return [...new Set(variants)].slice(0, MAX_VARIANTS);
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos forgiven for an answer this long: none for tiny words, up to three for long phrases
+const allowedTypos = (length: number) => length < 4 ? 0 : Math.min(3, Math.max(1, Math.round(length / 8)));
+
+/**
+ * Character diff between what was typed and what was expected, ignoring case
+ */
+export const diffAnswer = (answer: string, expected: string): DiffPart[] => {
+  const a = [...answer];
+  const b = [...expected];
+  const same = (i: number, j: number) => a[i].toLowerCase() === b[j].toLowerCase();
+
+  // Longest common subsequence lengths from each position to the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(i, j) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffPart['kind']) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ text, kind });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(i, j)) {
+      push(b[j], 'same');
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push(b[j++], 'missing');
+    } else {
+      push(a[i++], 'extra');
+    }
+  }
+  return parts;
+};
+
+/**
+ * Judge a typed answer against a term
+ */
+export const matchAnswer = (answer: string, term: string): AnswerMatch => {
+  const typed = answer.trim();
+  const variants = termVariants(term);
+  if (variants.length === 0) return { verdict: 'incorrect', expected: term, diff: [] };
+
+  const answerWords = words(typed);
+  const accepted = variants.find(variant => matchWords(answerWords, words(variant)));
+  if (accepted && answerWords.length > 0) return { verdict: 'correct', expected: accepted, diff: [] };
+
+  // Typos are measured against the closest form, stand-ins left out
+  const joined = answerWords.join(' ');
+  const [closest] = variants
+    .map(variant => {
+      const target = words(variant).filter(word => !PLACEHOLDERS.has(word)).join(' ');
+      return { variant, target, distance: editDistance(joined, target) };
+    })
+    .sort((a, b) => a.distance - b.distance);
+
+  const isAlmost = joined.length > 0 && closest.distance <= allowedTypos(closest.target.length);
+  return {
+    verdict: isAlmost ? 'almost' : 'incorrect',
+    expected: closest.variant,
+    diff: isAlmost ? diffAnswer(typed, closest.variant) : [],
+  };
+};
@@ -0,0 +1,103 @@
+/**
+ * Errors from calling the Edge Functions. Each carries a message that can be
+ * shown to the user as-is; the original server message is kept in `detail`.
+ */
+export class ApiError extends Error {
+  constructor(message: string, public status?: number, public detail?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** 429: too many requests in a short time; worth retrying after a pause */
+export class RateLimitError extends ApiError {
+  constructor(public retryAfterMs?: number, detail?: string) {
+    super('The AI service is busy right now. Please wait a moment and try again.', 429, detail);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** The account's AI allowance is used up; retrying won't help until it resets */
+export class QuotaError extends ApiError {
+  constructor(status?: number, detail?: string, message = "You've used up your AI allowance for now. Please try again later.") {
+    super(message, status, detail);
+    this.name = 'QuotaError';
+  }
+}
+
+/** The request was rejected as invalid, or the reply wasn't what we expected */
+export class ValidationError extends ApiError {
+  constructor(message = "That request couldn't be processed. Please check your input and try again.", status?: number, detail?: string) {
+    super(message, status, detail);
+    this.name = 'ValidationError';
+  }
+}
+
+/** 5xx: the service failed on its side */
+export class ServerError extends ApiError {
+  constructor(status: number, detail?: string) {
+    super('The AI service ran into a problem. Please try again in a moment.', status, detail);
+    this.name = 'ServerError';
+  }
+}
+
+/** The request never got an answer: offline, DNS, CORS and the like */
+export class NetworkError extends ApiError {
+  constructor(message = "Couldn't reach the server. Check your connection and try again.") {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/** No complete answer within the time allowed */
+export class TimeoutError extends NetworkError {
+  constructor() {
+    super('The request took too long and was stopped. Please try again.');
+    this.name = 'TimeoutError';
+  }
+}
+
+// Only these are worth sending again unchanged
+export const isRetryable = (error: unknown): boolean =>
+  error instanceof RateLimitError || error instanceof ServerError;
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * The error for an HTTP failure from any AI backend. Servers can mark a 429 as
+ * an exhausted allowance rather than a burst with `code: 'quota_exceeded'`.
+ */
+export const errorFromStatus = (
+  status: number,
+  { detail, code, retryAfterMs }: { detail?: string; code?: string; retryAfterMs?: number } = {}
+): ApiError => {
+  if (status === 402 || code === 'quota_exceeded') return new QuotaError(status, detail);
+  if (status === 429) return new RateLimitError(retryAfterMs, detail);
+  if (status === 400 || status === 422) return new ValidationError(undefined, status, detail);
+  if (status >= 500) return new ServerError(status, detail);
+  return new ApiError(detail || `Request failed (${status}). Please try again.`, status, detail);
+};
+
+/**
+ * Turn a failed fetch response into the matching error, reading the
+ * `{ error, code }` body the Edge Functions send
+ */
+export const errorFromResponse = async (response: Response): Promise<ApiError> => {
+  const body = await response.json().catch(() => ({}));
+  return errorFromStatus(response.status, {
+    detail: typeof body?.error === 'string' ? body.error : typeof body?.error?.message === 'string' ? body.error.message : undefined,
+    code: typeof body?.code === 'string' ? body.code : undefined,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  });
+};
+
+// The user cancelled; callers usually stay quiet about these
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
@@ -0,0 +1,110 @@
+import { AnalysisResult, StructurePoint, VocabularyItem } from '../types';
+import { normalizeTerm } from './srsService';
+
+// Roughly what a single analyze-text call handles without truncating
+export const MAX_CHUNK_WORDS = 2500;
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+// Paragraphs first, then lines (subtitle dialogue turns), then sentences
+const SPLITTERS: RegExp[] = [/\n\s*\n/, /\n/, /(?<=[.!?…])\s+/];
+
+const splitUnit = (text: string, maxWords: number, level = 0): string[] => {
+  if (countWords(text) <= maxWords || level >= SPLITTERS.length) return [text];
+  return text
+    .split(SPLITTERS[level])
+    .map(part => part.trim())
+    .filter(Boolean)
+    .flatMap(part => splitUnit(part, maxWords, level + 1));
+};
+
+/**
+ * Split long text into chunks of at most maxWords, breaking only on paragraph,
+ * line (cue) or sentence boundaries. Short texts come back as a single chunk.
+ */
+export const splitIntoChunks = (text: string, maxWords: number = MAX_CHUNK_WORDS): string[] => {
+  const trimmed = text.trim();
+  if (countWords(trimmed) <= maxWords) return [trimmed];
+
+  // Remember which separator each unit came from so chunks keep their layout
+  const units = trimmed
+    .split(SPLITTERS[0])
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => splitUnit(paragraph, maxWords, 1).map((unit, idx) => ({ unit, startsParagraph: idx === 0 })));
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentWords = 0;
+
+  for (const { unit, startsParagraph } of units) {
+    const words = countWords(unit);
+    if (current && currentWords + words > maxWords) {
+      chunks.push(current);
+      current = '';
+      currentWords = 0;
+    }
+    current = current ? `${current}${startsParagraph ? '\n\n' : '\n'}${unit}` : unit;
+    currentWords += words;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+};
+
+const mergeVocabulary = (lists: VocabularyItem[][]): VocabularyItem[] => {
+  const byTerm = new Map<string, VocabularyItem>();
+
+  lists.flat().forEach(item => {
+    const key = normalizeTerm(item.term);
+    const existing = byTerm.get(key);
+    if (!existing) {
+      byTerm.set(key, item);
+      return;
+    }
+    // Same term found in several chunks: keep the first entry, add any new examples
+    const knownSentences = new Set(existing.examples.map(ex => ex.sentence));
+    byTerm.set(key, {
+      ...existing,
+      examples: [...existing.examples, ...item.examples.filter(ex => !knownSentences.has(ex.sentence))],
+    });
+  });
+
+  return Array.from(byTerm.values());
+};
+
+const mergeStructure = (lists: StructurePoint[][]): StructurePoint[] => {
+  const bySection = new Map<string, StructurePoint>();
+
+  lists.flat().forEach(point => {
+    const key = point.section.trim().toLowerCase();
+    const existing = bySection.get(key);
+    if (!existing) {
+      bySection.set(key, { ...point });
+      return;
+    }
+    existing.purpose = `${existing.purpose} ${point.purpose}`;
+    if (!existing.native_pattern.includes(point.native_pattern)) {
+      existing.native_pattern = `${existing.native_pattern} / ${point.native_pattern}`;
+    }
+  });
+
+  return Array.from(bySection.values());
+};
+
+/**
+ * Combine per-chunk analyses into one result, in chunk order
+ */
+export const mergeAnalysisResults = (results: AnalysisResult[]): AnalysisResult => {
+  if (results.length === 1) return results[0];
+
+  const tones = Array.from(new Set(results.map(r => r.tone.trim()).filter(Boolean)));
+  const structure = results.map(r => r.structure_analysis || []);
+
+  return {
+    summary: results.map(r => r.summary.trim()).filter(Boolean).join('\n\n'),
+    tone: tones.join(' · '),
+    structure_analysis: structure.some(list => list.length > 0) ? mergeStructure(structure) : undefined,
+    vocabulary: mergeVocabulary(results.map(r => r.vocabulary || [])),
+  };
+};
@@ -0,0 +1,36 @@
+export const MASK_PLACEHOLDER = '_____';
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Hide a vocabulary term inside a sentence or definition. Multi-part terms
+ * ("on the fence, sit on the fence") also hide each part. By default matches
+ * become blanks; pass `replace` to wrap them instead (e.g. Anki cloze markup).
+ */
+export const maskTerm = (
+  text: string,
+  term: string,
+  replace: (match: string) => string = () => MASK_PLACEHOLDER
+): string => {
+  if (!text || !term) return text;
+
+  const cleanTerm = term.replace(/[.,!?;:'"]+$/, '').trim();
+  const subPhrases = cleanTerm.split(/[,;]|\s+and\s+/i)
+    .map(s => s.trim())
+    .filter(s => s.length > 2);
+
+  // Longest first so "sit on the fence" wins over "fence"
+  const phrases = [...new Set([cleanTerm, ...subPhrases])]
+    .filter(phrase => phrase.length >= 3)
+    .sort((a, b) => b.length - a.length);
+  if (phrases.length === 0) return text;
+
+  const regex = new RegExp(`\\b(?:${phrases.map(escapeRegExp).join('|')})\\b`, 'gi');
+  return text.replace(regex, match => replace(match));
+};
+
+/**
+ * Whether maskTerm would hide anything in the text
+ */
+export const containsTerm = (text: string, term: string): boolean =>
+  maskTerm(text, term) !== text;
@@ -1,5 +1,7 @@
-import { supabase } from './supabaseClient';
-import { SavedAnalysis, SavedVocabularyItem, SourceType, Note, AnalysisFolder } from '../types';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, CLIENT_ID } from './supabaseClient';
+import { upgradeSavedAnalysis, upgradeSavedVocabularyItem } from './schemaService';
+import { SavedAnalysis, SavedVocabularyItem, SourceType, Note, AnalysisFolder, ExportPayload } from '../types';
 
 // Database row types (matching Supabase schema)
 interface DbSavedAnalysis {
@@ -12,6 +14,9 @@ interface DbSavedAnalysis {
   file_name: string | null;
   notes: object | null;
   folder_id: string | null;
+  updated_at: number | null;
+  field_updated_at: object | null;
+  client_id: string | null;
   created_at: string;
 }
 
@@ -32,6 +37,14 @@ interface DbSavedVocabulary {
   examples: object | null;
   nuance: string | null;
   date_added: number;
+  analysis_id: string | null;
+  ease_factor: number | null;
+  interval_days: number | null;
+  repetitions: number | null;
+  lapses: number | null;
+  due_date: number | null;
+  last_reviewed_at: number | null;
+  client_id: string | null;
   created_at: string;
 }
 
@@ -40,11 +53,26 @@ interface DbAnalysisFolder {
   user_id: string;
   name: string;
   color: string | null;
+  updated_at: number | null;
+  field_updated_at: object | null;
+  client_id: string | null;
   created_at: string;
 }
 
+// A row change pushed by Supabase realtime
+export type RealtimeChange<T> =
+  | { type: 'upsert'; record: T }
+  | { type: 'delete'; id: string };
+
+export interface RealtimeHandlers {
+  onAnalysis: (change: RealtimeChange<SavedAnalysis>) => void;
+  onFolder: (change: RealtimeChange<AnalysisFolder>) => void;
+  onVocabulary: (change: RealtimeChange<SavedVocabularyItem>) => void;
+}
+
 // Transform database row to app type
-const dbToAnalysis = (row: DbSavedAnalysis): SavedAnalysis => ({
+// Rows carry no schema version, so they are always upgraded on the way in
+const dbToAnalysis = (row: DbSavedAnalysis): SavedAnalysis => upgradeSavedAnalysis({
   id: row.id,
   date: row.date,
   sourceType: row.source_type as SourceType,
@@ -53,6 +81,8 @@ const dbToAnalysis = (row: DbSavedAnalysis): SavedAnalysis => ({
   fileName: row.file_name,
   notes: (row.notes as Note[]) || [],
   folderId: row.folder_id || null,
+  updatedAt: row.updated_at ?? undefined,
+  fieldUpdatedAt: (row.field_updated_at as SavedAnalysis['fieldUpdatedAt']) ?? undefined,
 });
 
 const dbToFolder = (row: DbAnalysisFolder): AnalysisFolder => ({
@@ -60,9 +90,11 @@ const dbToFolder = (row: DbAnalysisFolder): AnalysisFolder => ({
   name: row.name,
   createdAt: new Date(row.created_at).getTime(),
   color: row.color || undefined,
+  updatedAt: row.updated_at ?? undefined,
+  fieldUpdatedAt: (row.field_updated_at as AnalysisFolder['fieldUpdatedAt']) ?? undefined,
 });
 
-const dbToVocabulary = (row: DbSavedVocabulary): SavedVocabularyItem => ({
+const dbToVocabulary = (row: DbSavedVocabulary): SavedVocabularyItem => upgradeSavedVocabularyItem({
   id: row.id,
   term: row.term,
   definition: row.definition,
@@ -72,13 +104,71 @@ const dbToVocabulary = (row: DbSavedVocabulary): SavedVocabularyItem => ({
   examples: (row.examples as SavedVocabularyItem['examples']) ?? [],
   nuance: row.nuance ?? undefined,
   dateAdded: row.date_added,
+  analysisId: row.analysis_id,
+  review: row.ease_factor !== null && row.due_date !== null
+    ? {
+        easeFactor: row.ease_factor,
+        intervalDays: row.interval_days ?? 0,
+        repetitions: row.repetitions ?? 0,
+        lapses: row.lapses ?? 0,
+        dueDate: row.due_date,
+        lastReviewedAt: row.last_reviewed_at,
+      }
+    : undefined,
+});
+
+const analysisToDb = (userId: string, analysis: SavedAnalysis) => ({
+  id: analysis.id,
+  user_id: userId,
+  date: analysis.date,
+  source_type: analysis.sourceType,
+  input_text: analysis.inputText,
+  analysis_result: analysis.analysisResult,
+  file_name: analysis.fileName || null,
+  notes: analysis.notes || [],
+  folder_id: analysis.folderId || null,
+  updated_at: analysis.updatedAt ?? null,
+  field_updated_at: analysis.fieldUpdatedAt ?? null,
+  client_id: CLIENT_ID,
+});
+
+const folderToDb = (userId: string, folder: AnalysisFolder) => ({
+  id: folder.id,
+  user_id: userId,
+  name: folder.name,
+  color: folder.color || null,
+  updated_at: folder.updatedAt ?? null,
+  field_updated_at: folder.fieldUpdatedAt ?? null,
+  client_id: CLIENT_ID,
+});
+
+const vocabularyToDb = (userId: string, item: SavedVocabularyItem) => ({
+  id: item.id,
+  user_id: userId,
+  term: item.term,
+  definition: item.definition,
+  category: item.category,
+  source_context: item.source_context || null,
+  imagery_etymology: item.imagery_etymology || null,
+  examples: item.examples || [],
+  nuance: item.nuance || null,
+  date_added: item.dateAdded,
+  analysis_id: item.analysisId || null,
+  ease_factor: item.review?.easeFactor ?? null,
+  interval_days: item.review?.intervalDays ?? null,
+  repetitions: item.review?.repetitions ?? null,
+  lapses: item.review?.lapses ?? null,
+  due_date: item.review?.dueDate ?? null,
+  last_reviewed_at: item.review?.lastReviewedAt ?? null,
+  client_id: CLIENT_ID,
 });
 
 export const dataService = {
   // ==================== ANALYSES ====================
 
   /**
-   * Fetch all analyses for the current user
+   * Fetch all analyses for the current user. Throws if the request fails so
+   * callers don't mistake an outage for an empty account.
    */
   async fetchAnalyses(userId: string): Promise<SavedAnalysis[]> {
     if (!supabase) return [];
@@ -91,82 +181,28 @@ export const dataService = {
 
     if (error) {
       console.error('Error fetching analyses:', error);
-      return [];
+      throw new Error(`Failed to fetch analyses: ${error.message}`);
     }
 
     return (data || []).map(dbToAnalysis);
   },
 
   /**
-   * Save a new analysis or update existing one
+   * Insert or replace an analysis. Safe to repeat, so the sync queue uses it for both saves and updates.
    */
-  async saveAnalysis(userId: string, analysis: SavedAnalysis): Promise<SavedAnalysis | null> {
-    if (!supabase) {
-      console.warn('Supabase not configured, skipping cloud save');
-      return null;
-    }
-
-    console.log('Saving analysis to Supabase...', { userId, analysisId: analysis.id });
-
-    const { data, error } = await supabase
-      .from('saved_analyses')
-      .insert({
-        id: analysis.id,
-        user_id: userId,
-        date: analysis.date,
-        source_type: analysis.sourceType,
-        input_text: analysis.inputText,
-        analysis_result: analysis.analysisResult,
-        file_name: analysis.fileName || null,
-        notes: analysis.notes || [],
-        folder_id: analysis.folderId || null,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error saving analysis to Supabase:', error);
-      return null;
-    }
-
-    console.log('Analysis saved successfully to Supabase!', data);
-    return dbToAnalysis(data);
-  },
-
-  /**
-   * Update an existing analysis
-   */
-  async updateAnalysis(userId: string, analysis: SavedAnalysis): Promise<SavedAnalysis | null> {
-    if (!supabase) {
-      console.warn('Supabase not configured, skipping cloud update');
-      return null;
-    }
-
-    console.log('Updating analysis in Supabase...', { userId, analysisId: analysis.id });
+  async upsertAnalysis(userId: string, analysis: SavedAnalysis): Promise<boolean> {
+    if (!supabase) return false;
 
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('saved_analyses')
-      .update({
-        date: analysis.date,
-        source_type: analysis.sourceType,
-        input_text: analysis.inputText,
-        analysis_result: analysis.analysisResult,
-        file_name: analysis.fileName || null,
-        notes: analysis.notes || [],
-        folder_id: analysis.folderId || null,
-      })
-      .eq('id', analysis.id)
-      .eq('user_id', userId)
-      .select()
-      .single();
+      .upsert(analysisToDb(userId, analysis));
 
     if (error) {
-      console.error('Error updating analysis in Supabase:', error);
-      return null;
+      console.error('Error upserting analysis:', error);
+      return false;
     }
 
-    console.log('Analysis updated successfully in Supabase!', data);
-    return dbToAnalysis(data);
+    return true;
   },
 
   /**
@@ -189,43 +225,6 @@ export const dataService = {
     return true;
   },
 
-  /**
-   * Sync multiple analyses (used when user logs in to upload local data)
-   */
-  async syncAnalyses(userId: string, analyses: SavedAnalysis[]): Promise<void> {
-    if (!supabase || analyses.length === 0) return;
-
-    // Get existing IDs to avoid duplicates
-    const { data: existing } = await supabase
-      .from('saved_analyses')
-      .select('id')
-      .eq('user_id', userId);
-
-    const existingIds = new Set((existing || []).map(e => e.id));
-
-    // Filter out analyses that already exist
-    const newAnalyses = analyses.filter(a => !existingIds.has(a.id));
-
-    if (newAnalyses.length === 0) return;
-
-    const { error } = await supabase
-      .from('saved_analyses')
-      .insert(newAnalyses.map(analysis => ({
-        id: analysis.id,
-        user_id: userId,
-        date: analysis.date,
-        source_type: analysis.sourceType,
-        input_text: analysis.inputText,
-        analysis_result: analysis.analysisResult,
-        file_name: analysis.fileName || null,
-        folder_id: analysis.folderId || null,
-      })));
-
-    if (error) {
-      console.error('Error syncing analyses:', error);
-    }
-  },
-
   // ==================== VOCABULARY ====================
 
   /**
@@ -242,36 +241,28 @@ export const dataService = {
 
     if (error) {
       console.error('Error fetching vocabulary:', error);
-      return [];
+      throw new Error(`Failed to fetch vocabulary: ${error.message}`);
     }
 
     return (data || []).map(dbToVocabulary);
   },
 
   /**
-   * Save vocabulary items
+   * Insert or update a single vocabulary item (used to persist review state)
    */
-  async saveVocabularyItems(userId: string, items: SavedVocabularyItem[]): Promise<void> {
-    if (!supabase || items.length === 0) return;
+  async upsertVocabularyItem(userId: string, item: SavedVocabularyItem): Promise<boolean> {
+    if (!supabase) return false;
 
     const { error } = await supabase
       .from('saved_vocabulary')
-      .insert(items.map(item => ({
-        id: item.id,
-        user_id: userId,
-        term: item.term,
-        definition: item.definition,
-        category: item.category,
-        source_context: item.source_context || null,
-        imagery_etymology: item.imagery_etymology || null,
-        examples: item.examples || [],
-        nuance: item.nuance || null,
-        date_added: item.dateAdded,
-      })));
+      .upsert(vocabularyToDb(userId, item));
 
     if (error) {
-      console.error('Error saving vocabulary:', error);
+      console.error('Error upserting vocabulary:', error);
+      return false;
     }
+
+    return true;
   },
 
   /**
@@ -294,28 +285,6 @@ export const dataService = {
     return true;
   },
 
-  /**
-   * Sync vocabulary items (used when user logs in)
-   */
-  async syncVocabulary(userId: string, items: SavedVocabularyItem[]): Promise<void> {
-    if (!supabase || items.length === 0) return;
-
-    // Get existing IDs
-    const { data: existing } = await supabase
-      .from('saved_vocabulary')
-      .select('id')
-      .eq('user_id', userId);
-
-    const existingIds = new Set((existing || []).map(e => e.id));
-
-    // Filter out items that already exist
-    const newItems = items.filter(item => !existingIds.has(item.id));
-
-    if (newItems.length === 0) return;
-
-    await this.saveVocabularyItems(userId, newItems);
-  },
-
   // ==================== FOLDERS ====================
 
   /**
@@ -332,63 +301,28 @@ export const dataService = {
 
     if (error) {
       console.error('Error fetching folders:', error);
-      return [];
+      throw new Error(`Failed to fetch folders: ${error.message}`);
     }
 
     return (data || []).map(dbToFolder);
   },
 
   /**
-   * Create a new folder
+   * Insert or replace a folder (idempotent, used by the sync queue)
    */
-  async createFolder(userId: string, folder: AnalysisFolder): Promise<AnalysisFolder | null> {
-    if (!supabase) {
-      console.warn('Supabase not configured, skipping cloud save');
-      return null;
-    }
-
-    const { data, error } = await supabase
-      .from('analysis_folders')
-      .insert({
-        id: folder.id,
-        user_id: userId,
-        name: folder.name,
-        color: folder.color || null,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating folder:', error);
-      return null;
-    }
-
-    return dbToFolder(data);
-  },
-
-  /**
-   * Update a folder
-   */
-  async updateFolder(userId: string, folder: AnalysisFolder): Promise<AnalysisFolder | null> {
-    if (!supabase) return null;
+  async upsertFolder(userId: string, folder: AnalysisFolder): Promise<boolean> {
+    if (!supabase) return false;
 
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('analysis_folders')
-      .update({
-        name: folder.name,
-        color: folder.color || null,
-      })
-      .eq('id', folder.id)
-      .eq('user_id', userId)
-      .select()
-      .single();
+      .upsert(folderToDb(userId, folder));
 
     if (error) {
-      console.error('Error updating folder:', error);
-      return null;
+      console.error('Error upserting folder:', error);
+      return false;
     }
 
-    return dbToFolder(data);
+    return true;
   },
 
   /**
@@ -411,69 +345,20 @@ export const dataService = {
     return true;
   },
 
-  /**
-   * Update analysis folder assignment
-   */
-  async updateAnalysisFolder(userId: string, analysisId: string, folderId: string | null): Promise<boolean> {
-    if (!supabase) return false;
-
-    const { error } = await supabase
-      .from('saved_analyses')
-      .update({ folder_id: folderId })
-      .eq('id', analysisId)
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('Error updating analysis folder:', error);
-      return false;
-    }
-
-    return true;
-  },
-
-  /**
-   * Sync folders (used when user logs in)
-   */
-  async syncFolders(userId: string, folders: AnalysisFolder[]): Promise<void> {
-    if (!supabase || folders.length === 0) return;
-
-    const { data: existing } = await supabase
-      .from('analysis_folders')
-      .select('id')
-      .eq('user_id', userId);
-
-    const existingIds = new Set((existing || []).map(e => e.id));
-    const newFolders = folders.filter(f => !existingIds.has(f.id));
-
-    if (newFolders.length === 0) return;
-
-    const { error } = await supabase
-      .from('analysis_folders')
-      .insert(newFolders.map(folder => ({
-        id: folder.id,
-        user_id: userId,
-        name: folder.name,
-        color: folder.color || null,
-      })));
-
-    if (error) {
-      console.error('Error syncing folders:', error);
-    }
-  },
-
   // ==================== EXPORT ====================
 
   /**
    * Export all data as JSON and trigger download
    */
-  exportToJson(analyses: SavedAnalysis[], vocabulary: SavedVocabularyItem[]): void {
-    const exportData = {
+  exportToJson(analyses: SavedAnalysis[], vocabulary: SavedVocabularyItem[], folders: AnalysisFolder[] = []): void {
+    const exportData: ExportPayload = {
       exportDate: new Date().toISOString(),
       appName: 'NativeNuance',
-      version: '1.0',
+      version: '1.1',
       data: {
         analyses,
         vocabulary,
+        folders,
       },
     };
 
@@ -489,6 +374,52 @@ export const dataService = {
     URL.revokeObjectURL(url);
   },
 
+  // ==================== REALTIME ====================
+
+  /**
+   * Subscribe to row changes made on other devices. Changes written by this
+   * tab are skipped. Returns a function that closes the channel.
+   */
+  subscribeToChanges(userId: string, handlers: RealtimeHandlers): () => void {
+    if (!supabase) return () => {};
+    const client = supabase;
+
+    // Deletes only carry the primary key, so they can't be filtered by client; applying them twice is harmless
+    const toChange = <Row extends { id: string; client_id: string | null }, T>(
+      payload: RealtimePostgresChangesPayload<Row>,
+      transform: (row: Row) => T
+    ): RealtimeChange<T> | null => {
+      if (payload.eventType === 'DELETE') {
+        return payload.old.id ? { type: 'delete', id: payload.old.id } : null;
+      }
+      if (payload.new.client_id === CLIENT_ID) return null;
+      return { type: 'upsert', record: transform(payload.new) };
+    };
+
+    const filter = `user_id=eq.${userId}`;
+    const channel = client
+      .channel(`user-data-${userId}`)
+      .on<DbSavedAnalysis>('postgres_changes', { event: '*', schema: 'public', table: 'saved_analyses', filter }, payload => {
+        const change = toChange(payload, dbToAnalysis);
+        if (change) handlers.onAnalysis(change);
+      })
+      .on<DbAnalysisFolder>('postgres_changes', { event: '*', schema: 'public', table: 'analysis_folders', filter }, payload => {
+        const change = toChange(payload, dbToFolder);
+        if (change) handlers.onFolder(change);
+      })
+      .on<DbSavedVocabulary>('postgres_changes', { event: '*', schema: 'public', table: 'saved_vocabulary', filter }, payload => {
+        const change = toChange(payload, dbToVocabulary);
+        if (change) handlers.onVocabulary(change);
+      })
+      .subscribe((status, err) => {
+        if (err) console.error('Realtime subscription error:', status, err);
+      });
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  },
+
   // ==================== USER VISITS ====================
 
   /**
@@ -0,0 +1,220 @@
+import JSZip from 'jszip';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// A page (PDF) or chapter (EPUB) the user can pick before analysis
+export interface DocumentSection {
+  index: number;
+  title: string;
+  text: string;
+  wordCount: number;
+}
+
+export interface ExtractedDocument {
+  kind: 'pdf' | 'epub';
+  fileName: string;
+  sections: DocumentSection[];
+}
+
+export const isPdfFile = (file: File): boolean =>
+  file.type.includes('pdf') || file.name.toLowerCase().endsWith('.pdf');
+
+export const isEpubFile = (file: File): boolean =>
+  file.type === 'application/epub+zip' || file.name.toLowerCase().endsWith('.epub');
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+const makeSection = (index: number, title: string, text: string): DocumentSection => ({
+  index,
+  title,
+  text,
+  wordCount: countWords(text),
+});
+
+// ==================== PDF ====================
+
+const extractPdf = async (file: File): Promise<ExtractedDocument> => {
+  // pdf.js is large; only load it when a PDF is actually opened
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  } catch (e) {
+    const isLocked = e instanceof Error && e.name === 'PasswordException';
+    throw new Error(isLocked ? 'This PDF is password-protected.' : 'This PDF could not be opened.');
+  }
+  const sections: DocumentSection[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+
+    let text = '';
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      text += item.str;
+      text += item.hasEOL ? '\n' : (item.str.endsWith(' ') ? '' : ' ');
+    }
+
+    sections.push(makeSection(pageNumber - 1, `Page ${pageNumber}`, text.replace(/[ \t]+\n/g, '\n').trim()));
+  }
+
+  await pdf.destroy();
+
+  if (sections.every(section => section.wordCount === 0)) {
+    throw new Error('No text found in this PDF. Scanned pages need OCR before they can be analyzed.');
+  }
+  return { kind: 'pdf', fileName: file.name, sections };
+};
+
+// ==================== EPUB ====================
+
+const parseXml = (source: string, type: DOMParserSupportedType = 'application/xml'): Document =>
+  new DOMParser().parseFromString(source, type);
+
+// Resolve an href inside the archive relative to the file that references it
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.' && segment !== '') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, dd, dt';
+
+const xhtmlToText = (source: string): string => {
+  let doc = parseXml(source, 'application/xhtml+xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    doc = parseXml(source, 'text/html');
+  }
+
+  const body = doc.querySelector('body') || doc.documentElement;
+  const blocks = Array.from(body.querySelectorAll(BLOCK_SELECTOR))
+    // Nested blocks (e.g. <p> inside <li>) would otherwise be read twice
+    .filter(el => !el.parentElement?.closest(BLOCK_SELECTOR))
+    .map(el => (el.textContent || '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  return blocks.length > 0 ? blocks.join('\n\n') : (body.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+// Map chapter paths to titles from the EPUB 3 nav document or the EPUB 2 NCX
+const readTableOfContents = async (zip: JSZip, opfPath: string, opf: Document): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  const items = Array.from(opf.getElementsByTagName('item'));
+
+  const navItem = items.find(item => (item.getAttribute('properties') || '').split(' ').includes('nav'));
+  if (navItem) {
+    const navPath = resolvePath(opfPath, navItem.getAttribute('href') || '');
+    const navSource = await zip.file(navPath)?.async('string');
+    if (navSource) {
+      const nav = parseXml(navSource, 'text/html');
+      nav.querySelectorAll('nav a[href]').forEach(link => {
+        const path = resolvePath(navPath, link.getAttribute('href') || '');
+        const title = (link.textContent || '').trim();
+        if (title && !titles.has(path)) titles.set(path, title);
+      });
+      if (titles.size > 0) return titles;
+    }
+  }
+
+  const ncxItem = items.find(item => item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+  if (ncxItem) {
+    const ncxPath = resolvePath(opfPath, ncxItem.getAttribute('href') || '');
+    const ncxSource = await zip.file(ncxPath)?.async('string');
+    if (ncxSource) {
+      const ncx = parseXml(ncxSource);
+      Array.from(ncx.getElementsByTagName('navPoint')).forEach(point => {
+        const src = point.getElementsByTagName('content')[0]?.getAttribute('src');
+        const title = point.getElementsByTagName('text')[0]?.textContent?.trim();
+        if (src && title) {
+          const path = resolvePath(ncxPath, src);
+          if (!titles.has(path)) titles.set(path, title);
+        }
+      });
+    }
+  }
+
+  return titles;
+};
+
+const extractEpub = async (file: File): Promise<ExtractedDocument> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error('This EPUB could not be opened. It may be damaged or DRM-protected.');
+  }
+
+  const container = await zip.file('META-INF/container.xml')?.async('string');
+  const opfPath = container
+    ? parseXml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path')
+    : null;
+  if (!opfPath) throw new Error('This EPUB is missing its package document.');
+
+  const opfSource = await zip.file(opfPath)?.async('string');
+  if (!opfSource) throw new Error('This EPUB is missing its package document.');
+  const opf = parseXml(opfSource);
+
+  const manifest = new Map<string, string>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, resolvePath(opfPath, href));
+  });
+
+  const titles = await readTableOfContents(zip, opfPath, opf);
+  const sections: DocumentSection[] = [];
+
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    const path = manifest.get(itemref.getAttribute('idref') || '');
+    const source = path ? await zip.file(path)?.async('string') : undefined;
+    if (!path || !source) continue;
+
+    const text = xhtmlToText(source);
+    if (countWords(text) < 20) continue; // Skip covers, title pages and other near-empty documents
+
+    const fallbackTitle = text.split('\n')[0].substring(0, 60);
+    sections.push(makeSection(sections.length, titles.get(path) || fallbackTitle, text));
+  }
+
+  if (sections.length === 0) throw new Error('No readable chapters were found in this EPUB.');
+  return { kind: 'epub', fileName: file.name, sections };
+};
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Extract the text of a PDF (one section per page) or EPUB (one section per chapter)
+ */
+export const extractDocument = async (file: File): Promise<ExtractedDocument> => {
+  if (isPdfFile(file)) return extractPdf(file);
+  if (isEpubFile(file)) return extractEpub(file);
+  throw new Error(`Unsupported document type: ${file.name}`);
+};
+
+/**
+ * Label recorded as the analysis fileName, e.g. "book.pdf (pp. 3–10)" or "novel.epub — Ch. 2: The Storm"
+ */
+export const describeSelection = (doc: ExtractedDocument, selected: DocumentSection[]): string => {
+  if (selected.length === 0) return doc.fileName;
+  const first = selected[0];
+  const last = selected[selected.length - 1];
+  const isContiguous = last.index - first.index === selected.length - 1;
+
+  if (doc.kind === 'pdf') {
+    if (selected.length === 1) return `${doc.fileName} (p. ${first.index + 1})`;
+    if (isContiguous) return `${doc.fileName} (pp. ${first.index + 1}–${last.index + 1})`;
+    return `${doc.fileName} (pp. ${selected.map(s => s.index + 1).join(', ')})`;
+  }
+
+  if (selected.length === 1) return `${doc.fileName} — Ch. ${first.index + 1}: ${first.title}`;
+  if (isContiguous) return `${doc.fileName} — Ch. ${first.index + 1}–${last.index + 1}`;
+  return `${doc.fileName} — Ch. ${selected.map(s => s.index + 1).join(', ')}`;
+};
+
+export const joinSections = (selected: DocumentSection[]): string =>
+  selected.map(section => section.text).join('\n\n');
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { VocabularyItem } from '../types';
+import { accuracyByType, buildExerciseSession, EXERCISE_BUILDERS, ExerciseOf, gradeMatching, summarizeSession } from './exerciseService';
+
+// Deterministic stand-in for Math.random
+const seeded = (seed = 1) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+const item = (term: string, overrides: Partial<VocabularyItem> = {}): VocabularyItem => ({
+  term,
+  definition: `what ${term} means`,
+  category: 'idioms_fixed',
+  examples: [],
+  ...overrides,
+});
+
+const context = (pool: VocabularyItem[], upcoming: VocabularyItem[] = []) => ({ pool, upcoming, random: seeded() });
+
+describe('exercise builders', () => {
+  it('only builds exercises a term can support', () => {
+    const single = item('pivot');
+
+    expect(EXERCISE_BUILDERS.cloze(single, context([single]))).toBeNull();
+    expect(EXERCISE_BUILDERS.word_order(single, context([single]))).toBeNull();
+    expect(EXERCISE_BUILDERS.context_choice(single, context([single]))).toBeNull();
+    expect(EXERCISE_BUILDERS.multiple_choice(single, context([single, item('lukewarm')]))).toBeNull();
+    expect(EXERCISE_BUILDERS.matching(single, context([single], [item('lukewarm')]))).toBeNull();
+  });
+
+  it('blanks the term out of its source sentence for cloze', () => {
+    const headwinds = item('headwinds', { source_context: 'Analysts cite Headwinds in China.' });
+
+    expect(EXERCISE_BUILDERS.cloze(headwinds, context([headwinds]))).toEqual(expect.objectContaining({
+      sentence: 'Analysts cite _____ in China.',
+    }));
+  });
+
+  it('offers distractors from the same category first', () => {
+    const target = item('on the fence');
+    const pool = [target, item('sit tight'), item('priced in', { category: 'topic_specific' }), item('up in the air'), item('beat around the bush')];
+
+    const exercise = EXERCISE_BUILDERS.multiple_choice(target, context(pool)) as ExerciseOf<'multiple_choice'>;
+
+    expect(exercise.options).toHaveLength(4);
+    expect(exercise.options).toContain('on the fence');
+    expect(exercise.options).not.toContain('priced in');
+  });
+
+  it('asks which context an example belongs to, among the term\'s own contexts', () => {
+    const pivot = item('pivot', {
+      examples: [
+        { context_label: 'In Business', sentence: 'The startup pivoted to AI.' },
+        { context_label: 'In Sports', sentence: 'She pivoted on her left foot.' },
+      ],
+    });
+
+    const exercise = EXERCISE_BUILDERS.context_choice(pivot, context([pivot])) as ExerciseOf<'context_choice'>;
+
+    expect([...exercise.options].sort()).toEqual(['In Business', 'In Sports']);
+    expect(pivot.examples.find(example => example.sentence === exercise.sentence)?.context_label).toBe(exercise.answer);
+  });
+
+  it('never shows a chunk already in order', () => {
+    const chunk = item('send (something) tumbling');
+
+    for (let seed = 1; seed < 20; seed++) {
+      const exercise = EXERCISE_BUILDERS.word_order(chunk, { ...context([chunk]), random: seeded(seed) }) as ExerciseOf<'word_order'>;
+      expect(exercise.tokens.join(' ')).not.toBe(exercise.answer);
+      expect([...exercise.tokens].sort()).toEqual(['(something)', 'send', 'tumbling']);
+    }
+  });
+
+  it('grades each pair of a matching round', () => {
+    const terms = [
+      item('pivot', { definition: 'a change of direction' }),
+      item('lukewarm', { definition: 'not enthusiastic' }),
+      item('headwinds', { definition: 'forces holding progress back' }),
+    ];
+    const exercise = EXERCISE_BUILDERS.matching(terms[0], context(terms, terms.slice(1))) as ExerciseOf<'matching'>;
+
+    expect(exercise.answerKey.map(index => exercise.definitions[index])).toEqual(terms.map(term => term.definition));
+    expect(gradeMatching(exercise, [exercise.answerKey[0], exercise.answerKey[2], exercise.answerKey[1]]))
+      .toEqual(['correct', 'incorrect', 'incorrect']);
+  });
+});
+
+describe('buildExerciseSession', () => {
+  it('mixes types and tests every term exactly once', () => {
+    const terms = [
+      item('beat expectations', { source_context: 'Results beat expectations.' }),
+      item('lukewarm'),
+      item('send (something) tumbling'),
+      item('headwinds'),
+      item('priced in'),
+      item('long-term play'),
+      item('pivot'),
+    ];
+
+    const session = buildExerciseSession(terms, undefined, seeded());
+
+    expect(new Set(session.map(exercise => exercise.type)).size).toBeGreaterThan(2);
+    expect(session.flatMap(exercise => exercise.items).map(term => term.term).sort()).toEqual(terms.map(term => term.term).sort());
+  });
+
+  it('sticks to the requested types', () => {
+    const session = buildExerciseSession([item('pivot'), item('lukewarm')], ['typed_recall'], seeded());
+
+    expect(session.map(exercise => exercise.type)).toEqual(['typed_recall', 'typed_recall']);
+  });
+});
+
+describe('accuracyByType', () => {
+  it('reports each type separately, counting untyped answers as recall and ignoring practice', () => {
+    expect(accuracyByType([
+      { result: 'correct' },
+      { result: 'skipped', exerciseType: 'typed_recall' },
+      { result: 'correct', exerciseType: 'matching' },
+      { result: 'incorrect', source: 'practice' },
+    ])).toEqual({
+      typed_recall: { attempts: 2, correct: 1 },
+      matching: { attempts: 1, correct: 1 },
+    });
+  });
+});
+
+describe('summarizeSession', () => {
+  it('lists each missed or skipped term once', () => {
+    const [pivot, lukewarm, headwinds] = [item('pivot'), item('lukewarm'), item('headwinds')];
+
+    expect(summarizeSession([
+      { item: pivot, exerciseType: 'typed_recall', result: 'incorrect' },
+      { item: lukewarm, exerciseType: 'matching', result: 'correct' },
+      { item: headwinds, exerciseType: 'matching', result: 'skipped' },
+      { item: { ...pivot }, exerciseType: 'cloze', result: 'incorrect' },
+    ])).toEqual({ answered: 4, correct: 1, missed: [pivot, headwinds] });
+  });
+});
@@ -0,0 +1,256 @@
+import { ExerciseType, FlashcardResult, VocabularyItem } from '../types';
+import { containsTerm, maskTerm } from './clozeService';
+import { normalizeTerm } from './srsService';
+
+export const EXERCISE_LABELS: Record<ExerciseType, string> = {
+  typed_recall: 'Recall',
+  multiple_choice: 'Multiple choice',
+  matching: 'Matching',
+  cloze: 'Cloze',
+  word_order: 'Word order',
+  context_choice: 'Context',
+};
+
+// Up to this many answer options, including the right one
+const MAX_OPTIONS = 4;
+// Matching rounds pair this many terms with their definitions
+const MAX_MATCHING_PAIRS = 4;
+const MIN_MATCHING_PAIRS = 3;
+// Shorter chunks have too few orders to be worth rebuilding
+const MIN_WORD_ORDER_WORDS = 3;
+
+// ==================== EXERCISES ====================
+
+interface ExerciseBase {
+  id: string;
+  // The terms the exercise tests; one, except for matching
+  items: VocabularyItem[];
+}
+
+export type Exercise = ExerciseBase & (
+  | { type: 'typed_recall'; prompt: string; hint?: string }
+  | { type: 'cloze'; sentence: string; hint: string }
+  | { type: 'multiple_choice'; prompt: string; options: string[]; answer: string }
+  | { type: 'context_choice'; sentence: string; options: string[]; answer: string }
+  | { type: 'word_order'; tokens: string[]; answer: string; hint: string }
+  // definitions[answerKey[i]] belongs to items[i]
+  | { type: 'matching'; definitions: string[]; answerKey: number[] }
+);
+
+export type ExerciseOf<T extends ExerciseType> = Extract<Exercise, { type: T }>;
+
+// An exercise before the session numbers it; Omit on each member keeps the union intact
+export type ExerciseDraft = Exercise extends infer E ? (E extends Exercise ? Omit<E, 'id'> : never) : never;
+
+export interface BuildContext {
+  // Every term in the session, for distractors
+  pool: VocabularyItem[];
+  // Terms after this one that no exercise has used yet
+  upcoming: VocabularyItem[];
+  random: () => number;
+}
+
+/**
+ * Turns a term into one kind of exercise, or null when the term can't
+ * support it (no source sentence, a single-word term, too few neighbours).
+ */
+export type ExerciseBuilder = (item: VocabularyItem, context: BuildContext) => ExerciseDraft | null;
+
+export const shuffle = <T>(values: T[], random: () => number = Math.random): T[] => {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const uniqueBy = <T>(values: T[], key: (value: T) => string): T[] => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const k = key(value);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+const wordCount = (text: string) => text.trim().split(/\s+/).length;
+
+// Other terms a learner could mistake for this one: same category first, then similar length
+const distractorsFor = (item: VocabularyItem, pool: VocabularyItem[], random: () => number): string[] => {
+  const key = normalizeTerm(item.term);
+  const candidates = uniqueBy(pool.filter(other => normalizeTerm(other.term) !== key), other => normalizeTerm(other.term));
+  const closeness = (other: VocabularyItem) =>
+    (other.category === item.category ? 2 : 0) + (Math.abs(wordCount(other.term) - wordCount(item.term)) <= 1 ? 1 : 0);
+  return shuffle(candidates, random)
+    .sort((a, b) => closeness(b) - closeness(a))
+    .slice(0, MAX_OPTIONS - 1)
+    .map(other => other.term);
+};
+
+export const EXERCISE_BUILDERS: Record<ExerciseType, ExerciseBuilder> = {
+  typed_recall: item => ({
+    type: 'typed_recall',
+    items: [item],
+    prompt: maskTerm(item.definition, item.term),
+    hint: item.examples[0] ? maskTerm(item.examples[0].sentence, item.term) : undefined,
+  }),
+
+  cloze: item => {
+    if (!item.source_context || !containsTerm(item.source_context, item.term)) return null;
+    return {
+      type: 'cloze',
+      items: [item],
+      sentence: maskTerm(item.source_context, item.term),
+      hint: maskTerm(item.definition, item.term),
+    };
+  },
+
+  multiple_choice: (item, { pool, random }) => {
+    const distractors = distractorsFor(item, pool, random);
+    if (distractors.length < 2) return null;
+    return {
+      type: 'multiple_choice',
+      items: [item],
+      prompt: maskTerm(item.definition, item.term),
+      options: shuffle([item.term, ...distractors], random),
+      answer: item.term,
+    };
+  },
+
+  context_choice: (item, { pool, random }) => {
+    const labelKey = (label: string) => label.trim().toLowerCase();
+    const examples = item.examples.filter(example => example.context_label.trim() && example.sentence.trim());
+    const ownLabels = uniqueBy(examples.map(example => example.context_label.trim()), labelKey);
+    // With one context there is nothing to tell apart
+    if (ownLabels.length < 2) return null;
+
+    const example = examples[Math.floor(random() * examples.length)];
+    const otherLabels = shuffle(pool.flatMap(other => other.examples.map(e => e.context_label.trim())).filter(Boolean), random);
+    const options = uniqueBy([example.context_label.trim(), ...shuffle(ownLabels, random), ...otherLabels], labelKey)
+      .slice(0, MAX_OPTIONS);
+    return {
+      type: 'context_choice',
+      items: [item],
+      sentence: example.sentence,
+      options: shuffle(options, random),
+      answer: example.context_label.trim(),
+    };
+  },
+
+  word_order: (item, { random }) => {
+    const words = item.term.trim().split(/\s+/);
+    if (words.length < MIN_WORD_ORDER_WORDS) return null;
+    let tokens = shuffle(words, random);
+    // Never hand over the answer already in order
+    for (let attempt = 0; tokens.join(' ') === words.join(' ') && attempt < 5; attempt++) tokens = shuffle(words, random);
+    if (tokens.join(' ') === words.join(' ')) tokens = [...words.slice(1), words[0]];
+    return { type: 'word_order', items: [item], tokens, answer: words.join(' '), hint: maskTerm(item.definition, item.term) };
+  },
+
+  matching: (item, { upcoming, random }) => {
+    const items = uniqueBy([item, ...upcoming], other => normalizeTerm(other.term))
+      .filter(other => other.definition.trim())
+      .slice(0, MAX_MATCHING_PAIRS);
+    if (items.length < MIN_MATCHING_PAIRS || items[0] !== item) return null;
+
+    const order = shuffle(items.map((_, index) => index), random);
+    return {
+      type: 'matching',
+      items,
+      definitions: order.map(index => maskTerm(items[index].definition, items[index].term)),
+      answerKey: items.map((_, index) => order.indexOf(index)),
+    };
+  },
+};
+
+/**
+ * A session over the given terms, in order, mixing exercise types: each term
+ * gets the least used type it supports. Matching rounds take the next few
+ * terms along with them.
+ */
+export const buildExerciseSession = (
+  items: VocabularyItem[],
+  types: ExerciseType[] = Object.keys(EXERCISE_BUILDERS) as ExerciseType[],
+  random: () => number = Math.random
+): Exercise[] => {
+  const used = new Map<ExerciseType, number>(types.map(type => [type, 0]));
+  const covered = new Set<VocabularyItem>();
+  const exercises: Exercise[] = [];
+
+  items.forEach((item, index) => {
+    if (covered.has(item)) return;
+    const context: BuildContext = {
+      pool: items,
+      upcoming: items.slice(index + 1).filter(other => !covered.has(other)),
+      random,
+    };
+
+    const candidates = shuffle(types, random).sort((a, b) => used.get(a)! - used.get(b)!);
+    for (const type of candidates) {
+      const exercise = EXERCISE_BUILDERS[type](item, context);
+      if (!exercise) continue;
+      exercise.items.forEach(covered.add, covered);
+      used.set(type, used.get(type)! + 1);
+      exercises.push({ ...exercise, id: `${exercises.length}:${type}` });
+      return;
+    }
+  });
+
+  return exercises;
+};
+
+// ==================== ANSWERS ====================
+
+/**
+ * Result per term for a matching round, given the definition index chosen for each term
+ */
+export const gradeMatching = (exercise: ExerciseOf<'matching'>, chosen: number[]): FlashcardResult[] =>
+  exercise.answerKey.map((definition, index) => chosen[index] === definition ? 'correct' : 'incorrect');
+
+export interface ExerciseAccuracy {
+  attempts: number;
+  correct: number;
+}
+
+/**
+ * Accuracy per exercise type. Answers without a type came from typed recall,
+ * the only kind there was before sessions mixed types.
+ */
+export const accuracyByType = (
+  answers: Array<{ result: FlashcardResult; exerciseType?: ExerciseType; source?: 'flashcard' | 'practice' }>
+): Partial<Record<ExerciseType, ExerciseAccuracy>> => {
+  const accuracy: Partial<Record<ExerciseType, ExerciseAccuracy>> = {};
+  answers
+    .filter(answer => answer.source !== 'practice')
+    .forEach(({ result, exerciseType = 'typed_recall' }) => {
+      const entry = accuracy[exerciseType] ?? { attempts: 0, correct: 0 };
+      accuracy[exerciseType] = { attempts: entry.attempts + 1, correct: entry.correct + (result === 'correct' ? 1 : 0) };
+    });
+  return accuracy;
+};
+
+// ==================== SESSIONS ====================
+
+export interface SessionAnswer {
+  item: VocabularyItem;
+  exerciseType: ExerciseType;
+  result: FlashcardResult;
+}
+
+export interface SessionSummary {
+  answered: number;
+  correct: number;
+  // Terms answered wrong or skipped, once each, in the order they came up
+  missed: VocabularyItem[];
+}
+
+export const summarizeSession = (answers: SessionAnswer[]): SessionSummary => ({
+  answered: answers.length,
+  correct: answers.filter(answer => answer.result === 'correct').length,
+  missed: uniqueBy(
+    answers.filter(answer => answer.result !== 'correct').map(answer => answer.item),
+    item => normalizeTerm(item.term)
+  ),
+});
@@ -0,0 +1,92 @@
+// Blocks inside the export document marked with this attribute are never split across PDF pages
+export const EXPORT_BLOCK_ATTR = 'data-export-block';
+
+// A4 in millimetres
+const PAGE_WIDTH_MM = 210;
+const PAGE_HEIGHT_MM = 297;
+const PAGE_MARGIN_MM = 12;
+const BLOCK_GAP_MM = 4;
+const RENDER_SCALE = 2;
+
+const loadHtml2Canvas = async () => (await import('html2canvas')).default;
+
+const renderToCanvas = async (element: HTMLElement): Promise<HTMLCanvasElement> => {
+  const html2canvas = await loadHtml2Canvas();
+  return html2canvas(element, {
+    scale: RENDER_SCALE,
+    backgroundColor: '#ffffff',
+    useCORS: true,
+    logging: false,
+  });
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const exportFileName = (extension: 'pdf' | 'png'): string =>
+  `nativenuance-analysis-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+/**
+ * Render the export document to a single full-length PNG
+ */
+export const exportAsPng = async (container: HTMLElement): Promise<void> => {
+  const canvas = await renderToCanvas(container);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to create image.');
+  downloadBlob(blob, exportFileName('png'));
+};
+
+/**
+ * Render the export document to a paginated A4 PDF. Each block is captured
+ * separately and moved to the next page when it doesn't fit, so vocabulary
+ * cards are never cut in half. Blocks taller than a page are sliced as a fallback.
+ */
+export const exportAsPdf = async (container: HTMLElement): Promise<void> => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  const contentWidth = PAGE_WIDTH_MM - PAGE_MARGIN_MM * 2;
+  const contentHeight = PAGE_HEIGHT_MM - PAGE_MARGIN_MM * 2;
+  const blocks = Array.from(container.querySelectorAll<HTMLElement>(`[${EXPORT_BLOCK_ATTR}]`));
+  let cursorY = PAGE_MARGIN_MM;
+
+  for (const block of blocks) {
+    const canvas = await renderToCanvas(block);
+    const mmPerPx = contentWidth / canvas.width;
+    const blockHeight = canvas.height * mmPerPx;
+
+    if (blockHeight <= contentHeight) {
+      if (cursorY + blockHeight > PAGE_HEIGHT_MM - PAGE_MARGIN_MM) {
+        pdf.addPage();
+        cursorY = PAGE_MARGIN_MM;
+      }
+      pdf.addImage(canvas.toDataURL('image/png'), 'PNG', PAGE_MARGIN_MM, cursorY, contentWidth, blockHeight);
+      cursorY += blockHeight + BLOCK_GAP_MM;
+      continue;
+    }
+
+    // Oversized block: start on a fresh page and slice it page by page
+    if (cursorY > PAGE_MARGIN_MM) pdf.addPage();
+    const sliceHeightPx = Math.floor(contentHeight / mmPerPx);
+    for (let offsetPx = 0; offsetPx < canvas.height; offsetPx += sliceHeightPx) {
+      const slice = document.createElement('canvas');
+      slice.width = canvas.width;
+      slice.height = Math.min(sliceHeightPx, canvas.height - offsetPx);
+      slice.getContext('2d')?.drawImage(canvas, 0, -offsetPx);
+
+      if (offsetPx > 0) pdf.addPage();
+      pdf.addImage(slice.toDataURL('image/png'), 'PNG', PAGE_MARGIN_MM, PAGE_MARGIN_MM, contentWidth, slice.height * mmPerPx);
+      cursorY = PAGE_MARGIN_MM + slice.height * mmPerPx + BLOCK_GAP_MM;
+    }
+  }
+
+  pdf.save(exportFileName('pdf'));
+};
@@ -0,0 +1,290 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisResult, SourceType } from '../types';
+
+const session = vi.hoisted(() => ({ current: null as { access_token: string; user: { id: string } } | null }));
+
+vi.mock('./supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: session.current } }) } },
+}));
+
+// Tests talk to the Edge Functions unless they pick another provider
+const settings = vi.hoisted(() => ({
+  current: {
+    provider: 'edge',
+    gemini: { apiKey: '', model: 'gemini-2.5-flash' },
+    openai: { baseUrl: 'http://localhost:11434/v1', apiKey: '', model: 'llama3.1' },
+  } as import('./providers/types').ProviderSettings,
+}));
+
+vi.mock('./providers/settings', () => ({
+  providerSettings: { load: () => settings.current },
+}));
+
+// The response cache is deleted by every loadService()
+const CACHE_DB = 'test-response-cache';
+
+vi.mock('./responseCache', async importOriginal => {
+  const actual = await importOriginal<typeof import('./responseCache')>();
+  return { ...actual, responseCache: actual.createResponseCache('test-response-cache') };
+});
+
+const clearCache = () =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(CACHE_DB);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+
+// Usage metering has its own tests; here every call is allowed
+vi.mock('./usageService', () => ({
+  usageService: { assertAllowed: () => {}, record: () => {} },
+}));
+
+// The service reads its config at import time, so stub it before each fresh import.
+// Fresh imports also mean fresh error classes, so errors are matched by name.
+const loadService = async () => {
+  vi.resetModules();
+  await clearCache();
+  vi.stubEnv('VITE_SUPABASE_URL', 'https://example.supabase.co');
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon-key');
+  return import('./geminiService');
+};
+
+// A streamed reply whose chunks don't line up with line breaks
+const ndjsonResponse = (lines: string[]) => {
+  const text = lines.join('\n');
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < text.length; i += 7) controller.enqueue(encoder.encode(text.slice(i, i + 7)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } });
+};
+
+const events = [
+  JSON.stringify({ type: 'meta', summary: 'A summary', tone: 'Casual' }),
+  JSON.stringify({ type: 'structure', point: { section: 'Opening', purpose: 'Hook', native_pattern: 'So here is the thing' } }),
+  'not json',
+  JSON.stringify({ type: 'vocabulary', item: { term: 'pivot', definition: 'change direction', category: 'topic_specific' } }),
+  JSON.stringify({ type: 'vocabulary', item: { definition: 'no term' } }),
+];
+
+describe('analyzeText', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('builds the result from streamed events and reports each step', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ndjsonResponse(events)));
+    const { analyzeText } = await loadService();
+    const partials: AnalysisResult[] = [];
+
+    const result = await analyzeText('text', SourceType.NEWS, { onPartial: partial => partials.push(partial) });
+
+    expect(result.summary).toBe('A summary');
+    expect(result.structure_analysis).toHaveLength(1);
+    expect(result.vocabulary.map(item => item.term)).toEqual(['pivot']);
+    expect(partials.map(partial => [partial.summary, partial.structure_analysis?.length ?? 0, partial.vocabulary.length])).toEqual([
+      ['A summary', 0, 0],
+      ['A summary', 1, 0],
+      ['A summary', 1, 1],
+    ]);
+  });
+
+  it('still accepts a plain JSON reply', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ summary: 'Whole', tone: 'Formal', vocabulary: [] })));
+    const { analyzeText } = await loadService();
+
+    const result = await analyzeText('text', SourceType.NEWS);
+
+    expect(result).toEqual({ summary: 'Whole', tone: 'Formal', structure_analysis: undefined, vocabulary: [] });
+  });
+
+  it('fails on an error event, after reporting what arrived', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ndjsonResponse([events[0], JSON.stringify({ type: 'error', error: 'Model overloaded' })])));
+    const { analyzeText } = await loadService();
+    const onPartial = vi.fn();
+
+    await expect(analyzeText('text', SourceType.NEWS, { onPartial })).rejects.toMatchObject({ name: 'ApiError', message: 'Model overloaded' });
+    expect(onPartial).toHaveBeenCalledWith(expect.objectContaining({ summary: 'A summary' }));
+  });
+
+  it('closes the stream after an error event', async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(`${JSON.stringify({ type: 'error', error: 'Model overloaded' })}\n`));
+      },
+      cancel,
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } })));
+    const { analyzeText } = await loadService();
+
+    await expect(analyzeText('text', SourceType.NEWS)).rejects.toMatchObject({ message: 'Model overloaded' });
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('fails when the stream ends empty', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ndjsonResponse([])));
+    const { analyzeText } = await loadService();
+
+    await expect(analyzeText('text', SourceType.NEWS)).rejects.toThrow('before any results arrived');
+  });
+});
+
+describe('request policy', () => {
+  const lookupReply = () => Response.json({ definition: 'a word', pronunciation: '/w/' });
+
+  // Never answers, but rejects like fetch does once its signal aborts
+  const hangingFetch = (_url: string, init: RequestInit) =>
+    new Promise<Response>((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('retries a rate-limited request after the server\'s Retry-After', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(Response.json({ error: 'slow down' }, { status: 429, headers: { 'Retry-After': '0' } }))
+      .mockResolvedValueOnce(lookupReply());
+    vi.stubGlobal('fetch', fetchMock);
+    const { lookupWord } = await loadService();
+
+    await expect(lookupWord('word', 'context')).resolves.toEqual({ definition: 'a word', pronunciation: '/w/' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('maps failures to structured errors without retrying the ones that would fail again', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(Response.json({ error: 'limit', code: 'quota_exceeded' }, { status: 429 }))
+      .mockResolvedValueOnce(Response.json({ error: 'bad input' }, { status: 400 }))
+      .mockResolvedValueOnce(Response.json({ error: 'boom' }, { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { lookupWord } = await loadService();
+
+    await expect(lookupWord('word', 'context')).rejects.toMatchObject({ name: 'QuotaError' });
+    await expect(lookupWord('word', 'context')).rejects.toMatchObject({ name: 'ValidationError', detail: 'bad input' });
+    await expect(lookupWord('word', 'context', { retries: 0 })).rejects.toMatchObject({ name: 'ServerError', status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops the other parts of a chunked analysis when one fails', async () => {
+    const part = (n: number) => Array.from({ length: 2_000 }, () => `word${n}`).join(' ');
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(Response.json({ error: 'bad input' }, { status: 400 }))
+      .mockImplementation(hangingFetch);
+    vi.stubGlobal('fetch', fetchMock);
+    const { analyzeTextChunked } = await loadService();
+    const onPartial = vi.fn();
+    const onProgress = vi.fn();
+
+    await expect(analyzeTextChunked([1, 2, 3].map(part).join('\n\n'), SourceType.NEWS, { onPartial, onProgress }))
+      .rejects.toMatchObject({ name: 'ValidationError' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // The part already in flight was cancelled and the third was never requested
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect((fetchMock.mock.calls[1] as unknown as [string, RequestInit])[1].signal!.aborted).toBe(true);
+    expect(onPartial).not.toHaveBeenCalled();
+    expect(onProgress).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a request that never answers', async () => {
+    vi.stubGlobal('fetch', vi.fn(hangingFetch));
+    const { lookupWord } = await loadService();
+
+    await expect(lookupWord('word', 'context', { timeoutMs: 10 })).rejects.toMatchObject({ name: 'TimeoutError' });
+  });
+
+  it('sends the signed-in user\'s token, or the anon key when signed out', async () => {
+    const fetchMock = vi.fn(async () => lookupReply());
+    vi.stubGlobal('fetch', fetchMock);
+    const { lookupWord } = await loadService();
+    const headersOf = (call: number) => (fetchMock.mock.calls[call] as unknown as [string, RequestInit])[1].headers;
+
+    await lookupWord('first', 'context');
+    session.current = { access_token: 'user-token', user: { id: 'user-1' } };
+    await lookupWord('second', 'context');
+    session.current = null;
+
+    expect(headersOf(0)).toMatchObject({ Authorization: 'Bearer anon-key' });
+    expect(headersOf(1)).toMatchObject({ Authorization: 'Bearer user-token', apikey: 'anon-key' });
+  });
+
+  it('stops when the caller aborts', async () => {
+    vi.stubGlobal('fetch', vi.fn(hangingFetch));
+    const { lookupWord } = await loadService();
+    const controller = new AbortController();
+
+    const pending = lookupWord('word', 'context', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('response cache', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('answers repeated lookups locally until asked to refresh', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => Response.json({ definition: 'a word', pronunciation: '/w/' }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { lookupWord } = await loadService();
+    const onCached = vi.fn();
+
+    await lookupWord('Word', 'the  context');
+    await lookupWord(' word ', 'the context', { onCached });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onCached).toHaveBeenCalledWith(expect.any(Number));
+
+    await lookupWord('word', 'the context', { forceRefresh: true });
+    await lookupWord('word', 'another context');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('providers', () => {
+  afterEach(() => {
+    settings.current = { ...settings.current, provider: 'edge' };
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the provider picked in settings, caching its answers separately', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => Response.json({ definition: 'from the cloud', pronunciation: '' }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { lookupWord } = await loadService();
+
+    expect((await lookupWord('pivot', 'a pivot')).definition).toBe('from the cloud');
+    settings.current = { ...settings.current, provider: 'mock' };
+
+    expect((await lookupWord('pivot', 'a pivot')).definition).toBe('A change of direction or strategy.');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
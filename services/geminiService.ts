@@ -1,65 +1,273 @@
 
-import { AnalysisResult, GeneratedPractice, SourceType, VocabularyItem } from "../types";
+import { AnalysisResult, AnswerGrade, GeneratedPractice, GradeAnswerRequest, SourceType, VocabularyItem } from "../types";
+import { mergeAnalysisResults, splitIntoChunks } from "./chunkService";
+import { isRetryable, RateLimitError, TimeoutError } from "./apiErrors";
+import { authService } from "./authService";
+import { CacheKind, normalizeForCache, responseCache } from "./responseCache";
+import { usageService, UsageKind } from "./usageService";
+import { validateAnalysisResult, validateGrade, validateLookup, validatePractice } from "./schemaService";
+import { getActiveProvider, WordDefinition } from "./providers";
 
-// Get Supabase URL from environment
-const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
-const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+export interface RequestOptions {
+  // Abort to cancel the call, including any retries still to come
+  signal?: AbortSignal;
+  // Give up after this long, counting the whole call including a streamed body
+  timeoutMs?: number;
+  // Extra attempts after a 429 or 5xx reply
+  retries?: number;
+  // Skip the response cache and fetch a fresh answer (which then replaces the cached one)
+  forceRefresh?: boolean;
+  // Called with the original fetch time when the answer came from the cache
+  onCached?: (cachedAt: number) => void;
+}
 
-// Helper to call Edge Functions
-const callEdgeFunction = async (functionName: string, body: object) => {
-  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
-    throw new Error('Supabase not configured');
-  }
+const DEFAULT_TIMEOUT_MS = 60_000;
+// Analyses stream for a while; a lookup sits in a popup the user is waiting on
+const ANALYSIS_TIMEOUT_MS = 120_000;
+const LOOKUP_TIMEOUT_MS = 20_000;
+const DEFAULT_RETRIES = 2;
+// Backoff doubles from here between attempts, unless the server says how long to wait
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 15_000;
 
-  const response = await fetch(`${SUPABASE_URL}/functions/v1/${functionName}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-    },
-    body: JSON.stringify(body),
+// Resolve after `ms`, or reject straight away if the signal aborts
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
   });
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(error.error || `Failed to call ${functionName}`);
+const retryDelay = (error: unknown, attempt: number) => {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, RETRY_MAX_DELAY_MS);
+  }
+  const jitter = Math.random() * RETRY_BASE_DELAY_MS / 4;
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt + jitter, RETRY_MAX_DELAY_MS);
+};
+
+/**
+ * Run `task` with a signal that aborts when the caller's signal does or when
+ * the timeout runs out, in which case the call fails with a TimeoutError.
+ * Failed attempts are retried with exponential backoff while isRetryable.
+ */
+const withRequestPolicy = async <T>(
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES }: RequestOptions,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new TimeoutError()), timeoutMs);
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        controller.signal.throwIfAborted();
+        return await task(controller.signal);
+      } catch (e) {
+        if (controller.signal.aborted) throw controller.signal.reason;
+        if (!isRetryable(e) || attempt >= retries) throw e;
+        console.warn(`Request failed, retrying (${attempt + 1}/${retries})`, e);
+        await sleep(retryDelay(e, attempt), controller.signal);
+      }
+    }
+  } catch (e) {
+    // Aborting mid-sleep rejects with the reason too; surface it the same way
+    throw controller.signal.aborted ? controller.signal.reason : e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
   }
+};
 
-  return response.json();
+/**
+ * Check the caller's allowance for `kind`, run the call and count it once it
+ * succeeds. Cancelled and failed calls aren't counted, and neither are calls
+ * to providers the app doesn't pay for.
+ */
+const metered = async <T>(kind: UsageKind, run: () => Promise<T>): Promise<T> => {
+  if (!getActiveProvider().info.isMetered) return run();
+  const userId = (await authService.getSession())?.user.id ?? null;
+  usageService.assertAllowed(kind, userId);
+  const result = await run();
+  usageService.record(kind, userId);
+  return result;
+};
+
+/**
+ * Answer from the response cache when it holds a fresh entry for `input`,
+ * otherwise fetch, and remember the answer. Entries are kept per provider and
+ * model. Cache hits don't count against the usage allowance, since
+ * `fetchFresh` is where metering happens.
+ */
+const withCache = async <T>(
+  kind: CacheKind,
+  input: unknown,
+  { forceRefresh, onCached }: RequestOptions,
+  validate: (raw: unknown) => T,
+  fetchFresh: () => Promise<T>
+): Promise<T> => {
+  const key = await responseCache.keyFor(kind, { provider: getActiveProvider().cacheScope, input });
+  const hit = key && !forceRefresh ? await responseCache.get(key) : null;
+  if (hit) {
+    try {
+      const value = validate(hit.value);
+      onCached?.(hit.createdAt);
+      return value;
+    } catch {
+      console.warn('Ignoring a cached answer that no longer validates');
+    }
+  }
+
+  const fresh = await fetchFresh();
+  if (key) await responseCache.set(kind, key, fresh);
+  return fresh;
 };
 
 // --- Text Analysis (Deep Vocab Focus) ---
 
-export const analyzeText = async (text: string, sourceType: SourceType): Promise<AnalysisResult> => {
-  console.log('Calling analyze-text Edge Function...');
-  
-  const result = await callEdgeFunction('analyze-text', { text, sourceType });
-  
-  console.log('Analysis complete!');
-  return result as AnalysisResult;
+interface AnalysisOptions extends RequestOptions {
+  // The result so far, each time more of it arrives (only from providers that stream)
+  onPartial?: (partial: AnalysisResult) => void;
+}
+
+/**
+ * Analyze one piece of text with the active provider
+ */
+export const analyzeText = (
+  text: string,
+  sourceType: SourceType,
+  { onPartial, timeoutMs = ANALYSIS_TIMEOUT_MS, ...options }: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const { provider } = getActiveProvider();
+  return withRequestPolicy({ ...options, timeoutMs }, signal => provider.analyzeText(text, sourceType, signal, onPartial));
 };
 
-// --- Topic Strategy (Structure + Vocab) ---
+export interface ChunkProgress {
+  completed: number;
+  total: number;
+}
+
+interface ChunkedAnalysisOptions extends RequestOptions {
+  concurrency?: number;
+  onProgress?: (progress: ChunkProgress) => void;
+  // Everything analyzed so far, merged across parts, as results stream in
+  onPartial?: (partial: AnalysisResult) => void;
+}
+
+// Parallel calls per analysis; kept low so long books don't hit rate limits
+const CHUNK_CONCURRENCY = 2;
+
+/**
+ * Analyze text of any length: long inputs are split on paragraph/cue boundaries,
+ * analyzed a few chunks at a time, and merged into a single result.
+ * Aborting the signal stops queued chunks and cancels in-flight requests.
+ */
+export const analyzeTextChunked = (text: string, sourceType: SourceType, options: ChunkedAnalysisOptions = {}): Promise<AnalysisResult> =>
+  withCache('analysis', { text: normalizeForCache(text), sourceType }, options, validateAnalysisResult, () =>
+    // However many parts it takes, one analysis counts once against the allowance
+    metered('analysis', () => analyzeInChunks(text, sourceType, options))
+  );
+
+const analyzeInChunks = async (
+  text: string,
+  sourceType: SourceType,
+  { concurrency = CHUNK_CONCURRENCY, onProgress, onPartial, ...options }: ChunkedAnalysisOptions
+): Promise<AnalysisResult> => {
+  const chunks = splitIntoChunks(text);
+  const results: AnalysisResult[] = new Array(chunks.length);
+  // Latest result per part, finished or not, kept in text order
+  const partials: AnalysisResult[] = new Array(chunks.length);
+  let nextIndex = 0;
+  let completed = 0;
 
-export const generateTopicStrategy = async (topic: string): Promise<AnalysisResult> => {
-  console.log('Calling generate-strategy Edge Function...');
-  
-  const result = await callEdgeFunction('generate-strategy', { topic });
-  
-  console.log('Strategy generation complete!');
-  return result as AnalysisResult;
+  // One failed part stops the rest: the caller aborting or any worker failing cancels every request
+  const controller = new AbortController();
+  const stop = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', stop, { once: true });
+  if (options.signal?.aborted) stop();
+
+  const reportPartial = (index: number, partial: AnalysisResult) => {
+    if (controller.signal.aborted) return;
+    partials[index] = partial;
+    onPartial?.(mergeAnalysisResults(partials.filter(Boolean)));
+  };
+
+  onProgress?.({ completed, total: chunks.length });
+
+  const worker = async () => {
+    while (nextIndex < chunks.length) {
+      controller.signal.throwIfAborted();
+      const index = nextIndex++;
+      results[index] = await analyzeText(chunks[index], sourceType, {
+        ...options,
+        signal: controller.signal,
+        onPartial: partial => reportPartial(index, partial),
+      });
+      reportPartial(index, results[index]);
+      completed++;
+      if (!controller.signal.aborted) onProgress?.({ completed, total: chunks.length });
+    }
+  };
+
+  const failFast = async () => {
+    try {
+      await worker();
+    } catch (e) {
+      if (!controller.signal.aborted) controller.abort(e);
+      throw e;
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, failFast));
+  } finally {
+    options.signal?.removeEventListener('abort', stop);
+  }
+  return mergeAnalysisResults(results);
 };
 
+// --- Topic Strategy (Structure + Vocab) ---
+
+export const generateTopicStrategy = (topic: string, options: RequestOptions = {}): Promise<AnalysisResult> =>
+  withCache('strategy', normalizeForCache(topic).toLowerCase(), options, validateAnalysisResult, () => {
+    const { provider } = getActiveProvider();
+    return metered('analysis', () => withRequestPolicy(options, signal => provider.generateTopicStrategy(topic, signal)));
+  });
+
 // --- Practice Generation ---
 
-export const generatePractice = async (vocabulary: VocabularyItem[]): Promise<GeneratedPractice> => {
-  console.log('Calling generate-practice Edge Function...');
-  
-  const result = await callEdgeFunction('generate-practice', { vocabulary });
-  
-  console.log('Practice generation complete!');
-  return result as GeneratedPractice;
-};
+export const generatePractice = (vocabulary: VocabularyItem[], options: RequestOptions = {}): Promise<GeneratedPractice> =>
+  withCache('practice', vocabulary.map(item => normalizeForCache(item.term).toLowerCase()), options, validatePractice, () => {
+    const { provider } = getActiveProvider();
+    return metered('practice', () => withRequestPolicy(options, signal => provider.generatePractice(vocabulary, signal)));
+  });
+
+// --- Answer Grading ---
+
+/**
+ * Judge a learner's own attempt at a practice sentence against its target expression
+ */
+export const gradeAnswer = (request: GradeAnswerRequest, options: RequestOptions = {}): Promise<AnswerGrade> =>
+  withCache('grading', {
+    target: normalizeForCache(request.target_term).toLowerCase(),
+    concept: normalizeForCache(request.original_concept),
+    answer: normalizeForCache(request.answer),
+  }, options, validateGrade, () => {
+    const { provider } = getActiveProvider();
+    return metered('grading', () =>
+      withRequestPolicy({ timeoutMs: LOOKUP_TIMEOUT_MS, ...options }, signal => provider.gradeAnswer(request, signal))
+    );
+  });
 
 // --- Text to Speech (Browser-based fallback) ---
 
@@ -83,11 +291,10 @@ export const generateSpeech = async (text: string): Promise<void> => {
 
 // --- Word Lookup ---
 
-export const lookupWord = async (word: string, context: string): Promise<{ definition: string; pronunciation: string }> => {
-  console.log('Calling lookup-word Edge Function...');
-  
-  const result = await callEdgeFunction('lookup-word', { word, context });
-  
-  console.log('Word lookup complete!');
-  return result as { definition: string; pronunciation: string };
-};
+export const lookupWord = (word: string, context: string, options: RequestOptions = {}): Promise<WordDefinition> =>
+  withCache('lookup', { word: normalizeForCache(word).toLowerCase(), context: normalizeForCache(context) }, options, validateLookup, () => {
+    const { provider } = getActiveProvider();
+    return metered('lookup', () =>
+      withRequestPolicy({ timeoutMs: LOOKUP_TIMEOUT_MS, ...options }, signal => provider.lookupWord(word, context, signal))
+    );
+  });
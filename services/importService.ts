@@ -0,0 +1,209 @@
+import { AnalysisFolder, ExportPayload, SavedAnalysis, SavedVocabularyItem } from '../types';
+import { isObject, upgradeSavedAnalysis, upgradeSavedVocabularyItem } from './schemaService';
+
+// Export versions this build knows how to read
+const SUPPORTED_VERSIONS = ['1.0', '1.1'];
+
+export type ImportCollection = 'analyses' | 'folders' | 'vocabulary';
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+export interface ImportData {
+  analyses: SavedAnalysis[];
+  folders: AnalysisFolder[];
+  vocabulary: SavedVocabularyItem[];
+}
+
+export interface ImportConflict {
+  key: string; // `${collection}:${id}`
+  collection: ImportCollection;
+  id: string;
+  label: string;
+  mine: SavedAnalysis | AnalysisFolder | SavedVocabularyItem;
+  theirs: SavedAnalysis | AnalysisFolder | SavedVocabularyItem;
+}
+
+export interface ImportPlan {
+  incoming: ImportData;
+  conflicts: ImportConflict[];
+  newCounts: Record<ImportCollection, number>;
+}
+
+export interface ImportResult {
+  merged: ImportData;
+  // Records the cloud copy needs to learn about
+  added: ImportData;
+  replaced: ImportData;
+}
+
+const isValidAnalysis = (value: unknown): value is SavedAnalysis =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.date === 'number' &&
+  typeof value.inputText === 'string' &&
+  isObject(value.analysisResult) &&
+  Array.isArray(value.analysisResult.vocabulary);
+
+const isValidFolder = (value: unknown): value is AnalysisFolder =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+const isValidVocabulary = (value: unknown): value is SavedVocabularyItem =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.term === 'string' &&
+  typeof value.definition === 'string';
+
+const readCollection = <T>(data: Record<string, unknown>, key: string, isValid: (v: unknown) => v is T): T[] => {
+  const value = data[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid export file: "${key}" should be a list.`);
+  }
+  const invalidIndex = value.findIndex(item => !isValid(item));
+  if (invalidIndex !== -1) {
+    throw new Error(`Invalid export file: entry ${invalidIndex + 1} in "${key}" is malformed.`);
+  }
+  return value;
+};
+
+/**
+ * Parse and validate the JSON produced by dataService.exportToJson
+ */
+export const parseExportFile = (text: string): ImportData => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  if (!isObject(parsed) || parsed.appName !== 'NativeNuance' || !isObject(parsed.data)) {
+    throw new Error('This file is not a NativeNuance export.');
+  }
+
+  const version = String(parsed.version ?? '');
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported export version "${version}". Please update the app and try again.`);
+  }
+
+  const data = (parsed as unknown as ExportPayload).data as unknown as Record<string, unknown>;
+  return {
+    analyses: readCollection(data, 'analyses', isValidAnalysis).map(upgradeSavedAnalysis),
+    folders: readCollection(data, 'folders', isValidFolder),
+    vocabulary: readCollection(data, 'vocabulary', isValidVocabulary).map(upgradeSavedVocabularyItem),
+  };
+};
+
+const labelFor = (collection: ImportCollection, record: ImportConflict['mine']): string => {
+  if (collection === 'analyses') {
+    const analysis = record as SavedAnalysis;
+    return analysis.fileName || analysis.analysisResult.summary.substring(0, 40) + '...';
+  }
+  if (collection === 'folders') return (record as AnalysisFolder).name;
+  return (record as SavedVocabularyItem).term;
+};
+
+/**
+ * Compare an import against local data. Records with the same id and identical
+ * content are skipped silently; differing ones become conflicts.
+ */
+export const planImport = (local: ImportData, incoming: ImportData): ImportPlan => {
+  const conflicts: ImportConflict[] = [];
+  const newCounts: Record<ImportCollection, number> = { analyses: 0, folders: 0, vocabulary: 0 };
+
+  (['analyses', 'folders', 'vocabulary'] as ImportCollection[]).forEach(collection => {
+    const localRecords: ImportConflict['mine'][] = local[collection];
+    const localById = new Map(localRecords.map(r => [r.id, r] as const));
+    const incomingRecords: ImportConflict['theirs'][] = incoming[collection];
+    incomingRecords.forEach(theirs => {
+      const mine = localById.get(theirs.id);
+      if (!mine) {
+        newCounts[collection]++;
+      } else if (JSON.stringify(mine) !== JSON.stringify(theirs)) {
+        conflicts.push({
+          key: `${collection}:${theirs.id}`,
+          collection,
+          id: theirs.id,
+          label: labelFor(collection, mine),
+          mine,
+          theirs,
+        });
+      }
+    });
+  });
+
+  return { incoming, conflicts, newCounts };
+};
+
+/**
+ * Merge an import into local data by id, applying the chosen resolution to
+ * each conflict. Unresolved conflicts keep the local copy.
+ */
+export const applyImport = (
+  local: ImportData,
+  plan: ImportPlan,
+  resolutions: Record<string, ConflictResolution>
+): ImportResult => {
+  const added: ImportData = { analyses: [], folders: [], vocabulary: [] };
+  const replaced: ImportData = { analyses: [], folders: [], vocabulary: [] };
+  const conflictKeys = new Set(plan.conflicts.map(c => c.key));
+
+  // Folders kept side by side get a fresh id; imported analyses must follow them
+  const folderIdMap = new Map<string, string>();
+
+  const resolve = <T extends { id: string }>(collection: ImportCollection, localItems: T[], incomingItems: T[], copy: (item: T) => T): T[] => {
+    const result = [...localItems];
+    const indexById = new Map(result.map((item, idx) => [item.id, idx]));
+
+    incomingItems.forEach(theirs => {
+      const key = `${collection}:${theirs.id}`;
+      const localIdx = indexById.get(theirs.id);
+
+      if (localIdx === undefined) {
+        result.push(theirs);
+        (added[collection] as unknown as T[]).push(theirs);
+        return;
+      }
+      if (!conflictKeys.has(key)) return; // Identical copy
+
+      const resolution = resolutions[key] ?? 'mine';
+      if (resolution === 'theirs') {
+        result[localIdx] = theirs;
+        (replaced[collection] as unknown as T[]).push(theirs);
+      } else if (resolution === 'both') {
+        const duplicate = copy(theirs);
+        result.push(duplicate);
+        (added[collection] as unknown as T[]).push(duplicate);
+      }
+    });
+
+    return result;
+  };
+
+  const folders = resolve('folders', local.folders, plan.incoming.folders, folder => {
+    const id = crypto.randomUUID();
+    folderIdMap.set(folder.id, id);
+    return { ...folder, id, name: `${folder.name} (imported)` };
+  });
+
+  const remapFolder = (analysis: SavedAnalysis): SavedAnalysis =>
+    analysis.folderId && folderIdMap.has(analysis.folderId)
+      ? { ...analysis, folderId: folderIdMap.get(analysis.folderId) }
+      : analysis;
+
+  const analyses = resolve('analyses', local.analyses, plan.incoming.analyses.map(remapFolder), analysis => ({
+    ...analysis,
+    id: crypto.randomUUID(),
+    fileName: analysis.fileName ? `${analysis.fileName} (imported)` : analysis.fileName,
+  }));
+
+  const vocabulary = resolve('vocabulary', local.vocabulary, plan.incoming.vocabulary, item => ({
+    ...item,
+    id: crypto.randomUUID(),
+  }));
+
+  return {
+    merged: { analyses, folders, vocabulary },
+    added,
+    replaced,
+  };
+};
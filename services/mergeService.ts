@@ -0,0 +1,274 @@
+import { AnalysisFolder, AnalysisSyncField, FolderSyncField, Note, SavedAnalysis } from '../types';
+import type { RealtimeChange } from './dataService';
+
+const ANALYSIS_FIELDS: AnalysisSyncField[] = ['date', 'sourceType', 'inputText', 'analysisResult', 'fileName', 'folderId'];
+const FOLDER_FIELDS: FolderSyncField[] = ['name', 'color'];
+
+const LAST_SYNC_KEY = 'nativeNuance_lastSyncAt';
+
+// A field both devices edited since the last sync; the newer edit was kept
+export interface MergeConflict {
+  collection: 'analyses' | 'folders';
+  id: string;
+  label: string;
+  field: string;
+  kept: 'local' | 'cloud';
+  localValue: string;
+  cloudValue: string;
+}
+
+export interface MergeResult<T> {
+  merged: T[];
+  // Records whose merged copy differs from the cloud and must be written back
+  toUpload: T[];
+  conflicts: MergeConflict[];
+}
+
+interface Tracked<F extends string> {
+  id: string;
+  updatedAt?: number;
+  fieldUpdatedAt?: Partial<Record<F, number>>;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const preview = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'string') return value.length > 80 ? `${value.substring(0, 80)}...` : value;
+  if (typeof value === 'object' && 'summary' in (value as object)) {
+    return preview((value as { summary: string }).summary);
+  }
+  return String(value);
+};
+
+// Records saved before per-field tracking fall back to their record-level time
+const fieldTime = <F extends string>(record: Tracked<F>, field: F, fallback: number): number =>
+  record.fieldUpdatedAt?.[field] ?? record.updatedAt ?? fallback;
+
+// ==================== STAMPING ====================
+
+/**
+ * Stamp an edited record with the time each changed field was modified.
+ * Call with the previous version (or undefined for a new record).
+ */
+const stamp = <T extends Tracked<F>, F extends string>(fields: F[], previous: T | undefined, next: T, now: number): T => {
+  const fieldUpdatedAt = { ...(previous?.fieldUpdatedAt || {}) } as Partial<Record<F, number>>;
+  fields.forEach(field => {
+    const prevValue = previous ? (previous as unknown as Record<F, unknown>)[field] : undefined;
+    const nextValue = (next as unknown as Record<F, unknown>)[field];
+    if (!previous || !sameValue(prevValue, nextValue)) fieldUpdatedAt[field] = now;
+  });
+  return { ...next, updatedAt: now, fieldUpdatedAt };
+};
+
+export const stampAnalysis = (previous: SavedAnalysis | undefined, next: SavedAnalysis, now: number = Date.now()): SavedAnalysis =>
+  stamp(ANALYSIS_FIELDS, previous, next, now);
+
+export const stampFolder = (previous: AnalysisFolder | undefined, next: AnalysisFolder, now: number = Date.now()): AnalysisFolder =>
+  stamp(FOLDER_FIELDS, previous, next, now);
+
+// ==================== MERGING ====================
+
+const noteTime = (note: Note): number => note.updatedAt ?? note.timestamp;
+
+/**
+ * Union of both note lists. A note missing on one side is kept if it was added
+ * after the last sync, and treated as deleted if that side had already seen it.
+ */
+export const mergeNotes = (local: Note[] = [], cloud: Note[] = [], lastSyncAt: number): Note[] => {
+  const localById = new Map(local.map(n => [n.id, n]));
+  const cloudById = new Map(cloud.map(n => [n.id, n]));
+  const merged: Note[] = [];
+
+  new Set([...localById.keys(), ...cloudById.keys()]).forEach(id => {
+    const mine = localById.get(id);
+    const theirs = cloudById.get(id);
+    if (mine && theirs) merged.push(noteTime(theirs) > noteTime(mine) ? theirs : mine);
+    else {
+      const only = (mine || theirs)!;
+      if (noteTime(only) > lastSyncAt) merged.push(only);
+    }
+  });
+
+  return merged.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+const mergeRecord = <T extends Tracked<F>, F extends string>(
+  fields: F[],
+  local: T,
+  cloud: T,
+  lastSyncAt: number | null,
+  describe: (field: F, kept: 'local' | 'cloud') => MergeConflict
+): { merged: T; conflicts: MergeConflict[] } => {
+  const merged = { ...cloud, fieldUpdatedAt: { ...(cloud.fieldUpdatedAt || {}) } } as T;
+  const conflicts: MergeConflict[] = [];
+  const localFallback = local.updatedAt ?? 0;
+  const cloudFallback = cloud.updatedAt ?? 0;
+
+  fields.forEach(field => {
+    const localValue = (local as unknown as Record<F, unknown>)[field];
+    const cloudValue = (cloud as unknown as Record<F, unknown>)[field];
+    if (sameValue(localValue, cloudValue)) return;
+
+    const localTime = fieldTime(local, field, localFallback);
+    const cloudTime = fieldTime(cloud, field, cloudFallback);
+    const kept = localTime > cloudTime ? 'local' : 'cloud';
+    if (kept === 'local') {
+      (merged as unknown as Record<F, unknown>)[field] = localValue;
+      merged.fieldUpdatedAt![field] = localTime;
+    }
+
+    // Without a previous sync there's no way to tell who edited what
+    if (lastSyncAt !== null && localTime > lastSyncAt && cloudTime > lastSyncAt) {
+      conflicts.push(describe(field, kept));
+    }
+  });
+
+  merged.updatedAt = Math.max(local.updatedAt ?? 0, cloud.updatedAt ?? 0) || undefined;
+  return { merged, conflicts };
+};
+
+const mergeCollections = <T extends Tracked<F>, F extends string>(
+  local: T[],
+  cloud: T[],
+  lastSyncAt: number | null,
+  mergePair: (local: T, cloud: T) => { merged: T; conflicts: MergeConflict[] },
+  isDeletedLocally: (id: string) => boolean
+): MergeResult<T> => {
+  const cloudById = new Map(cloud.map(r => [r.id, r]));
+  const localIds = new Set(local.map(r => r.id));
+  const merged: T[] = [];
+  const toUpload: T[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  local.forEach(mine => {
+    const theirs = cloudById.get(mine.id);
+    if (!theirs) {
+      // Unchanged since the last sync yet gone from the cloud: deleted on another device
+      if (lastSyncAt !== null && (mine.updatedAt ?? 0) <= lastSyncAt) return;
+      merged.push(mine);
+      toUpload.push(mine);
+      return;
+    }
+    const result = mergePair(mine, theirs);
+    merged.push(result.merged);
+    conflicts.push(...result.conflicts);
+    if (!sameValue(result.merged, theirs)) toUpload.push(result.merged);
+  });
+
+  cloud.forEach(theirs => {
+    if (!localIds.has(theirs.id) && !isDeletedLocally(theirs.id)) merged.push(theirs);
+  });
+
+  return { merged, toUpload, conflicts };
+};
+
+/**
+ * Merge local and cloud analyses: last writer wins per field, notes are
+ * union-merged, and fields edited on both sides since lastSyncAt are reported.
+ */
+export const mergeAnalyses = (
+  local: SavedAnalysis[],
+  cloud: SavedAnalysis[],
+  lastSyncAt: number | null,
+  isDeletedLocally: (id: string) => boolean = () => false
+): MergeResult<SavedAnalysis> => {
+  const result = mergeCollections(local, cloud, lastSyncAt, (mine, theirs) => {
+    const { merged, conflicts } = mergeRecord(ANALYSIS_FIELDS, mine, theirs, lastSyncAt, (field, kept) => ({
+      collection: 'analyses',
+      id: mine.id,
+      label: mine.fileName || theirs.fileName || mine.analysisResult.summary.substring(0, 40) + '...',
+      field,
+      kept,
+      localValue: preview(mine[field]),
+      cloudValue: preview(theirs[field]),
+    }));
+    return { merged: { ...merged, notes: mergeNotes(mine.notes, theirs.notes, lastSyncAt ?? 0) }, conflicts };
+  }, isDeletedLocally);
+
+  return { ...result, merged: result.merged.sort((a, b) => b.date - a.date) };
+};
+
+export const mergeFolders = (
+  local: AnalysisFolder[],
+  cloud: AnalysisFolder[],
+  lastSyncAt: number | null,
+  isDeletedLocally: (id: string) => boolean = () => false
+): MergeResult<AnalysisFolder> => {
+  const result = mergeCollections(local, cloud, lastSyncAt, (mine, theirs) =>
+    mergeRecord(FOLDER_FIELDS, mine, theirs, lastSyncAt, (field, kept) => ({
+      collection: 'folders',
+      id: mine.id,
+      label: mine.name,
+      field,
+      kept,
+      localValue: preview(mine[field]),
+      cloudValue: preview(theirs[field]),
+    })), isDeletedLocally);
+
+  return { ...result, merged: result.merged.sort((a, b) => a.createdAt - b.createdAt) };
+};
+
+// ==================== REALTIME ====================
+
+const applyChange = <T extends { id: string }>(
+  local: T[],
+  change: RealtimeChange<T>,
+  merge: (local: T[], cloud: T[]) => MergeResult<T>
+): T[] => {
+  if (change.type === 'delete') return local.filter(r => r.id !== change.id);
+
+  const existing = local.find(r => r.id === change.record.id);
+  const [merged] = merge(existing ? [existing] : [], [change.record]).merged;
+  if (!merged) return local;
+  return existing
+    ? local.map(r => r.id === merged.id ? merged : r)
+    : [...local, merged];
+};
+
+/**
+ * Apply an analysis change pushed from another device. It is merged with the
+ * local copy like a login sync, so edits still waiting in the outbox survive.
+ */
+export const applyRemoteAnalysis = (
+  local: SavedAnalysis[],
+  change: RealtimeChange<SavedAnalysis>,
+  lastSyncAt: number | null,
+  isDeletedLocally: (id: string) => boolean = () => false
+): SavedAnalysis[] =>
+  applyChange(local, change, (mine, theirs) => mergeAnalyses(mine, theirs, lastSyncAt, isDeletedLocally))
+    .sort((a, b) => b.date - a.date);
+
+export const applyRemoteFolder = (
+  local: AnalysisFolder[],
+  change: RealtimeChange<AnalysisFolder>,
+  lastSyncAt: number | null,
+  isDeletedLocally: (id: string) => boolean = () => false
+): AnalysisFolder[] =>
+  applyChange(local, change, (mine, theirs) => mergeFolders(mine, theirs, lastSyncAt, isDeletedLocally))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+// ==================== LAST SYNC ====================
+
+/**
+ * When this device last finished merging with the cloud, per user
+ */
+export const getLastSyncAt = (userId: string): number | null => {
+  try {
+    const map = JSON.parse(localStorage.getItem(LAST_SYNC_KEY) || '{}');
+    return typeof map[userId] === 'number' ? map[userId] : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setLastSyncAt = (userId: string, time: number): void => {
+  let map: Record<string, number> = {};
+  try {
+    map = JSON.parse(localStorage.getItem(LAST_SYNC_KEY) || '{}');
+  } catch {
+    // Corrupt marker: start over
+  }
+  localStorage.setItem(LAST_SYNC_KEY, JSON.stringify({ ...map, [userId]: time }));
+};
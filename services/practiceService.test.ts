@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { FlashcardLog, FlashcardResult, SavedVocabularyItem, VocabularyItem } from '../types';
+import { rankForPractice, summarizeFlashcardLogs } from './practiceService';
+import { createReviewState } from './srsService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY_MS;
+
+const item = (term: string): VocabularyItem => ({ term, definition: `${term} means something`, category: 'idioms_fixed', examples: [] });
+
+// Answers are timestamped in the order they're created
+let answeredAt = NOW - DAY_MS;
+const logs = (term: string, ...results: FlashcardResult[]): FlashcardLog[] =>
+  results.map(result => ({ id: crypto.randomUUID(), term, analysisId: null, result, answeredAt: answeredAt++ }));
+
+const saved = (term: string, dueInDays: number, intervalDays: number): SavedVocabularyItem => ({
+  ...item(term),
+  id: term,
+  dateAdded: 0,
+  analysisId: null,
+  review: { ...createReviewState(0), intervalDays, repetitions: 2, dueDate: NOW + dueInDays * DAY_MS, lastReviewedAt: NOW - intervalDays * DAY_MS },
+});
+
+describe('summarizeFlashcardLogs', () => {
+  it('tracks recent misses and the current streak per term, whatever the case', () => {
+    const stats = summarizeFlashcardLogs([...logs('Pivot', 'incorrect', 'skipped', 'correct'), ...logs('pivot', 'correct')]);
+
+    expect(stats.get('pivot')).toEqual(expect.objectContaining({ attempts: 4, recentMissRate: 0.5, correctStreak: 2 }));
+  });
+});
+
+describe('rankForPractice', () => {
+  it('puts recently missed terms first, then overdue ones, then new ones', () => {
+    const ranked = rankForPractice(
+      [item('going well'), item('new'), item('overdue'), item('missed')],
+      [...logs('missed', 'incorrect', 'skipped'), ...logs('going well', 'correct')],
+      [saved('overdue', -14, 6)],
+      NOW
+    );
+
+    expect(ranked.map(entry => entry.term)).toEqual(['missed', 'overdue', 'new', 'going well']);
+  });
+
+  it('holds back mastered terms, unless the latest answer was a miss', () => {
+    const ranked = rankForPractice(
+      [item('streak'), item('long interval'), item('slipped')],
+      [...logs('streak', 'incorrect', 'correct', 'correct', 'correct'), ...logs('slipped', 'correct', 'incorrect')],
+      [saved('long interval', 10, 30), saved('slipped', 10, 30)],
+      NOW
+    );
+
+    expect(ranked.map(entry => entry.term)).toEqual(['slipped']);
+  });
+
+  it('merges a term that appears in several analyses', () => {
+    const ranked = rankForPractice([item('pivot'), item('headwinds'), item(' Pivot ')], [], [], NOW);
+
+    expect(ranked.map(entry => entry.term)).toEqual(['pivot', 'headwinds']);
+  });
+});
@@ -0,0 +1,102 @@
+import { FlashcardLog, ReviewState, SavedVocabularyItem, VocabularyItem } from '../types';
+import { normalizeTerm } from './srsService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A term counts as mastered after this many correct flashcard answers in a row...
+export const MASTERY_STREAK = 3;
+// ...or once spaced repetition has pushed its next review this far out
+export const MASTERED_INTERVAL_DAYS = 21;
+// Only the latest answers say how weak a term is now
+const RECENT_ANSWERS = 5;
+
+// Priority weights: a term missed every recent time outranks one a month overdue
+const MISS_RATE_WEIGHT = 4;
+const OVERDUE_WEEK_WEIGHT = 1;
+const MAX_OVERDUE_WEEKS = 4;
+// Never-practiced terms come after known weak spots but before terms going well
+const UNPRACTICED_PRIORITY = 1;
+
+export interface TermStats {
+  attempts: number;
+  // Share of the last few answers that were wrong or skipped, 0-1
+  recentMissRate: number;
+  // Correct answers since the last miss
+  correctStreak: number;
+  lastAnsweredAt: number;
+}
+
+/**
+ * Flashcard history per normalized term
+ */
+export const summarizeFlashcardLogs = (logs: FlashcardLog[]): Map<string, TermStats> => {
+  const byTerm = new Map<string, FlashcardLog[]>();
+  [...logs].sort((a, b) => a.answeredAt - b.answeredAt).forEach(log => {
+    const key = normalizeTerm(log.term);
+    byTerm.set(key, [...(byTerm.get(key) || []), log]);
+  });
+
+  const stats = new Map<string, TermStats>();
+  byTerm.forEach((termLogs, key) => {
+    const recent = termLogs.slice(-RECENT_ANSWERS);
+    let correctStreak = 0;
+    for (let i = termLogs.length - 1; i >= 0 && termLogs[i].result === 'correct'; i--) correctStreak++;
+    stats.set(key, {
+      attempts: termLogs.length,
+      recentMissRate: recent.filter(log => log.result !== 'correct').length / recent.length,
+      correctStreak,
+      lastAnsweredAt: termLogs[termLogs.length - 1].answeredAt,
+    });
+  });
+  return stats;
+};
+
+/**
+ * Mastered terms are held back from new practice batches. A long review
+ * interval only counts if the latest flashcard answer wasn't a miss.
+ */
+export const isMastered = (stats: TermStats | undefined, review: ReviewState | undefined): boolean => {
+  if (stats && stats.correctStreak >= MASTERY_STREAK) return true;
+  return (review?.intervalDays ?? 0) >= MASTERED_INTERVAL_DAYS && (!stats || stats.correctStreak > 0);
+};
+
+/**
+ * How much a term needs practice: recent misses count most, then how long
+ * its spaced-repetition review is overdue
+ */
+export const practicePriority = (stats: TermStats | undefined, review: ReviewState | undefined, now: number = Date.now()): number => {
+  const overdueWeeks = review ? Math.min(Math.max(0, now - review.dueDate) / (7 * DAY_MS), MAX_OVERDUE_WEEKS) : 0;
+  const weakness = stats ? stats.recentMissRate * MISS_RATE_WEIGHT : 0;
+  const unpracticed = !stats && !review?.lastReviewedAt ? UNPRACTICED_PRIORITY : 0;
+  return weakness + overdueWeeks * OVERDUE_WEEK_WEIGHT + unpracticed;
+};
+
+/**
+ * Order terms for practice, weakest and most overdue first, leaving out
+ * mastered ones. Duplicates (the same term in several analyses) are merged,
+ * keeping the first; ties keep the order given.
+ */
+export const rankForPractice = (
+  items: VocabularyItem[],
+  logs: FlashcardLog[],
+  savedVocabulary: SavedVocabularyItem[],
+  now: number = Date.now()
+): VocabularyItem[] => {
+  const stats = summarizeFlashcardLogs(logs);
+  const reviews = new Map(savedVocabulary.map(item => [normalizeTerm(item.term), item.review]));
+  const seen = new Set<string>();
+
+  return items
+    .filter(item => {
+      const key = normalizeTerm(item.term);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return !isMastered(stats.get(key), reviews.get(key));
+    })
+    .map(item => {
+      const key = normalizeTerm(item.term);
+      return { item, priority: practicePriority(stats.get(key), reviews.get(key), now) };
+    })
+    .sort((a, b) => b.priority - a.priority)
+    .map(({ item }) => item);
+};
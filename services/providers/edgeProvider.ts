@@ -0,0 +1,181 @@
+import { AnalysisResult, AnalyzeTextRequest, GeneratePracticeRequest, GenerateStrategyRequest, GradeAnswerRequest, LookupWordRequest, SourceType } from '../../types';
+import { authService } from '../authService';
+import { isObject, repairStructurePoint, repairVocabularyItem, validateAnalysisResult, validateGrade, validateLookup, validatePractice } from '../schemaService';
+import { ApiError } from '../apiErrors';
+import { sendRequest } from './http';
+import { AIProvider } from './types';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Send a request to an Edge Function, throwing the matching ApiError if it fails
+const requestEdgeFunction = async (functionName: string, body: object, signal: AbortSignal, accept = 'application/json') => {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Supabase not configured');
+  }
+
+  // Signed-in calls carry the user's token; the functions don't check it yet, so usage limits are client-side only
+  const accessToken = (await authService.getSession())?.access_token ?? SUPABASE_ANON_KEY;
+
+  return sendRequest(`${SUPABASE_URL}/functions/v1/${functionName}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': accept,
+      'Authorization': `Bearer ${accessToken}`,
+      'apikey': SUPABASE_ANON_KEY,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+};
+
+// Helper to call Edge Functions
+const callEdgeFunction = async (functionName: string, body: object, signal: AbortSignal) => {
+  const response = await requestEdgeFunction(functionName, body, signal);
+  return response.json();
+};
+
+// Pass each line of a newline-delimited JSON body to onValue as soon as it arrives
+const readNdjson = async (body: ReadableStream<Uint8Array>, onValue: (value: unknown) => void) => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  const flushLine = (line: string) => {
+    if (!line.trim()) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      console.warn('Skipping malformed stream line', line);
+      return;
+    }
+    onValue(value);
+  };
+
+  let isDone = false;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(flushLine);
+    }
+    isDone = true;
+    flushLine(buffer);
+  } finally {
+    // onValue threw (e.g. an error event) or the read failed: close the HTTP stream too
+    if (!isDone) await reader.cancel().catch(() => {});
+  }
+};
+
+/**
+ * Call an Edge Function that may stream its reply as NDJSON. Streamed lines go
+ * to onEvent as they arrive and the promise resolves to undefined; a function
+ * that answers with plain JSON resolves to that value instead.
+ */
+const streamEdgeFunction = async (
+  functionName: string,
+  body: object,
+  onEvent: (event: unknown) => void,
+  signal: AbortSignal
+): Promise<unknown> => {
+  const response = await requestEdgeFunction(functionName, body, signal, 'application/x-ndjson, application/json');
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!contentType.includes('ndjson') || !response.body) {
+    return response.json();
+  }
+  await readNdjson(response.body, onEvent);
+  return undefined;
+};
+
+/**
+ * Analyze one piece of text. When streaming, analyze-text sends NDJSON events
+ * in reading order: `meta` (summary and tone), then `structure` points, then
+ * `vocabulary` items, or `error`. onPartial receives the result so far after
+ * each event.
+ */
+const analyzeText = async (
+  text: string,
+  sourceType: SourceType,
+  signal: AbortSignal,
+  onPartial?: (partial: AnalysisResult) => void
+): Promise<AnalysisResult> => {
+  console.log('Calling analyze-text Edge Function...');
+
+  let partial: AnalysisResult = { summary: '', tone: '', vocabulary: [] };
+  const reply = await streamEdgeFunction('analyze-text', { text, sourceType, stream: true } satisfies AnalyzeTextRequest, event => {
+    if (!isObject(event)) return;
+    switch (event.type) {
+      case 'meta':
+        partial = { ...partial, summary: String(event.summary ?? ''), tone: String(event.tone ?? '') };
+        break;
+      case 'structure': {
+        const point = repairStructurePoint(event.point);
+        if (!point) return;
+        partial = { ...partial, structure_analysis: [...(partial.structure_analysis || []), point] };
+        break;
+      }
+      case 'vocabulary': {
+        const item = repairVocabularyItem(event.item);
+        if (!item) return;
+        partial = { ...partial, vocabulary: [...partial.vocabulary, item] };
+        break;
+      }
+      // The server's message is written for the user; it isn't retried, since the stream already started
+      case 'error': {
+        const message = String(event.error || 'The analysis stopped unexpectedly.');
+        throw new ApiError(message, undefined, message);
+      }
+      default:
+        return;
+    }
+    onPartial?.(partial);
+  }, signal);
+
+  if (reply === undefined && !partial.summary && partial.vocabulary.length === 0) {
+    throw new Error('The analysis ended before any results arrived.');
+  }
+
+  console.log('Analysis complete!');
+  return validateAnalysisResult(reply ?? partial);
+};
+
+/**
+ * The hosted Supabase Edge Functions: the default, metered per user
+ */
+export const edgeProvider: AIProvider = {
+  id: 'edge',
+
+  analyzeText,
+
+  async generateTopicStrategy(topic, signal) {
+    console.log('Calling generate-strategy Edge Function...');
+    const result = await callEdgeFunction('generate-strategy', { topic } satisfies GenerateStrategyRequest, signal);
+    console.log('Strategy generation complete!');
+    return validateAnalysisResult(result);
+  },
+
+  async generatePractice(vocabulary, signal) {
+    console.log('Calling generate-practice Edge Function...');
+    const result = await callEdgeFunction('generate-practice', { vocabulary } satisfies GeneratePracticeRequest, signal);
+    console.log('Practice generation complete!');
+    return validatePractice(result);
+  },
+
+  async gradeAnswer(request, signal) {
+    console.log('Calling grade-answer Edge Function...');
+    const result = await callEdgeFunction('grade-answer', request satisfies GradeAnswerRequest, signal);
+    console.log('Grading complete!');
+    return validateGrade(result);
+  },
+
+  async lookupWord(word, context, signal) {
+    console.log('Calling lookup-word Edge Function...');
+    const result = await callEdgeFunction('lookup-word', { word, context } satisfies LookupWordRequest, signal);
+    console.log('Word lookup complete!');
+    return validateLookup(result);
+  },
+};
@@ -0,0 +1,40 @@
+import { ApiError, errorFromStatus, NetworkError } from '../apiErrors';
+import { createPromptProvider } from './promptProvider';
+import { AIProvider, ProviderSettings } from './types';
+
+/**
+ * Gemini called straight from the browser with the user's own API key. Usage
+ * is billed to that key, so it isn't metered against the app's allowance.
+ */
+export const createGeminiProvider = ({ apiKey, model }: ProviderSettings['gemini']): AIProvider =>
+  createPromptProvider('gemini', async (prompt, signal) => {
+    if (!apiKey) {
+      throw new ApiError('Add your Gemini API key in Settings to use Gemini directly.');
+    }
+
+    // Loaded on first use so the SDK stays out of the main bundle
+    const { GoogleGenAI } = await import('@google/genai');
+    const ai = new GoogleGenAI({ apiKey });
+
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt.user,
+        config: {
+          systemInstruction: prompt.system,
+          responseMimeType: 'application/json',
+          abortSignal: signal,
+        },
+      });
+      return response.text ?? '';
+    } catch (e) {
+      if (signal.aborted) throw signal.reason;
+      // The SDK's errors carry the HTTP status; anything else never reached Google
+      const status = (e as { status?: unknown }).status;
+      if (typeof status === 'number') {
+        throw errorFromStatus(status, { detail: e instanceof Error ? e.message : undefined });
+      }
+      if (e instanceof TypeError) throw new NetworkError();
+      throw e;
+    }
+  });
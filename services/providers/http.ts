@@ -0,0 +1,20 @@
+import { errorFromResponse, NetworkError } from '../apiErrors';
+
+/**
+ * fetch, but a request that never got an answer becomes a NetworkError and a
+ * non-2xx reply becomes the matching ApiError. Aborts pass through untouched.
+ */
+export const sendRequest = async (url: string, init: RequestInit & { signal: AbortSignal }): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    if (init.signal.aborted) throw init.signal.reason;
+    throw new NetworkError();
+  }
+
+  if (!response.ok) {
+    throw await errorFromResponse(response);
+  }
+  return response;
+};
@@ -0,0 +1,90 @@
+import { edgeProvider } from './edgeProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { providerSettings } from './settings';
+import { AIProvider, ProviderId, ProviderSettings } from './types';
+
+export type { AIProvider, ProviderId, ProviderSettings, WordDefinition } from './types';
+export { providerSettings } from './settings';
+
+export interface ProviderInfo {
+  id: ProviderId;
+  label: string;
+  description: string;
+  // Counted against the app's usage allowance; other providers bill elsewhere or cost nothing
+  isMetered: boolean;
+}
+
+export const PROVIDERS: ProviderInfo[] = [
+  {
+    id: 'edge',
+    label: 'NativeNuance cloud',
+    description: 'The hosted service. Works out of the box, within your usage allowance.',
+    isMetered: true,
+  },
+  {
+    id: 'gemini',
+    label: 'Gemini (your API key)',
+    description: 'Calls Google Gemini directly from this browser, billed to your own key.',
+    isMetered: false,
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-compatible server',
+    description: 'OpenAI, or a local model through Ollama, LM Studio or llama.cpp.',
+    isMetered: false,
+  },
+  {
+    id: 'mock',
+    label: 'Offline mock',
+    description: 'Canned answers, no network. For development and demos.',
+    isMetered: false,
+  },
+];
+
+export const getProviderInfo = (id: ProviderId): ProviderInfo =>
+  PROVIDERS.find(info => info.id === id) ?? PROVIDERS[0];
+
+// Mock analyses stream in at roughly the pace of a real model
+const MOCK_DELAY_MS = 150;
+
+export const createProvider = (settings: ProviderSettings): AIProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings.gemini);
+    case 'openai':
+      return createOpenAiCompatibleProvider(settings.openai);
+    case 'mock':
+      return createMockProvider({ delayMs: MOCK_DELAY_MS });
+    case 'edge':
+    default:
+      return edgeProvider;
+  }
+};
+
+/**
+ * Which model answered, for keeping cached answers from different providers apart
+ */
+export const providerCacheScope = (settings: ProviderSettings): string => {
+  switch (settings.provider) {
+    case 'gemini':
+      return `gemini:${settings.gemini.model}`;
+    case 'openai':
+      return `openai:${settings.openai.baseUrl}:${settings.openai.model}`;
+    default:
+      return settings.provider;
+  }
+};
+
+/**
+ * The provider picked in Settings, read fresh on every call so changes apply immediately
+ */
+export const getActiveProvider = (): { provider: AIProvider; info: ProviderInfo; cacheScope: string } => {
+  const settings = providerSettings.load();
+  return {
+    provider: createProvider(settings),
+    info: getProviderInfo(settings.provider),
+    cacheScope: providerCacheScope(settings),
+  };
+};
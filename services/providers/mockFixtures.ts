@@ -0,0 +1,87 @@
+import { SourceType, StructurePoint, VocabularyItem } from '../../types';
+import { WordDefinition } from './types';
+
+/**
+ * Canned answers for the mock provider. The vocabulary matches the app's
+ * example text, so "Load example" followed by Analyze looks like the real thing.
+ */
+
+export const MOCK_VOCABULARY: VocabularyItem[] = [
+  {
+    term: 'beat expectations',
+    definition: 'To do better than people predicted, especially in business results.',
+    category: 'chunks_structures',
+    imagery_etymology: 'Like beating a rival in a race, except the rival is the forecast.',
+    examples: [
+      { context_label: 'In Business', sentence: 'Sales beat expectations for the third quarter running.' },
+      { context_label: 'In Sports', sentence: 'The underdogs beat expectations and reached the final.' },
+    ],
+  },
+  {
+    term: 'lukewarm',
+    definition: 'Showing little enthusiasm; unimpressed.',
+    category: 'nuance_sarcasm',
+    imagery_etymology: 'Water that is neither hot nor cold: a reaction with no heat in it.',
+    examples: [
+      { context_label: 'Reactions', sentence: 'The proposal got a lukewarm response from the board.', explanation: 'Polite, but clearly not excited.' },
+      { context_label: 'Reviews', sentence: 'Critics were lukewarm about the sequel.' },
+    ],
+  },
+  {
+    term: 'send (something) tumbling',
+    definition: 'To cause something, often a price, to fall quickly.',
+    category: 'phrasal_verbs',
+    examples: [
+      { context_label: 'In Markets', sentence: 'The news sent oil prices tumbling.' },
+      { context_label: 'Literal', sentence: 'The wave sent the sandcastle tumbling.' },
+    ],
+  },
+  {
+    term: 'headwinds',
+    definition: 'Conditions that make progress harder.',
+    category: 'topic_specific',
+    imagery_etymology: 'A wind blowing against a plane or a cyclist, slowing it down.',
+    examples: [
+      { context_label: 'In Business', sentence: 'Retailers face strong headwinds this winter.' },
+      { context_label: 'In Politics', sentence: 'The bill ran into political headwinds.' },
+    ],
+  },
+  {
+    term: 'priced in',
+    definition: 'Already reflected in an asset\'s price, so it won\'t move the market when it happens.',
+    category: 'idioms_fixed',
+    examples: [
+      { context_label: 'In Markets', sentence: 'A rate cut is already priced in.', explanation: 'Investors expected it, so the price already accounts for it.' },
+      { context_label: 'Everyday', sentence: 'His lateness is priced in at this point; we start without him.' },
+    ],
+  },
+  {
+    term: 'long-term play',
+    definition: 'A move expected to pay off over years rather than right away.',
+    category: 'chunks_structures',
+    examples: [
+      { context_label: 'In Business', sentence: 'Buying the startup was a long-term play.' },
+      { context_label: 'Careers', sentence: 'Taking the junior role is a long-term play for her.' },
+    ],
+  },
+];
+
+export const MOCK_STRUCTURE: StructurePoint[] = [
+  { section: 'Hook', purpose: 'Lead with the surprising contrast.', native_pattern: 'While X, Y...' },
+  { section: 'Explanation', purpose: 'Give the reasons others point to.', native_pattern: 'Analysts cite X as key factors in...' },
+  { section: 'Counterpoint', purpose: 'Offer the opposing view to balance the piece.', native_pattern: 'However, others argue that...' },
+];
+
+export const MOCK_TONES: Record<SourceType, string> = {
+  [SourceType.NEWS]: 'Analytical, measured',
+  [SourceType.TV_TRANSCRIPT]: 'Casual, conversational',
+  [SourceType.BOOK]: 'Descriptive, reflective',
+  [SourceType.EMAIL]: 'Professional, courteous',
+};
+
+export const MOCK_DEFINITIONS: Record<string, WordDefinition> = {
+  lukewarm: { definition: 'Only moderately warm; here, showing little enthusiasm.', pronunciation: '/ˌluːkˈwɔːrm/' },
+  headwinds: { definition: 'Difficulties that slow progress, like wind blowing against you.', pronunciation: '/ˈhedwɪndz/' },
+  pivot: { definition: 'A change of direction or strategy.', pronunciation: '/ˈpɪvət/' },
+  tumbling: { definition: 'Falling quickly and suddenly.', pronunciation: '/ˈtʌmblɪŋ/' },
+};
@@ -0,0 +1,126 @@
+import { AnalysisResult, VocabularyItem } from '../../types';
+import { MOCK_DEFINITIONS, MOCK_STRUCTURE, MOCK_TONES, MOCK_VOCABULARY } from './mockFixtures';
+import { AIProvider } from './types';
+
+// Terms per mock analysis; enough to fill a few categories
+const MOCK_TERM_COUNT = 5;
+
+const sentencesOf = (text: string) => text.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean);
+
+// The first sentence, shortened, stands in for a summary
+const summarize = (text: string) => {
+  const first = sentencesOf(text)[0] || text.trim();
+  return first.length > 160 ? `${first.slice(0, 157)}...` : first;
+};
+
+// Fixture terms that appear in the text come first, then the rest in fixture order
+const pickVocabulary = (text: string): VocabularyItem[] => {
+  const lower = text.toLowerCase();
+  const sentences = sentencesOf(text);
+  const appears = (item: VocabularyItem) => lower.includes(item.term.split(' ')[0].toLowerCase());
+  return [...MOCK_VOCABULARY.filter(appears), ...MOCK_VOCABULARY.filter(item => !appears(item))]
+    .slice(0, MOCK_TERM_COUNT)
+    .map(item => {
+      const keyword = item.term.split(' ')[0].toLowerCase();
+      const source = sentences.find(sentence => sentence.toLowerCase().includes(keyword));
+      return source ? { ...item, source_context: source } : item;
+    });
+};
+
+// Every word of the term (placeholders like "(something)" aside) appears, in some form
+const usesTerm = (answer: string, term: string) => {
+  const lower = answer.toLowerCase();
+  return term.toLowerCase().replace(/\([^)]*\)/g, ' ').split(/\s+/).filter(Boolean)
+    .every(word => lower.includes(word.slice(0, Math.max(4, word.length - 2))));
+};
+
+// Wait like a real model would, but give up as soon as the call is cancelled
+const pause = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal.throwIfAborted();
+    if (ms <= 0) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+/**
+ * Offline stand-in built from fixtures. The same input always gives the same
+ * answer; analyses stream in piece by piece with `delayMs` between events, so
+ * progressive rendering can be worked on without a network.
+ */
+export const createMockProvider = ({ delayMs = 0 }: { delayMs?: number } = {}): AIProvider => ({
+  id: 'mock',
+
+  async analyzeText(text, sourceType, signal, onPartial) {
+    let result: AnalysisResult = { summary: summarize(text), tone: MOCK_TONES[sourceType], vocabulary: [] };
+    const steps: ((current: AnalysisResult) => AnalysisResult)[] = [
+      current => current,
+      ...MOCK_STRUCTURE.map(point => (current: AnalysisResult) => ({
+        ...current,
+        structure_analysis: [...(current.structure_analysis || []), point],
+      })),
+      ...pickVocabulary(text).map(item => (current: AnalysisResult) => ({
+        ...current,
+        vocabulary: [...current.vocabulary, item],
+      })),
+    ];
+    for (const step of steps) {
+      await pause(delayMs, signal);
+      result = step(result);
+      onPartial?.(result);
+    }
+    return result;
+  },
+
+  async generateTopicStrategy(topic, signal) {
+    await pause(delayMs, signal);
+    return {
+      summary: `How a native speaker would talk about "${topic.trim()}".`,
+      tone: 'Conversational, confident',
+      structure_analysis: MOCK_STRUCTURE,
+      vocabulary: MOCK_VOCABULARY.slice(0, MOCK_TERM_COUNT),
+    };
+  },
+
+  async generatePractice(vocabulary, signal) {
+    await pause(delayMs, signal);
+    return {
+      scenario: 'Catching up with a colleague over coffee',
+      sentences: vocabulary.map(item => ({
+        original_concept: item.definition,
+        native_version: item.examples[0]?.sentence || `Honestly, "${item.term}" sums it up.`,
+        explanation: `Natives say "${item.term}" here instead of spelling the idea out.`,
+        term: item.term,
+      })),
+    };
+  },
+
+  async gradeAnswer({ target_term, native_version, answer }, signal) {
+    await pause(delayMs, signal);
+    const usedTarget = usesTerm(answer, target_term);
+    const isShort = answer.trim().split(/\s+/).length < 4;
+    return {
+      score: Math.max(0, (usedTarget ? 8 : 4) - (isShort ? 2 : 0)),
+      used_target: usedTarget,
+      issues: usedTarget ? [] : [{
+        phrase: answer.trim(),
+        problem: `Doesn't use "${target_term}".`,
+        suggestion: native_version,
+      }],
+      suggested_fix: usedTarget ? answer.trim() : native_version,
+      feedback: usedTarget ? 'Nice, that sounds natural.' : `Close. Try working in "${target_term}".`,
+    };
+  },
+
+  async lookupWord(word, context, signal) {
+    await pause(delayMs, signal);
+    const key = word.trim().toLowerCase();
+    return MOCK_DEFINITIONS[key] || {
+      definition: `"${word.trim()}" as used in: "${context.slice(0, 80)}" (mock definition).`,
+      pronunciation: '',
+    };
+  },
+});
@@ -0,0 +1,37 @@
+import { ValidationError } from '../apiErrors';
+import { sendRequest } from './http';
+import { createPromptProvider } from './promptProvider';
+import { AIProvider, ProviderSettings } from './types';
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local model behind Ollama, LM Studio, llama.cpp and the like. The key is
+ * optional since local servers usually don't check one.
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, model }: ProviderSettings['openai']): AIProvider =>
+  createPromptProvider('openai', async (prompt, signal) => {
+    const response = await sendRequest(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content: prompt.user },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.4,
+      }),
+      signal,
+    });
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new ValidationError('The model server returned an unexpected response. Check the endpoint in Settings.');
+    }
+    return content;
+  });
@@ -0,0 +1,47 @@
+import { ValidationError } from '../apiErrors';
+import { validateAnalysisResult, validateGrade, validateLookup, validatePractice } from '../schemaService';
+import { analysisPrompt, gradeAnswerPrompt, lookupPrompt, practicePrompt, Prompt, strategyPrompt } from '../../supabase/functions/_shared/prompts';
+import { AIProvider, ProviderId } from './types';
+
+// Sends a prompt to a model and resolves with the text it replies with
+export type CompletePrompt = (prompt: Prompt, signal: AbortSignal) => Promise<string>;
+
+/**
+ * Parse a model's JSON reply, tolerating the markdown fences some models add anyway
+ */
+export const parseJsonReply = (text: string): unknown => {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    throw new ValidationError("The AI model's reply wasn't valid JSON. Please try again.");
+  }
+};
+
+/**
+ * A provider for any model we prompt ourselves: it only needs a way to turn a
+ * prompt into text. Replies go through the same validation as Edge Function ones.
+ */
+export const createPromptProvider = (id: ProviderId, complete: CompletePrompt): AIProvider => ({
+  id,
+
+  async analyzeText(text, sourceType, signal) {
+    return validateAnalysisResult(parseJsonReply(await complete(analysisPrompt(text, sourceType), signal)));
+  },
+
+  async generateTopicStrategy(topic, signal) {
+    return validateAnalysisResult(parseJsonReply(await complete(strategyPrompt(topic), signal)));
+  },
+
+  async generatePractice(vocabulary, signal) {
+    return validatePractice(parseJsonReply(await complete(practicePrompt(vocabulary), signal)));
+  },
+
+  async gradeAnswer(request, signal) {
+    return validateGrade(parseJsonReply(await complete(gradeAnswerPrompt(request), signal)));
+  },
+
+  async lookupWord(word, context, signal) {
+    return validateLookup(parseJsonReply(await complete(lookupPrompt(word, context), signal)));
+  },
+});
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisResult, SourceType } from '../../types';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { parseJsonReply } from './promptProvider';
+
+const signal = () => new AbortController().signal;
+
+const text = 'Tech stocks fell today despite results that beat expectations. Guidance was lukewarm, and analysts cite headwinds.';
+
+describe('mock provider', () => {
+  it('answers the same input the same way, preferring terms found in the text', async () => {
+    const provider = createMockProvider();
+
+    const first = await provider.analyzeText(text, SourceType.NEWS, signal());
+    const second = await provider.analyzeText(text, SourceType.NEWS, signal());
+
+    expect(second).toEqual(first);
+    expect(first.summary).toBe('Tech stocks fell today despite results that beat expectations.');
+    expect(first.vocabulary.slice(0, 3).map(item => item.term)).toEqual(['beat expectations', 'lukewarm', 'headwinds']);
+    expect(first.vocabulary[1].source_context).toBe('Guidance was lukewarm, and analysts cite headwinds.');
+  });
+
+  it('streams the analysis one piece at a time', async () => {
+    const partials: AnalysisResult[] = [];
+
+    const result = await createMockProvider().analyzeText(text, SourceType.EMAIL, signal(), partial => partials.push(partial));
+
+    expect(partials[0]).toEqual(expect.objectContaining({ tone: 'Professional, courteous', vocabulary: [] }));
+    expect(partials.at(-1)).toEqual(result);
+    expect(partials.map(partial => partial.vocabulary.length)).toEqual([0, 0, 0, 0, 1, 2, 3, 4, 5]);
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    const analysis = createMockProvider({ delayMs: 1_000 }).analyzeText(text, SourceType.NEWS, controller.signal);
+
+    controller.abort(new Error('cancelled'));
+
+    await expect(analysis).rejects.toThrow('cancelled');
+  });
+
+  it('grades an answer by whether it uses the target expression', async () => {
+    const provider = createMockProvider({ delayMs: 0 });
+    const request = { original_concept: 'Things are hard.', target_term: 'headwinds', native_version: 'We face headwinds.', answer: '' };
+
+    const used = await provider.gradeAnswer({ ...request, answer: 'The company is facing serious headwinds.' }, signal());
+    const missed = await provider.gradeAnswer({ ...request, answer: 'Things are really hard.' }, signal());
+
+    expect(used).toEqual(expect.objectContaining({ score: 8, used_target: true, issues: [] }));
+    expect(missed).toEqual(expect.objectContaining({ score: 4, used_target: false, suggested_fix: 'We face headwinds.' }));
+  });
+});
+
+describe('prompted providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads JSON replies, with or without markdown fences', () => {
+    expect(parseJsonReply('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseJsonReply(' {"a": 1} ')).toEqual({ a: 1 });
+    expect(() => parseJsonReply('Sure! Here you go')).toThrow(expect.objectContaining({ name: 'ValidationError' }));
+  });
+
+  it('calls an OpenAI-compatible server and validates its reply', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => Response.json({
+      choices: [{ message: { content: '{"definition": "a turn", "pronunciation": "/ˈpɪvət/"}' } }],
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', apiKey: '', model: 'llama3.1' });
+
+    const result = await provider.lookupWord('pivot', 'a pivot to AI', signal());
+
+    expect(result).toEqual({ definition: 'a turn', pronunciation: '/ˈpɪvət/' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(String(init.body))).toEqual(expect.objectContaining({ model: 'llama3.1' }));
+  });
+
+  it('maps server failures to structured errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: { message: 'model not found' } }, { status: 404 })));
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:11434/v1', apiKey: 'k', model: 'nope' });
+
+    await expect(provider.lookupWord('pivot', '', signal())).rejects.toThrow(expect.objectContaining({ name: 'ApiError', status: 404 }));
+  });
+});
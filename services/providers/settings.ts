@@ -0,0 +1,67 @@
+import { isSupabaseConfigured } from '../supabaseClient';
+import { ProviderId, ProviderSettings } from './types';
+
+const STORAGE_KEY = 'nativeNuance_aiProvider';
+
+const PROVIDER_IDS: ProviderId[] = ['edge', 'gemini', 'openai', 'mock'];
+
+/**
+ * Out of the box: the hosted Edge Functions when Supabase is configured,
+ * otherwise the offline mock. VITE_AI_PROVIDER in .env.local overrides the
+ * default. VITE_GEMINI_API_KEY is only read by the dev server, so a production
+ * build never inlines the key into the public bundle.
+ */
+export const defaultProviderSettings = (): ProviderSettings => {
+  const fromEnv = import.meta.env.VITE_AI_PROVIDER as ProviderId | undefined;
+  return {
+    provider: fromEnv && PROVIDER_IDS.includes(fromEnv) ? fromEnv : isSupabaseConfigured() ? 'edge' : 'mock',
+    gemini: {
+      apiKey: import.meta.env.DEV ? import.meta.env.VITE_GEMINI_API_KEY || '' : '',
+      model: 'gemini-2.5-flash',
+    },
+    openai: {
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: '',
+      model: 'llama3.1',
+    },
+  };
+};
+
+/**
+ * Which AI provider to use and how to reach it, saved in localStorage.
+ * API keys entered here stay in this browser.
+ */
+export const createProviderSettingsStore = (getStorage: () => Storage = () => window.localStorage) => {
+  const listeners = new Set<(settings: ProviderSettings) => void>();
+
+  const load = (): ProviderSettings => {
+    const defaults = defaultProviderSettings();
+    try {
+      const saved = JSON.parse(getStorage().getItem(STORAGE_KEY) || '{}');
+      return {
+        provider: PROVIDER_IDS.includes(saved.provider) ? saved.provider : defaults.provider,
+        gemini: { ...defaults.gemini, ...saved.gemini },
+        openai: { ...defaults.openai, ...saved.openai },
+      };
+    } catch (e) {
+      console.error('Failed to parse AI provider settings', e);
+      return defaults;
+    }
+  };
+
+  return {
+    load,
+
+    save(settings: ProviderSettings): void {
+      getStorage().setItem(STORAGE_KEY, JSON.stringify(settings));
+      listeners.forEach(listener => listener(settings));
+    },
+
+    subscribe(listener: (settings: ProviderSettings) => void): () => void {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export const providerSettings = createProviderSettingsStore();
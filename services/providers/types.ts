@@ -0,0 +1,37 @@
+import { AnalysisResult, AnswerGrade, GeneratedPractice, GradeAnswerRequest, SourceType, VocabularyItem, WordDefinition } from '../../types';
+
+export type { WordDefinition } from '../../types';
+
+export type ProviderId = 'edge' | 'gemini' | 'openai' | 'mock';
+
+/**
+ * One way of reaching a language model. Every call takes the signal from the
+ * request policy (timeouts, cancellation) and returns a validated result;
+ * failures are thrown as ApiErrors so the policy can decide whether to retry.
+ */
+export interface AIProvider {
+  id: ProviderId;
+  /**
+   * Analyze one chunk of text. Providers that stream report the result so far
+   * through onPartial; others just resolve with the whole result.
+   */
+  analyzeText(text: string, sourceType: SourceType, signal: AbortSignal, onPartial?: (partial: AnalysisResult) => void): Promise<AnalysisResult>;
+  generateTopicStrategy(topic: string, signal: AbortSignal): Promise<AnalysisResult>;
+  generatePractice(vocabulary: VocabularyItem[], signal: AbortSignal): Promise<GeneratedPractice>;
+  gradeAnswer(request: GradeAnswerRequest, signal: AbortSignal): Promise<AnswerGrade>;
+  lookupWord(word: string, context: string, signal: AbortSignal): Promise<WordDefinition>;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  gemini: {
+    apiKey: string;
+    model: string;
+  };
+  openai: {
+    // e.g. http://localhost:11434/v1 for Ollama
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+  };
+}
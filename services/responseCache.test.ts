@@ -0,0 +1,57 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { CACHE_TTL_MS, createResponseCache, normalizeForCache } from './responseCache';
+
+let dbCount = 0;
+const freshDbName = () => `cache-test-${dbCount++}`;
+
+describe('normalizeForCache', () => {
+  it('ignores differences in whitespace and line endings', () => {
+    expect(normalizeForCache('  One  line\r\n\r\n\r\nNext\tline  ')).toBe('One line\n\nNext line');
+  });
+});
+
+describe('response cache', () => {
+  it('gives equal inputs the same key and different kinds different keys', async () => {
+    const cache = createResponseCache(freshDbName());
+    const key = await cache.keyFor('lookup', { word: 'pivot' });
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await cache.keyFor('lookup', { word: 'pivot' })).toBe(key);
+    expect(await cache.keyFor('analysis', { word: 'pivot' })).not.toBe(key);
+  });
+
+  it('expires entries after their kind\'s TTL', async () => {
+    let time = 1_000;
+    const cache = createResponseCache(freshDbName(), () => time);
+    await cache.set('practice', 'key', { scenario: 'Cafe' });
+
+    time += CACHE_TTL_MS.practice - 1;
+    expect(await cache.get('key')).toEqual({ value: { scenario: 'Cafe' }, createdAt: 1_000 });
+    time += 1;
+    expect(await cache.get('key')).toBeNull();
+  });
+
+  it('evicts the least recently used entries past the limits', async () => {
+    let time = 0;
+    const cache = createResponseCache(freshDbName(), () => ++time, { maxEntries: 2 });
+    await cache.set('lookup', 'a', 'A');
+    await cache.set('lookup', 'b', 'B');
+    await cache.get('a');
+    await cache.set('lookup', 'c', 'C');
+
+    expect(await cache.get('a')).not.toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).not.toBeNull();
+  });
+
+  it('evicts entries past the size budget', async () => {
+    let time = 0;
+    const cache = createResponseCache(freshDbName(), () => ++time, { maxSize: 10 });
+    await cache.set('lookup', 'a', 'aaaa');
+    await cache.set('lookup', 'b', 'bbbb');
+
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('b')).toEqual({ value: 'bbbb', createdAt: 2 });
+  });
+});
@@ -0,0 +1,170 @@
+import { completion, promisify } from './storage/indexedDbBackend';
+
+export type CacheKind = 'analysis' | 'strategy' | 'lookup' | 'practice' | 'grading';
+
+// Bookkeeping for one entry, small enough to read them all when pruning
+interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  createdAt: number;
+  lastUsedAt: number;
+  // Length of the serialized value, for the size budget
+  size: number;
+}
+
+const DB_NAME = 'nativeNuance_responseCache';
+const ENTRIES_STORE = 'entries';
+// Cached answers by key, read one at a time on a hit
+const VALUES_STORE = 'values';
+// Where older versions kept the whole cache; cleared so it stops taking up localStorage
+const LEGACY_STORAGE_KEY = 'nativeNuance_responseCache';
+
+// Part of every key. Bump it when the Edge Function prompts change so older answers aren't reused.
+export const PROMPT_VERSION = 2;
+
+// How long an answer stays fresh. Practice sentences are meant to vary, so they expire soonest.
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  analysis: 7 * DAY_MS,
+  strategy: 7 * DAY_MS,
+  lookup: 30 * DAY_MS,
+  practice: DAY_MS,
+  grading: 30 * DAY_MS,
+};
+
+// Least recently used entries go first once either limit is passed
+const MAX_ENTRIES = 300;
+const MAX_SIZE = 2_000_000;
+
+/**
+ * Normalize text so trivial differences (line endings, runs of spaces, stray
+ * whitespace at the ends) still hit the same entry.
+ */
+export const normalizeForCache = (text: string): string =>
+  text.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const openDatabase = (dbName: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+      request.result.createObjectStore(VALUES_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Content-addressed cache of Edge Function answers, kept in IndexedDB with
+ * one record per key, a TTL per kind and an overall size budget. Keys are
+ * SHA-256 hashes of the normalized input, so the stored data never contains
+ * the text itself. Where IndexedDB is unavailable every lookup misses.
+ */
+export const createResponseCache = (
+  dbName = DB_NAME,
+  now = () => Date.now(),
+  { maxEntries = MAX_ENTRIES, maxSize = MAX_SIZE } = {}
+) => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName).then(db => {
+        // Step aside when the database is deleted or upgraded elsewhere, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        return db;
+      });
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  const isFresh = (entry: CacheEntry, at: number) => at - entry.createdAt < CACHE_TTL_MS[entry.kind];
+
+  // Expired entries, then the least recently used past either budget
+  const evicted = (entries: CacheEntry[], at: number): string[] => {
+    const kept = new Set<string>();
+    let size = 0;
+    const fresh = entries.filter(entry => isFresh(entry, at)).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    for (const entry of fresh.slice(0, maxEntries)) {
+      size += entry.size;
+      if (size > maxSize) break;
+      kept.add(entry.key);
+    }
+    return entries.filter(entry => !kept.has(entry.key)).map(entry => entry.key);
+  };
+
+  return {
+    /**
+     * Hash `input` (already normalized by the caller) into a cache key. Returns
+     * null where Web Crypto is unavailable, e.g. on plain http, and the cache is skipped.
+     */
+    async keyFor(kind: CacheKind, input: unknown): Promise<string | null> {
+      if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+      const bytes = new TextEncoder().encode(JSON.stringify([kind, PROMPT_VERSION, input]));
+      return toHex(await crypto.subtle.digest('SHA-256', bytes));
+    },
+
+    /**
+     * The cached value and when it was fetched, or null if missing or expired
+     */
+    async get(key: string): Promise<{ value: unknown; createdAt: number } | null> {
+      try {
+        const db = await getDb();
+        const transaction = db.transaction([ENTRIES_STORE, VALUES_STORE], 'readwrite');
+        const entries = transaction.objectStore(ENTRIES_STORE);
+        const [entry, value] = await Promise.all([
+          promisify(entries.get(key)) as Promise<CacheEntry | undefined>,
+          promisify(transaction.objectStore(VALUES_STORE).get(key)),
+        ]);
+        const at = now();
+        if (!entry || !isFresh(entry, at)) return null;
+        // Only the small bookkeeping record is rewritten on a hit
+        entries.put({ ...entry, lastUsedAt: at });
+        await completion(transaction);
+        return { value, createdAt: entry.createdAt };
+      } catch (e) {
+        console.warn('Failed to read response cache', e);
+        return null;
+      }
+    },
+
+    async set(kind: CacheKind, key: string, value: unknown): Promise<void> {
+      const at = now();
+      const size = JSON.stringify(value).length;
+      if (size > maxSize) return;
+      try {
+        const db = await getDb();
+        const transaction = db.transaction([ENTRIES_STORE, VALUES_STORE], 'readwrite');
+        const entries = transaction.objectStore(ENTRIES_STORE);
+        const values = transaction.objectStore(VALUES_STORE);
+        entries.put({ key, kind, createdAt: at, lastUsedAt: at, size } satisfies CacheEntry);
+        values.put(value, key);
+        const request = entries.getAll();
+        request.onsuccess = () => {
+          evicted(request.result as CacheEntry[], at).forEach(stale => {
+            entries.delete(stale);
+            values.delete(stale);
+          });
+        };
+        await completion(transaction);
+      } catch (e) {
+        // A full device just means fewer cache hits
+        console.warn('Failed to save response cache', e);
+      }
+    },
+  };
+};
+
+export const responseCache = createResponseCache();
+
+if (typeof localStorage !== 'undefined') localStorage.removeItem(LEGACY_STORAGE_KEY);
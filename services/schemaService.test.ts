@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { SavedAnalysis, SavedVocabularyItem, SourceType } from '../types';
+import {
+  SCHEMA_VERSION,
+  upgradeSavedAnalysis,
+  upgradeSavedVocabularyItem,
+  validateAnalysisResult,
+  validateGrade,
+  validateLookup,
+} from './schemaService';
+
+describe('validateAnalysisResult', () => {
+  it('repairs missing fields and unknown categories', () => {
+    const result = validateAnalysisResult({
+      summary: 'A summary',
+      vocabulary: [
+        { term: 'tumble', definition: 'fall quickly', category: 'slang' },
+        { term: 'pivot', category: 'topic_specific', examples: [{ sentence: 'They pivoted.' }, { context_label: 'No sentence' }] },
+        { definition: 'no term' },
+        'not an object',
+      ],
+    });
+
+    expect(result.tone).toBe('');
+    expect(result.vocabulary).toEqual([
+      { term: 'tumble', definition: 'fall quickly', category: 'topic_specific', examples: [] },
+      { term: 'pivot', definition: '', category: 'topic_specific', examples: [{ context_label: 'Example', sentence: 'They pivoted.' }] },
+    ]);
+  });
+
+  it('rejects replies that are not an analysis', () => {
+    expect(() => validateAnalysisResult(null)).toThrow();
+    expect(() => validateAnalysisResult({ error: 'overloaded' })).toThrow();
+  });
+});
+
+describe('validateLookup', () => {
+  it('requires a definition', () => {
+    expect(validateLookup({ definition: 'a bird' })).toEqual({ definition: 'a bird', pronunciation: '' });
+    expect(() => validateLookup({ pronunciation: '/x/' })).toThrow();
+  });
+});
+
+describe('validateGrade', () => {
+  it('clamps the score and drops issues without a fix', () => {
+    const grade = validateGrade({
+      score: 11.2,
+      used_target: 'yes',
+      issues: [{ phrase: 'big headwinds', suggestion: 'strong headwinds' }, { phrase: 'no suggestion' }],
+    });
+
+    expect(grade).toEqual({
+      score: 10,
+      used_target: false,
+      issues: [{ phrase: 'big headwinds', problem: '', suggestion: 'strong headwinds' }],
+      suggested_fix: '',
+      feedback: '',
+    });
+    expect(() => validateGrade({ feedback: 'Great!' })).toThrow();
+  });
+});
+
+describe('saved record upgrades', () => {
+  const legacyItem = {
+    term: 'on the fence',
+    definition: 'undecided',
+    category: 'idioms_fixed',
+    example_usage: "I'm still on the fence.",
+    nuance: 'Informal',
+  };
+
+  it('moves legacy vocabulary fields into examples', () => {
+    const upgraded = upgradeSavedVocabularyItem({ ...legacyItem, id: 'v1', dateAdded: 1 } as SavedVocabularyItem);
+
+    expect(upgraded).toMatchObject({ id: 'v1', dateAdded: 1, schemaVersion: SCHEMA_VERSION });
+    expect(upgraded.examples).toEqual([{ context_label: 'Usage', sentence: "I'm still on the fence.", explanation: 'Informal' }]);
+    expect(upgraded).not.toHaveProperty('nuance');
+    expect(upgraded).not.toHaveProperty('example_usage');
+  });
+
+  it('upgrades the vocabulary inside saved analyses once', () => {
+    const analysis = {
+      id: 'a1',
+      date: 1,
+      sourceType: SourceType.NEWS,
+      inputText: 'Text',
+      analysisResult: { summary: 'Summary', tone: 'Calm', vocabulary: [legacyItem] },
+    } as SavedAnalysis;
+
+    const upgraded = upgradeSavedAnalysis(analysis);
+    expect(upgraded.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(upgraded.notes).toEqual([]);
+    expect(upgraded.analysisResult.vocabulary[0].examples).toHaveLength(1);
+    expect(upgradeSavedAnalysis(upgraded)).toBe(upgraded);
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  AnalysisResult,
+  AnswerGrade,
+  DetailedExample,
+  GeneratedPractice,
+  SavedAnalysis,
+  SavedVocabularyItem,
+  StructurePoint,
+  VocabularyCategory,
+  VocabularyItem,
+} from '../types';
+import { ValidationError } from './apiErrors';
+
+/**
+ * Version of the saved record shape. Bump it when a stored field changes and
+ * teach the upgrade functions below how to move older records forward.
+ *  1: vocabulary could carry `nuance` / `example_usage` instead of `examples`
+ *  2: everything lives in `examples`
+ */
+export const SCHEMA_VERSION = 2;
+
+const CATEGORIES: VocabularyCategory[] = ['idioms_fixed', 'phrasal_verbs', 'nuance_sarcasm', 'chunks_structures', 'topic_specific'];
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const optionalText = (value: unknown): string | undefined => text(value) || undefined;
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// ==================== REPAIR ====================
+
+const repairExample = (raw: unknown): DetailedExample | null => {
+  if (typeof raw === 'string') return text(raw) ? { context_label: 'Example', sentence: text(raw) } : null;
+  if (!isObject(raw) || !text(raw.sentence)) return null;
+  return {
+    context_label: text(raw.context_label) || 'Example',
+    sentence: text(raw.sentence),
+    explanation: optionalText(raw.explanation),
+  };
+};
+
+/**
+ * Coerce one vocabulary entry into shape: missing text becomes empty, unknown
+ * categories fall back to topic_specific, and the legacy `example_usage` /
+ * `nuance` fields move into `examples`. Entries without a term are dropped.
+ */
+export const repairVocabularyItem = (raw: unknown): VocabularyItem | null => {
+  if (!isObject(raw) || !text(raw.term)) return null;
+
+  const examples = list(raw.examples)
+    .map(repairExample)
+    .filter((example): example is DetailedExample => example !== null);
+
+  const usage = text(raw.example_usage);
+  const nuance = text(raw.nuance);
+  if (usage && !examples.some(example => example.sentence === usage)) {
+    examples.push({ context_label: 'Usage', sentence: usage, explanation: nuance || undefined });
+  } else if (nuance && !examples.some(example => example.explanation === nuance)) {
+    examples.push({ context_label: 'Nuance', sentence: nuance });
+  }
+
+  const category = CATEGORIES.includes(raw.category as VocabularyCategory)
+    ? raw.category as VocabularyCategory
+    : 'topic_specific';
+
+  return {
+    term: text(raw.term),
+    definition: text(raw.definition),
+    category,
+    source_context: optionalText(raw.source_context),
+    source_timestamp: typeof raw.source_timestamp === 'number' ? raw.source_timestamp : undefined,
+    imagery_etymology: optionalText(raw.imagery_etymology),
+    examples,
+  };
+};
+
+export const repairStructurePoint = (raw: unknown): StructurePoint | null => {
+  if (!isObject(raw) || !text(raw.section)) return null;
+  return {
+    section: text(raw.section),
+    purpose: text(raw.purpose),
+    native_pattern: text(raw.native_pattern),
+  };
+};
+
+// ==================== EDGE FUNCTION RESPONSES ====================
+
+/**
+ * Validate an analyze-text / generate-strategy reply, repairing what can be
+ * repaired. Throws only when the reply isn't an analysis at all.
+ */
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  if (!isObject(raw) || (!Array.isArray(raw.vocabulary) && !text(raw.summary))) {
+    throw new ValidationError('The analysis service returned an unexpected response. Please try again.');
+  }
+
+  const structure = list(raw.structure_analysis)
+    .map(repairStructurePoint)
+    .filter((point): point is StructurePoint => point !== null);
+
+  return {
+    summary: text(raw.summary),
+    tone: text(raw.tone),
+    structure_analysis: structure.length > 0 ? structure : undefined,
+    vocabulary: list(raw.vocabulary)
+      .map(repairVocabularyItem)
+      .filter((item): item is VocabularyItem => item !== null),
+  };
+};
+
+export const validatePractice = (raw: unknown): GeneratedPractice => {
+  if (!isObject(raw) || !Array.isArray(raw.sentences)) {
+    throw new ValidationError('The practice service returned an unexpected response. Please try again.');
+  }
+
+  return {
+    scenario: text(raw.scenario),
+    sentences: raw.sentences
+      .filter(isObject)
+      .map(sentence => ({
+        original_concept: text(sentence.original_concept),
+        native_version: text(sentence.native_version),
+        explanation: text(sentence.explanation),
+        term: optionalText(sentence.term),
+      }))
+      .filter(sentence => sentence.native_version),
+  };
+};
+
+export const validateGrade = (raw: unknown): AnswerGrade => {
+  if (!isObject(raw) || typeof raw.score !== 'number' || !Number.isFinite(raw.score)) {
+    throw new ValidationError('The grading service returned an unexpected response. Please try again.');
+  }
+
+  return {
+    score: Math.min(10, Math.max(0, Math.round(raw.score))),
+    used_target: raw.used_target === true,
+    issues: list(raw.issues)
+      .filter(isObject)
+      .map(issue => ({ phrase: text(issue.phrase), problem: text(issue.problem), suggestion: text(issue.suggestion) }))
+      .filter(issue => issue.phrase && issue.suggestion),
+    suggested_fix: text(raw.suggested_fix),
+    feedback: text(raw.feedback),
+  };
+};
+
+export const validateLookup = (raw: unknown): { definition: string; pronunciation: string } => {
+  if (!isObject(raw) || !text(raw.definition)) {
+    throw new ValidationError('The dictionary service returned an unexpected response. Please try again.');
+  }
+  return { definition: text(raw.definition), pronunciation: text(raw.pronunciation) };
+};
+
+// ==================== SAVED RECORDS ====================
+
+/**
+ * Bring a stored analysis up to the current schema. Records already at
+ * SCHEMA_VERSION are returned untouched.
+ */
+export const upgradeSavedAnalysis = (analysis: SavedAnalysis): SavedAnalysis => {
+  if ((analysis.schemaVersion ?? 1) >= SCHEMA_VERSION) return analysis;
+
+  let analysisResult: AnalysisResult;
+  try {
+    analysisResult = validateAnalysisResult(analysis.analysisResult);
+  } catch {
+    analysisResult = { summary: '', tone: '', vocabulary: [] };
+  }
+  return { ...analysis, analysisResult, notes: analysis.notes || [], schemaVersion: SCHEMA_VERSION };
+};
+
+export const upgradeSavedVocabularyItem = (item: SavedVocabularyItem): SavedVocabularyItem => {
+  if ((item.schemaVersion ?? 1) >= SCHEMA_VERSION) return item;
+
+  const repaired = repairVocabularyItem(item);
+  // Drop the legacy fields now that they live in examples
+  const { nuance, example_usage, ...rest } = item;
+  return { ...rest, ...(repaired || { examples: [] }), schemaVersion: SCHEMA_VERSION };
+};
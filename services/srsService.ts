@@ -0,0 +1,134 @@
+import { ReviewGrade, ReviewState, SavedAnalysis, SavedVocabularyItem, VocabularyItem } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // Forgotten cards come back in 10 minutes
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+
+// Unseen terms introduced into the review queue per session
+export const NEW_CARDS_PER_SESSION = 10;
+
+// SM-2 quality score (0-5) for each grade button
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const normalizeTerm = (term: string): string => term.trim().toLowerCase();
+
+export const createReviewState = (now: number = Date.now()): ReviewState => ({
+  easeFactor: DEFAULT_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueDate: now,
+  lastReviewedAt: null,
+});
+
+/**
+ * Apply a grade to a card and return its next scheduling state (SM-2).
+ */
+export const scheduleReview = (
+  state: ReviewState | undefined,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): ReviewState => {
+  const current = state ?? createReviewState(now);
+  const quality = GRADE_QUALITY[grade];
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    current.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (grade === 'again') {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: current.repetitions > 0 ? current.lapses + 1 : current.lapses,
+      dueDate: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  const repetitions = current.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = grade === 'easy' ? 4 : 1;
+  } else if (repetitions === 2) {
+    intervalDays = grade === 'hard' ? 3 : 6;
+  } else if (grade === 'hard') {
+    intervalDays = Math.max(current.intervalDays + 1, Math.round(current.intervalDays * HARD_FACTOR));
+  } else {
+    intervalDays = Math.round(current.intervalDays * easeFactor * (grade === 'easy' ? EASY_BONUS : 1));
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lapses: current.lapses,
+    dueDate: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+/**
+ * Human-readable interval, used to preview what each grade button will do
+ */
+export const formatInterval = (state: ReviewState, now: number = Date.now()): string => {
+  const diff = state.dueDate - now;
+  if (diff < 60 * 60 * 1000) return `${Math.max(1, Math.round(diff / 60000))}m`;
+  if (diff < DAY_MS) return `${Math.round(diff / (60 * 60 * 1000))}h`;
+  const days = Math.round(diff / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+const endOfToday = (now: number): number => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export const isDue = (item: SavedVocabularyItem, now: number = Date.now()): boolean =>
+  !item.review || item.review.dueDate <= endOfToday(now);
+
+export interface ReviewCard {
+  item: VocabularyItem;
+  analysisId: string | null;
+  savedItem?: SavedVocabularyItem; // Undefined for terms that have never been reviewed
+}
+
+/**
+ * Build today's review queue from the word bank: due cards first (most
+ * overdue first), followed by a limited batch of saved terms never reviewed.
+ * Terms that were only practiced, never starred, aren't scheduled.
+ */
+export const buildReviewQueue = (
+  vocabulary: SavedVocabularyItem[],
+  now: number = Date.now()
+): ReviewCard[] => {
+  const due = vocabulary
+    .filter(item => item.review && isDue(item, now))
+    .sort((a, b) => a.review!.dueDate - b.review!.dueDate)
+    .map<ReviewCard>(item => ({ item, analysisId: item.analysisId ?? null, savedItem: item }));
+
+  const fresh = vocabulary
+    .filter(item => !item.review)
+    .sort((a, b) => a.dateAdded - b.dateAdded)
+    .slice(0, NEW_CARDS_PER_SESSION)
+    .map<ReviewCard>(item => ({ item, analysisId: item.analysisId ?? null }));
+
+  return [...due, ...fresh];
+};
+
+export const countDueCards = (vocabulary: SavedVocabularyItem[], now: number = Date.now()): number =>
+  vocabulary.filter(item => item.review && isDue(item, now)).length;
@@ -0,0 +1,175 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { AnalysisFolder, Note, SavedAnalysis, SourceType } from '../../types';
+import { migrateFromLocalStorage, MIGRATED_FLAG_KEY } from './deviceBackend';
+import { StorageQuotaError } from './errors';
+import { createIndexedDbBackend } from './indexedDbBackend';
+import { createLocalStorageBackend, LOCAL_STORAGE_KEYS } from './localStorageBackend';
+import { createMemoryBackend } from './memoryBackend';
+import { StorageBackend } from './types';
+
+// Just enough of the Web Storage API for the localStorage backend
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  key(index: number) { return [...this.items.keys()][index] ?? null; }
+  removeItem(key: string) { this.items.delete(key); }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+}
+
+const folder = (id: string, name: string): AnalysisFolder => ({ id, name, createdAt: 1 });
+
+const note = (id: string, timestamp: number): Note => ({ id, word: id, definition: '', context: '', timestamp });
+
+const analysis = (id: string, notes: Note[]): SavedAnalysis => ({
+  id,
+  date: 1,
+  sourceType: SourceType.NEWS,
+  inputText: 'Text',
+  analysisResult: { summary: 'Summary', tone: 'Neutral', vocabulary: [] },
+  fileName: null,
+  notes,
+  folderId: null,
+});
+
+const byId = <T extends { id: string }>(records: T[]) => [...records].sort((a, b) => a.id.localeCompare(b.id));
+
+let dbCount = 0;
+const freshDbName = () => `test-${dbCount++}`;
+const backends: [string, () => StorageBackend][] = [
+  ['memory', () => createMemoryBackend()],
+  ['localStorage', () => createLocalStorageBackend(new MemoryStorage())],
+  ['indexedDB', () => createIndexedDbBackend(freshDbName())],
+];
+
+describe.each(backends)('%s backend', (_, create) => {
+  it('starts empty', async () => {
+    expect(await create().list('folders')).toEqual([]);
+  });
+
+  it('inserts and replaces records by id', async () => {
+    const backend = create();
+    await backend.put('folders', [folder('a', 'Work'), folder('b', 'Fun')]);
+    await backend.put('folders', [folder('a', 'Office')]);
+    expect(byId(await backend.list('folders'))).toEqual([folder('a', 'Office'), folder('b', 'Fun')]);
+  });
+
+  it('removes records and ignores unknown ids', async () => {
+    const backend = create();
+    await backend.put('folders', [folder('a', 'Work'), folder('b', 'Fun')]);
+    await backend.remove('folders', ['a', 'missing']);
+    expect(await backend.list('folders')).toEqual([folder('b', 'Fun')]);
+  });
+
+  it('replaces a whole collection', async () => {
+    const backend = create();
+    await backend.put('folders', [folder('a', 'Work')]);
+    await backend.replace('folders', [folder('c', 'News')]);
+    expect(await backend.list('folders')).toEqual([folder('c', 'News')]);
+  });
+
+  it('keeps collections separate', async () => {
+    const backend = create();
+    await backend.put('folders', [folder('a', 'Work')]);
+    expect(await backend.list('analyses')).toEqual([]);
+  });
+
+  it('stores analyses together with their notes', async () => {
+    const backend = create();
+    await backend.put('analyses', [analysis('a', [note('n1', 1), note('n2', 2)]), analysis('b', [])]);
+    await backend.put('analyses', [analysis('a', [note('n2', 2)])]);
+    expect(byId(await backend.list('analyses'))).toEqual([analysis('a', [note('n2', 2)]), analysis('b', [])]);
+
+    await backend.remove('analyses', ['a']);
+    expect(await backend.list('analyses')).toEqual([analysis('b', [])]);
+  });
+
+  it('does not share references with callers', async () => {
+    const backend = create();
+    const record = folder('a', 'Work');
+    await backend.put('folders', [record]);
+    record.name = 'Changed';
+    expect((await backend.list('folders'))[0].name).toBe('Work');
+  });
+});
+
+describe('localStorage backend', () => {
+  it('reads data written under the existing keys', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem(LOCAL_STORAGE_KEYS.folders, JSON.stringify([folder('a', 'Work')]));
+    expect(await createLocalStorageBackend(storage).list('folders')).toEqual([folder('a', 'Work')]);
+  });
+
+  it('treats corrupt data as empty', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem(LOCAL_STORAGE_KEYS.folders, '{not json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await createLocalStorageBackend(storage).list('folders')).toEqual([]);
+  });
+
+  it('reports a full quota clearly', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem = () => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); };
+    await expect(createLocalStorageBackend(storage).put('folders', [folder('a', 'Work')]))
+      .rejects.toBeInstanceOf(StorageQuotaError);
+  });
+});
+
+describe('indexedDB schema migrations', () => {
+  it('moves notes embedded by schema v1 into the notes store', async () => {
+    const dbName = freshDbName();
+    // Create the v1 schema, then write a record the way v1 stored it
+    await createIndexedDbBackend(dbName, 1).list('folders');
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction('analyses', 'readwrite');
+        transaction.objectStore('analyses').put(analysis('a', [note('n1', 1)]));
+        transaction.oncomplete = () => { db.close(); resolve(); };
+        transaction.onerror = () => reject(transaction.error);
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    const upgraded = createIndexedDbBackend(dbName);
+    expect(await upgraded.list('analyses')).toEqual([analysis('a', [note('n1', 1)])]);
+
+    await upgraded.put('analyses', [analysis('a', [])]);
+    expect(await upgraded.list('analyses')).toEqual([analysis('a', [])]);
+  });
+});
+
+describe('migrateFromLocalStorage', () => {
+  it('copies legacy keys once and frees them', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem(LOCAL_STORAGE_KEYS.folders, JSON.stringify([folder('a', 'Work')]));
+    storage.setItem(LOCAL_STORAGE_KEYS.analyses, JSON.stringify([analysis('x', [note('n1', 1)])]));
+    const target = createMemoryBackend();
+
+    await migrateFromLocalStorage(target, storage);
+
+    expect(await target.list('folders')).toEqual([folder('a', 'Work')]);
+    expect(await target.list('analyses')).toEqual([analysis('x', [note('n1', 1)])]);
+    expect(storage.getItem(LOCAL_STORAGE_KEYS.folders)).toBeNull();
+    expect(storage.getItem(MIGRATED_FLAG_KEY)).not.toBeNull();
+
+    // Later writes to the old keys (e.g. from an outdated tab) are not copied again
+    storage.setItem(LOCAL_STORAGE_KEYS.folders, JSON.stringify([folder('b', 'Fun')]));
+    await migrateFromLocalStorage(target, storage);
+    expect(await target.list('folders')).toEqual([folder('a', 'Work')]);
+  });
+
+  it('keeps the legacy keys when the copy fails', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem(LOCAL_STORAGE_KEYS.folders, JSON.stringify([folder('a', 'Work')]));
+    const target = createMemoryBackend();
+    target.put = async () => { throw new StorageQuotaError(); };
+
+    await expect(migrateFromLocalStorage(target, storage)).rejects.toBeInstanceOf(StorageQuotaError);
+    expect(storage.getItem(LOCAL_STORAGE_KEYS.folders)).not.toBeNull();
+    expect(storage.getItem(MIGRATED_FLAG_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { createIndexedDbBackend } from './indexedDbBackend';
+import { createLocalStorageBackend, LOCAL_STORAGE_KEYS } from './localStorageBackend';
+import { COLLECTIONS, StorageBackend } from './types';
+
+// Set once the old localStorage data has been copied into IndexedDB
+export const MIGRATED_FLAG_KEY = 'nativeNuance_migratedToIndexedDB';
+
+/**
+ * Copy data saved by older versions under the `nativeNuance_*` keys into
+ * `target`, then free those keys. Runs once per browser; a failed copy leaves
+ * the old keys untouched so it can be retried.
+ */
+export const migrateFromLocalStorage = async (target: StorageBackend, storage: Storage): Promise<void> => {
+  if (storage.getItem(MIGRATED_FLAG_KEY)) return;
+
+  const legacy = createLocalStorageBackend(storage);
+  for (const collection of COLLECTIONS) {
+    const records = await legacy.list(collection);
+    if (records.length > 0) await target.put(collection, records);
+  }
+
+  COLLECTIONS.forEach(collection => storage.removeItem(LOCAL_STORAGE_KEYS[collection]));
+  storage.setItem(MIGRATED_FLAG_KEY, String(Date.now()));
+};
+
+/**
+ * Where this device keeps its data: IndexedDB, after moving over anything
+ * older versions left in localStorage. Falls back to localStorage when
+ * IndexedDB is unavailable (e.g. some private browsing modes) or the move fails.
+ */
+export const createDeviceBackend = (storage: Storage = window.localStorage): StorageBackend => {
+  const fallback = createLocalStorageBackend(storage);
+  if (typeof indexedDB === 'undefined') return fallback;
+
+  const indexedDb = createIndexedDbBackend();
+  const ready: Promise<StorageBackend> = migrateFromLocalStorage(indexedDb, storage)
+    .then(() => indexedDb)
+    .catch(e => {
+      console.error('Failed to move saved data to IndexedDB, staying on localStorage', e);
+      return fallback;
+    });
+
+  return {
+    name: 'device',
+    list: async collection => (await ready).list(collection),
+    put: async (collection, records) => (await ready).put(collection, records),
+    remove: async (collection, ids) => (await ready).remove(collection, ids),
+    replace: async (collection, records) => (await ready).replace(collection, records),
+  };
+};
@@ -0,0 +1,14 @@
+/**
+ * The browser refused a write because this site's storage quota is used up
+ */
+export class StorageQuotaError extends Error {
+  constructor(message = 'Storage on this device is full, so your latest change was not saved here. Delete old analyses or export a backup to free up space.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// Browsers disagree on the name: Firefox used its own before adopting the standard one
+export const isQuotaExceeded = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -0,0 +1,200 @@
+import { Note, SavedAnalysis } from '../../types';
+import { isQuotaExceeded, StorageQuotaError } from './errors';
+import { CollectionName, CollectionRecords, StorageBackend } from './types';
+
+// Notes live in their own store so editing one doesn't rewrite the whole analysis
+const NOTES_STORE = 'notes';
+const NOTES_BY_ANALYSIS = 'analysisId';
+
+type StoredNote = Note & { analysisId: string };
+
+/**
+ * Schema migrations, applied in order inside the upgrade transaction. Entry N
+ * upgrades a database at version N to N + 1. Never edit a shipped migration;
+ * add a new one instead.
+ */
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // v1: one store per collection, keyed by record id
+  db => {
+    ['analyses', 'folders', 'vocabulary', 'reviewLogs'].forEach(name => {
+      db.createObjectStore(name, { keyPath: 'id' });
+    });
+  },
+  // v2: move notes out of analysis records into their own store
+  (db, transaction) => {
+    const notes = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+    notes.createIndex(NOTES_BY_ANALYSIS, NOTES_BY_ANALYSIS);
+
+    const cursorRequest = transaction.objectStore('analyses').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const { notes: embedded = [], ...analysis } = cursor.value as SavedAnalysis;
+      embedded.forEach(note => notes.put({ ...note, analysisId: analysis.id }));
+      cursor.update(analysis);
+      cursor.continue();
+    };
+  },
+  // v3: flashcard answers, for building practice batches from weak terms
+  db => {
+    db.createObjectStore('flashcardLogs', { keyPath: 'id' });
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+// Resolve an IDBRequest as a promise
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolve once a write transaction has committed
+export const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+
+const openDatabase = (dbName: string, version: number): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(dbName, version);
+    request.onupgradeneeded = event => {
+      const transaction = request.transaction!;
+      for (let v = event.oldVersion; v < version; v++) {
+        MIGRATIONS[v](request.result, transaction);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab shipped a newer schema: step aside so its upgrade can run
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Close other NativeNuance tabs to finish updating local storage.'));
+  });
+
+const storesFor = (collection: CollectionName): string[] =>
+  collection === 'analyses' ? ['analyses', NOTES_STORE] : [collection];
+
+const stripNotes = ({ notes, ...analysis }: SavedAnalysis) => analysis;
+
+const notesOf = (analysis: SavedAnalysis): StoredNote[] =>
+  (analysis.notes || []).map(note => ({ ...note, analysisId: analysis.id }));
+
+// Make an analysis's notes exactly `next`. Existing keys are read before the
+// puts run, so notes written here are never caught by the delete.
+const replaceNotes = (notes: IDBObjectStore, analysisId: string, next: StoredNote[]) => {
+  const keep = new Set(next.map(note => note.id));
+  const request = notes.index(NOTES_BY_ANALYSIS).getAllKeys(IDBKeyRange.only(analysisId));
+  request.onsuccess = () => {
+    request.result.forEach(key => {
+      if (!keep.has(key as string)) notes.delete(key);
+    });
+  };
+  next.forEach(note => notes.put(note));
+};
+
+/**
+ * Device storage in IndexedDB. Analyses are split into the analysis itself and
+ * its notes, and joined back together when read. `version` is for tests that
+ * need a database at an older schema.
+ */
+export const createIndexedDbBackend = (dbName = 'nativeNuance', version = DB_VERSION): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName, version);
+      // Let a later call try again instead of caching the failure
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  const writeTransaction = async (collection: CollectionName, apply: (transaction: IDBTransaction) => void) => {
+    const db = await getDb();
+    const transaction = db.transaction(storesFor(collection), 'readwrite');
+    try {
+      apply(transaction);
+      await completion(transaction);
+    } catch (e) {
+      if (isQuotaExceeded(e)) throw new StorageQuotaError();
+      throw e;
+    }
+  };
+
+  return {
+    name: 'indexedDB',
+
+    async list<C extends CollectionName>(collection: C) {
+      const db = await getDb();
+      const transaction = db.transaction(storesFor(collection), 'readonly');
+      if (collection !== 'analyses') {
+        return promisify(transaction.objectStore(collection).getAll()) as Promise<CollectionRecords[C][]>;
+      }
+
+      // Both reads are issued up front so they share the transaction
+      const [records, notes] = await Promise.all([
+        promisify(transaction.objectStore(collection).getAll()),
+        promisify(transaction.objectStore(NOTES_STORE).getAll()) as Promise<StoredNote[]>,
+      ]);
+      const notesByAnalysis = new Map<string, Note[]>();
+      notes.forEach(({ analysisId, ...note }) => {
+        notesByAnalysis.set(analysisId, [...(notesByAnalysis.get(analysisId) || []), note]);
+      });
+      return (records as SavedAnalysis[]).map(analysis => ({
+        ...analysis,
+        notes: (notesByAnalysis.get(analysis.id) || []).sort((a, b) => b.timestamp - a.timestamp),
+      })) as CollectionRecords[C][];
+    },
+
+    async put(collection, records) {
+      await writeTransaction(collection, transaction => {
+        const store = transaction.objectStore(collection);
+        if (collection !== 'analyses') {
+          records.forEach(record => store.put(record));
+          return;
+        }
+        const notes = transaction.objectStore(NOTES_STORE);
+        (records as SavedAnalysis[]).forEach(analysis => {
+          store.put(stripNotes(analysis));
+          replaceNotes(notes, analysis.id, notesOf(analysis));
+        });
+      });
+    },
+
+    async remove(collection, ids) {
+      await writeTransaction(collection, transaction => {
+        const store = transaction.objectStore(collection);
+        ids.forEach(id => {
+          store.delete(id);
+          if (collection === 'analyses') replaceNotes(transaction.objectStore(NOTES_STORE), id, []);
+        });
+      });
+    },
+
+    async replace(collection, records) {
+      await writeTransaction(collection, transaction => {
+        const store = transaction.objectStore(collection);
+        store.clear();
+        if (collection !== 'analyses') {
+          records.forEach(record => store.put(record));
+          return;
+        }
+        const notes = transaction.objectStore(NOTES_STORE);
+        notes.clear();
+        (records as SavedAnalysis[]).forEach(analysis => {
+          store.put(stripNotes(analysis));
+          notesOf(analysis).forEach(note => notes.put(note));
+        });
+      });
+    },
+  };
+};
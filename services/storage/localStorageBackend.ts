@@ -0,0 +1,65 @@
+import { isQuotaExceeded, StorageQuotaError } from './errors';
+import { CollectionName, CollectionRecords, StorageBackend } from './types';
+
+// Keys predate the storage layer; changing them would orphan existing data
+export const LOCAL_STORAGE_KEYS: Record<CollectionName, string> = {
+  analyses: 'nativeNuance_analysisHistory',
+  folders: 'nativeNuance_analysisFolders',
+  vocabulary: 'nativeNuance_vocabulary',
+  reviewLogs: 'nativeNuance_reviewLogs',
+  flashcardLogs: 'nativeNuance_flashcardLogs',
+};
+
+/**
+ * Stores each collection as one JSON array under its `nativeNuance_*` key.
+ * Pass a Storage to use something other than window.localStorage.
+ */
+export const createLocalStorageBackend = (storage: Storage = window.localStorage): StorageBackend => {
+  const read = <C extends CollectionName>(collection: C): CollectionRecords[C][] => {
+    const raw = storage.getItem(LOCAL_STORAGE_KEYS[collection]);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      console.error(`Failed to parse ${collection}`, e);
+      return [];
+    }
+  };
+
+  const write = <C extends CollectionName>(collection: C, records: CollectionRecords[C][]) => {
+    try {
+      storage.setItem(LOCAL_STORAGE_KEYS[collection], JSON.stringify(records));
+    } catch (e) {
+      if (isQuotaExceeded(e)) throw new StorageQuotaError();
+      throw e;
+    }
+  };
+
+  return {
+    name: 'localStorage',
+
+    async list(collection) {
+      return read(collection);
+    },
+
+    async put(collection, records) {
+      const incoming = new Map(records.map(record => [record.id, record]));
+      const existing = read(collection);
+      const existingIds = new Set(existing.map(record => record.id));
+      // Replace in place, and put new records first like the app always has
+      const updated = existing.map(record => incoming.get(record.id) || record);
+      const added = records.filter(record => !existingIds.has(record.id));
+      write(collection, [...added, ...updated]);
+    },
+
+    async remove(collection, ids) {
+      const removed = new Set(ids);
+      write(collection, read(collection).filter(record => !removed.has(record.id)));
+    },
+
+    async replace(collection, records) {
+      write(collection, records);
+    },
+  };
+};
@@ -0,0 +1,42 @@
+import { CollectionName, CollectionRecords, StorageBackend } from './types';
+
+// Records round-trip through JSON like every real backend, so callers can't rely on shared references
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Keeps records in memory only. Used in tests and as a stand-in for the cloud.
+ */
+export const createMemoryBackend = (name = 'memory'): StorageBackend => {
+  const collections = new Map<CollectionName, Map<string, unknown>>();
+
+  const collectionFor = (collection: CollectionName): Map<string, unknown> => {
+    let records = collections.get(collection);
+    if (!records) {
+      records = new Map();
+      collections.set(collection, records);
+    }
+    return records;
+  };
+
+  return {
+    name,
+
+    async list<C extends CollectionName>(collection: C) {
+      return [...collectionFor(collection).values()].map(record => clone(record as CollectionRecords[C]));
+    },
+
+    async put(collection, records) {
+      const stored = collectionFor(collection);
+      records.forEach(record => stored.set(record.id, clone(record)));
+    },
+
+    async remove(collection, ids) {
+      const stored = collectionFor(collection);
+      ids.forEach(id => stored.delete(id));
+    },
+
+    async replace(collection, records) {
+      collections.set(collection, new Map(records.map(record => [record.id, clone(record)])));
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisFolder, ReviewLog, SavedAnalysis, SourceType } from '../../types';
+import type { SyncOperation } from '../syncQueue';
+import { StorageQuotaError } from './errors';
+import { createMemoryBackend } from './memoryBackend';
+import { applyOperation, createRepository, RemoteWriter } from './repository';
+import { StorageBackend } from './types';
+
+const analysis = (id: string, date: number, folderId: string | null = null): SavedAnalysis => ({
+  id,
+  date,
+  sourceType: SourceType.NEWS,
+  inputText: `Text ${id}`,
+  analysisResult: { summary: `Summary ${id}`, tone: 'Neutral', vocabulary: [], structure_analysis: [] },
+  fileName: null,
+  notes: [],
+  folderId,
+});
+
+const folder = (id: string, createdAt: number): AnalysisFolder => ({ id, name: `Folder ${id}`, createdAt });
+
+// Applies writes one at a time to an in-memory "cloud" in place of the sync queue and Supabase
+const cloudStandIn = (local: StorageBackend = createMemoryBackend()) => {
+  const cloud = createMemoryBackend('cloud');
+  let pending: Promise<void> = Promise.resolve();
+  const sent: SyncOperation[] = [];
+  const batches: SyncOperation[][] = [];
+  const remote: RemoteWriter = operations => {
+    batches.push(operations);
+    operations.forEach(operation => {
+      sent.push(operation);
+      pending = pending.then(() => applyOperation(local, cloud, operation));
+    });
+  };
+  return { cloud, remote, sent, batches, settle: () => pending };
+};
+
+describe('repository', () => {
+  it('lists records in display order', async () => {
+    const repository = createRepository(createMemoryBackend());
+    await repository.analyses.save(analysis('old', 1), analysis('new', 3), analysis('mid', 2));
+    await repository.folders.save(folder('b', 2), folder('a', 1));
+
+    expect((await repository.analyses.list()).map(a => a.id)).toEqual(['new', 'mid', 'old']);
+    expect((await repository.folders.list()).map(f => f.id)).toEqual(['a', 'b']);
+  });
+
+  it('writes locally only when signed out', async () => {
+    const local = createMemoryBackend();
+    await createRepository(local).analyses.save(analysis('a', 1));
+    expect(await local.list('analyses')).toHaveLength(1);
+  });
+
+  it('mirrors saves and deletes to the cloud when signed in', async () => {
+    const local = createMemoryBackend();
+    const { cloud, remote, settle } = cloudStandIn(local);
+    const repository = createRepository(local, remote);
+
+    await repository.folders.save(folder('f', 1));
+    await repository.analyses.save(analysis('a', 1, 'f'), analysis('b', 2));
+    await repository.analyses.remove('b');
+    await settle();
+
+    expect(await cloud.list('folders')).toEqual([folder('f', 1)]);
+    expect(await cloud.list('analyses')).toEqual([analysis('a', 1, 'f')]);
+    expect(await local.list('analyses')).toEqual(await cloud.list('analyses'));
+  });
+
+  it('sends writes to the cloud in the order they were made', async () => {
+    const { remote, sent } = cloudStandIn();
+    const repository = createRepository(createMemoryBackend(), remote);
+
+    await repository.folders.save(folder('f', 1));
+    await repository.analyses.save(analysis('a', 1, 'f'));
+    await repository.folders.remove('f');
+
+    expect(sent.map(op => op.type)).toEqual(['upsertFolder', 'upsertAnalysis', 'deleteFolder']);
+  });
+
+  it('queues ids only and leaves the cloud alone when the device write fails', async () => {
+    const local = createMemoryBackend();
+    local.put = async () => { throw new StorageQuotaError(); };
+    const { remote, sent } = cloudStandIn(local);
+
+    await expect(createRepository(local, remote).analyses.save(analysis('a', 1))).rejects.toBeInstanceOf(StorageQuotaError);
+    expect(sent).toEqual([]);
+
+    const { remote: working, sent: queued } = cloudStandIn();
+    await createRepository(createMemoryBackend(), working).analyses.save(analysis('a', 1));
+    expect(queued).toEqual([{ type: 'upsertAnalysis', analysisId: 'a', label: 'Text Analysis' }]);
+  });
+
+  it('sends a multi-record save to the cloud as one batch', async () => {
+    const { remote, batches } = cloudStandIn();
+    const repository = createRepository(createMemoryBackend(), remote);
+
+    await repository.analyses.save(analysis('a', 1), analysis('b', 2));
+
+    expect(batches.map(batch => batch.length)).toEqual([2]);
+  });
+
+  it('keeps review logs on the device', async () => {
+    const { remote, sent } = cloudStandIn();
+    const repository = createRepository(createMemoryBackend(), remote);
+    const log: ReviewLog = { id: 'l', vocabularyId: 'v', term: 'tumble', grade: 'good', intervalDays: 1, reviewedAt: 1 };
+
+    await repository.reviewLogs.save(log);
+
+    expect(await repository.reviewLogs.list()).toEqual([log]);
+    expect(sent).toEqual([]);
+  });
+
+  it('replaces the local copy without touching the cloud', async () => {
+    const local = createMemoryBackend();
+    const { remote, sent } = cloudStandIn();
+    const repository = createRepository(local, remote);
+
+    await repository.analyses.replaceLocal([analysis('merged', 1)]);
+
+    expect(await local.list('analyses')).toEqual([analysis('merged', 1)]);
+    expect(sent).toEqual([]);
+  });
+
+  it('skips empty writes', async () => {
+    const { remote, sent } = cloudStandIn();
+    const repository = createRepository(createMemoryBackend(), remote);
+
+    await repository.analyses.save();
+    await repository.analyses.remove();
+
+    expect(sent).toEqual([]);
+  });
+});
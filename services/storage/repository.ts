@@ -0,0 +1,144 @@
+import { upgradeSavedAnalysis, upgradeSavedVocabularyItem } from '../schemaService';
+import type { SyncOperation } from '../syncQueue';
+import { AnalysisFolder, FlashcardLog, ReviewLog, SavedAnalysis, SavedVocabularyItem } from '../../types';
+import { CollectionName, CollectionRecords, StorageBackend } from './types';
+
+// Sends writes on to the cloud, e.g. through the sync queue; a batch is queued all or nothing
+export type RemoteWriter = (operations: SyncOperation[]) => void;
+
+export interface CollectionStore<T> {
+  /** Records stored on this device, in display order */
+  list(): Promise<T[]>;
+  /** Save records locally and send them to the cloud */
+  save(...records: T[]): Promise<void>;
+  /** Delete records locally and from the cloud */
+  remove(...ids: string[]): Promise<void>;
+  /** Overwrite the local copy, e.g. with merged cloud data; nothing is sent to the cloud */
+  replaceLocal(records: T[]): Promise<void>;
+}
+
+export interface Repository {
+  analyses: CollectionStore<SavedAnalysis>;
+  folders: CollectionStore<AnalysisFolder>;
+  vocabulary: CollectionStore<SavedVocabularyItem>;
+  reviewLogs: CollectionStore<ReviewLog>;
+  flashcardLogs: CollectionStore<FlashcardLog>;
+}
+
+// How each collection is ordered in the UI
+const ORDER: { [C in CollectionName]: (a: CollectionRecords[C], b: CollectionRecords[C]) => number } = {
+  analyses: (a, b) => b.date - a.date,
+  folders: (a, b) => a.createdAt - b.createdAt,
+  vocabulary: (a, b) => b.dateAdded - a.dateAdded,
+  reviewLogs: (a, b) => a.reviewedAt - b.reviewedAt,
+  flashcardLogs: (a, b) => a.answeredAt - b.answeredAt,
+};
+
+// Bring records written by older versions up to the current schema
+const UPGRADE: { [C in CollectionName]: (record: CollectionRecords[C]) => CollectionRecords[C] } = {
+  analyses: upgradeSavedAnalysis,
+  folders: folder => folder,
+  vocabulary: upgradeSavedVocabularyItem,
+  reviewLogs: log => log,
+  flashcardLogs: log => log,
+};
+
+// The cloud operations for each collection; review and flashcard logs never leave the device
+const REMOTE: { [C in CollectionName]: {
+  upsert: (record: CollectionRecords[C]) => SyncOperation | null;
+  remove: (id: string) => SyncOperation | null;
+} } = {
+  analyses: {
+    upsert: analysis => ({ type: 'upsertAnalysis', analysisId: analysis.id, label: analysis.fileName || 'Text Analysis' }),
+    remove: analysisId => ({ type: 'deleteAnalysis', analysisId }),
+  },
+  folders: {
+    upsert: folder => ({ type: 'upsertFolder', folderId: folder.id, label: folder.name }),
+    remove: folderId => ({ type: 'deleteFolder', folderId }),
+  },
+  vocabulary: {
+    upsert: item => ({ type: 'upsertVocabulary', itemId: item.id, label: item.term }),
+    remove: itemId => ({ type: 'deleteVocabulary', itemId }),
+  },
+  reviewLogs: {
+    upsert: () => null,
+    remove: () => null,
+  },
+  flashcardLogs: {
+    upsert: () => null,
+    remove: () => null,
+  },
+};
+
+// Send the device's current copy of a record; one deleted since it was queued has nothing to send
+const upsertFromLocal = async <C extends CollectionName>(
+  local: StorageBackend,
+  backend: StorageBackend,
+  collection: C,
+  id: string
+): Promise<void> => {
+  const record = (await local.list(collection)).find(r => r.id === id);
+  if (record) await backend.put(collection, [record]);
+};
+
+/**
+ * Apply a sync operation to a backend, reading upserted records from
+ * `local`. The sync queue uses this against Supabase; tests use it against
+ * an in-memory stand-in.
+ */
+export const applyOperation = async (local: StorageBackend, backend: StorageBackend, operation: SyncOperation): Promise<void> => {
+  switch (operation.type) {
+    case 'upsertAnalysis': return upsertFromLocal(local, backend, 'analyses', operation.analysisId);
+    case 'deleteAnalysis': return backend.remove('analyses', [operation.analysisId]);
+    case 'upsertFolder': return upsertFromLocal(local, backend, 'folders', operation.folderId);
+    case 'deleteFolder': return backend.remove('folders', [operation.folderId]);
+    case 'upsertVocabulary': return upsertFromLocal(local, backend, 'vocabulary', operation.itemId);
+    case 'deleteVocabulary': return backend.remove('vocabulary', [operation.itemId]);
+  }
+};
+
+const createCollectionStore = <C extends CollectionName>(
+  collection: C,
+  local: StorageBackend,
+  remote: RemoteWriter | null
+): CollectionStore<CollectionRecords[C]> => {
+  const send = (operations: (SyncOperation | null)[]) => {
+    const queued = operations.filter((operation): operation is SyncOperation => operation !== null);
+    if (remote && queued.length > 0) remote(queued);
+  };
+
+  return {
+    async list() {
+      return (await local.list(collection)).map(UPGRADE[collection]).sort(ORDER[collection]);
+    },
+
+    async save(...records) {
+      if (records.length === 0) return;
+      // Write here first: the queued cloud write reads the record back from this device
+      await local.put(collection, records);
+      send(records.map(REMOTE[collection].upsert));
+    },
+
+    async remove(...ids) {
+      if (ids.length === 0) return;
+      await local.remove(collection, ids);
+      send(ids.map(id => REMOTE[collection].remove(id)));
+    },
+
+    async replaceLocal(records) {
+      await local.replace(collection, records);
+    },
+  };
+};
+
+/**
+ * The one way app state is persisted: every write lands in the local backend
+ * and, when a remote writer is given (signed in), is also sent to the cloud.
+ */
+export const createRepository = (local: StorageBackend, remote: RemoteWriter | null = null): Repository => ({
+  analyses: createCollectionStore('analyses', local, remote),
+  folders: createCollectionStore('folders', local, remote),
+  vocabulary: createCollectionStore('vocabulary', local, remote),
+  reviewLogs: createCollectionStore('reviewLogs', local, remote),
+  flashcardLogs: createCollectionStore('flashcardLogs', local, remote),
+});
@@ -0,0 +1,70 @@
+import { dataService } from '../dataService';
+import { isSupabaseConfigured } from '../supabaseClient';
+import { AnalysisFolder, SavedAnalysis, SavedVocabularyItem } from '../../types';
+import { CollectionName, CollectionRecords, StorageBackend } from './types';
+
+const ensure = (ok: boolean, message: string) => {
+  if (!ok) throw new Error(message);
+};
+
+/**
+ * A user's rows in Supabase. Review and flashcard logs are device-local and
+ * not stored in the cloud, so those collections always read empty and ignore writes.
+ */
+export const createSupabaseBackend = (userId: string): StorageBackend => {
+  const put = async <C extends CollectionName>(collection: C, records: CollectionRecords[C][]) => {
+    for (const record of records) {
+      switch (collection) {
+        case 'analyses':
+          ensure(await dataService.upsertAnalysis(userId, record as SavedAnalysis), 'Failed to save analysis to the cloud.');
+          break;
+        case 'folders':
+          ensure(await dataService.upsertFolder(userId, record as AnalysisFolder), 'Failed to save folder to the cloud.');
+          break;
+        case 'vocabulary':
+          ensure(await dataService.upsertVocabularyItem(userId, record as SavedVocabularyItem), 'Failed to save word to the cloud.');
+          break;
+      }
+    }
+  };
+
+  const remove = async (collection: CollectionName, ids: string[]) => {
+    for (const id of ids) {
+      switch (collection) {
+        case 'analyses':
+          ensure(await dataService.deleteAnalysis(userId, id), 'Failed to delete analysis from the cloud.');
+          break;
+        case 'folders':
+          ensure(await dataService.deleteFolder(userId, id), 'Failed to delete folder from the cloud.');
+          break;
+        case 'vocabulary':
+          ensure(await dataService.deleteVocabularyItem(userId, id), 'Failed to delete word from the cloud.');
+          break;
+      }
+    }
+  };
+
+  const list = async <C extends CollectionName>(collection: C): Promise<CollectionRecords[C][]> => {
+    if (!isSupabaseConfigured()) throw new Error('Cloud sync is not configured.');
+    switch (collection) {
+      case 'analyses': return await dataService.fetchAnalyses(userId) as CollectionRecords[C][];
+      case 'folders': return await dataService.fetchFolders(userId) as CollectionRecords[C][];
+      case 'vocabulary': return await dataService.fetchVocabulary(userId) as CollectionRecords[C][];
+      default: return [];
+    }
+  };
+
+  return {
+    name: 'supabase',
+    list,
+    put,
+    remove,
+
+    async replace(collection, records) {
+      const keep = new Set(records.map(record => record.id));
+      const existing = await list(collection);
+      await remove(collection, existing.map(record => record.id).filter(id => !keep.has(id)));
+      await put(collection, records);
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import { AnalysisFolder, FlashcardLog, ReviewLog, SavedAnalysis, SavedVocabularyItem } from '../../types';
+
+// Record type stored in each collection
+export interface CollectionRecords {
+  analyses: SavedAnalysis;
+  folders: AnalysisFolder;
+  vocabulary: SavedVocabularyItem;
+  reviewLogs: ReviewLog;
+  flashcardLogs: FlashcardLog;
+}
+
+export type CollectionName = keyof CollectionRecords;
+
+export const COLLECTIONS: CollectionName[] = ['analyses', 'folders', 'vocabulary', 'reviewLogs', 'flashcardLogs'];
+
+/**
+ * A place records can be persisted. Every backend keys records by `id` and
+ * throws when a read or write fails, so callers never mistake an error for
+ * an empty collection.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  /** Every record in a collection, in no particular order */
+  list<C extends CollectionName>(collection: C): Promise<CollectionRecords[C][]>;
+  /** Insert or replace records by id */
+  put<C extends CollectionName>(collection: C, records: CollectionRecords[C][]): Promise<void>;
+  /** Delete records by id; unknown ids are ignored */
+  remove(collection: CollectionName, ids: string[]): Promise<void>;
+  /** Make the collection hold exactly these records */
+  replace<C extends CollectionName>(collection: C, records: CollectionRecords[C][]): Promise<void>;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult } from '../types';
+import { attachTimestamps, formatTimestamp, parseSubtitles } from './subtitleService';
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,500
+<i>JOHN: I think we should</i>
+
+2
+00:00:02,800 --> 00:00:04,000
+JOHN: head out early.
+
+3
+00:00:10,000 --> 00:00:12,000
+[door slams]
+
+4
+00:00:13,000 --> 00:00:15,000
+- Ready?
+- Always.
+`;
+
+const VTT = `WEBVTT
+
+NOTE written by hand
+
+intro
+00:01.000 --> 00:03.000
+<v Mary>It&#39;s a long shot &amp; we know it.
+
+00:03.200 --> 00:05.000
+<v Mary>But it&apos;s worth a try.
+`;
+
+describe('parseSubtitles', () => {
+  it('reads SRT cues, speaker labels and markup, and drops sound cues', () => {
+    const { cues } = parseSubtitles(SRT);
+
+    expect(cues.map(cue => cue.text)).toEqual(['I think we should', 'head out early.', '- Ready? - Always.']);
+    expect(cues[0]).toMatchObject({ start: 1_000, end: 2_500, speaker: 'JOHN' });
+  });
+
+  it('reads VTT voices and entities, skipping headers and notes', () => {
+    const { cues, turns } = parseSubtitles(VTT);
+
+    expect(cues).toHaveLength(2);
+    expect(cues[0]).toMatchObject({ start: 1_000, end: 3_000, speaker: 'Mary', text: "It's a long shot & we know it." });
+    // A finished sentence starts a new turn even from the same speaker
+    expect(turns.map(turn => turn.text)).toEqual(["It's a long shot & we know it.", "But it's worth a try."]);
+  });
+
+  it('merges a sentence split across cues into one turn and splits dashed speakers', () => {
+    const { turns, text } = parseSubtitles(SRT);
+
+    expect(turns.map(turn => turn.text)).toEqual(['I think we should head out early.', 'Ready?', 'Always.']);
+    expect(turns[0]).toMatchObject({ start: 1_000, end: 4_000, cueIndices: [0, 1] });
+    expect(text).toBe('JOHN: I think we should head out early.\nReady?\nAlways.');
+  });
+
+  it('keeps a dash inside a sentence as punctuation', () => {
+    const { turns } = parseSubtitles('1\n00:00:01,000 --> 00:00:03,000\nI was - well - tired.\n');
+
+    expect(turns.map(turn => turn.text)).toEqual(['I was - well - tired.']);
+  });
+
+  it('starts a new turn after a long pause', () => {
+    const { turns } = parseSubtitles('1\n00:00:01,000 --> 00:00:02,000\nSo we\n\n2\n00:00:05,000 --> 00:00:06,000\nwaited.\n');
+
+    expect(turns).toHaveLength(2);
+  });
+});
+
+describe('attachTimestamps', () => {
+  it('finds where a reworded quote was said', () => {
+    const result: AnalysisResult = {
+      summary: '',
+      tone: '',
+      structure_analysis: [],
+      vocabulary: [
+        { term: 'head out', definition: 'leave', category: 'phrasal_verbs', examples: [], source_context: 'we should head out early' },
+        { term: 'missing', definition: 'not there', category: 'topic_specific', examples: [], source_context: 'nothing like this' },
+      ],
+    };
+
+    const [found, missing] = attachTimestamps(result, parseSubtitles(SRT)).vocabulary;
+
+    expect(found.source_timestamp).toBe(1_000);
+    expect(missing.source_timestamp).toBeUndefined();
+    expect(formatTimestamp(3_725_000)).toBe('1:02:05');
+  });
+});
@@ -0,0 +1,218 @@
+import { AnalysisResult } from '../types';
+
+export interface SubtitleCue {
+  index: number;
+  start: number; // ms
+  end: number;   // ms
+  text: string;
+  speaker?: string;
+}
+
+// Consecutive cues merged into one line of dialogue
+export interface DialogueTurn {
+  start: number;
+  end: number;
+  speaker?: string;
+  text: string;
+  cueIndices: number[];
+}
+
+export interface ParsedSubtitles {
+  cues: SubtitleCue[];
+  turns: DialogueTurn[];
+  text: string; // Dialogue as plain text, one turn per line, ready for analysis
+}
+
+// Cues closer together than this are treated as one continuing sentence
+const MERGE_GAP_MS = 1500;
+const MIN_MATCH_SCORE = 0.6;
+
+const TIMING_REGEX = /((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+export const isSubtitleFile = (fileName: string): boolean => /\.(srt|vtt)$/i.test(fileName);
+
+const parseTimestamp = (value: string): number => {
+  const [clock, millis] = value.replace(',', '.').split('.');
+  const parts = clock.split(':').map(Number);
+  while (parts.length < 3) parts.unshift(0);
+  const [hours, minutes, seconds] = parts;
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + Number(millis.padEnd(3, '0'));
+};
+
+export const formatTimestamp = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Strip markup (<i>, <font>, <c.yellow>, {\an8}) and pull out a speaker if the cue names one
+const cleanCueText = (lines: string[]): { text: string; speaker?: string } => {
+  let raw = lines.join(' ');
+  let speaker: string | undefined;
+
+  const voiceMatch = raw.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+  if (voiceMatch) speaker = voiceMatch[1].trim();
+
+  raw = decodeEntities(
+    raw
+      .replace(/\{\\[^}]*\}/g, '')
+      .replace(/<[^>]+>/g, '')
+  ).replace(/\s+/g, ' ').trim();
+
+  // "JOHN: Hello there" style speaker labels
+  const labelMatch = raw.match(/^([A-Z][A-Z .'-]{1,30}):\s+(.*)$/);
+  if (!speaker && labelMatch) {
+    speaker = labelMatch[1].trim();
+    raw = labelMatch[2];
+  }
+
+  // Sound cues like [door slams] or (laughs) carry no dialogue
+  raw = raw.replace(/\[[^\]]*\]|\([^)]*\)/g, '').replace(/\s+/g, ' ').trim();
+
+  return { text: raw, speaker };
+};
+
+const parseCues = (source: string): SubtitleCue[] => {
+  const blocks = source
+    .replace(/^﻿/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: SubtitleCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIdx = lines.findIndex(line => TIMING_REGEX.test(line));
+    if (timingIdx === -1) continue; // WEBVTT header, NOTE, STYLE and REGION blocks
+
+    const [, start, end] = lines[timingIdx].match(TIMING_REGEX)!;
+    const { text, speaker } = cleanCueText(lines.slice(timingIdx + 1));
+    if (!text) continue;
+
+    cues.push({
+      index: cues.length,
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      text,
+      speaker,
+    });
+  }
+  return cues;
+};
+
+const endsSentence = (text: string): boolean => /[.!?…"'”♪]$/.test(text);
+
+const SPEAKER_DASH_REGEX = /^-\s+|(?<=[.!?…"'”♪])\s+-\s+/;
+
+const mergeIntoTurns = (cues: SubtitleCue[]): DialogueTurn[] => {
+  const turns: DialogueTurn[] = [];
+
+  for (const cue of cues) {
+    // A dash at the start of the cue, or after the end of a sentence, marks a change
+    // of speaker ("- Ready? - Always."); one mid-sentence is punctuation ("I was - well - tired")
+    const parts = cue.text.split(SPEAKER_DASH_REGEX).map(p => p.trim()).filter(Boolean);
+
+    parts.forEach((part, partIdx) => {
+      const previous = turns[turns.length - 1];
+      const continues =
+        previous &&
+        partIdx === 0 &&
+        parts.length === 1 &&
+        !cue.text.startsWith('-') &&
+        cue.speaker === previous.speaker &&
+        cue.start - previous.end <= MERGE_GAP_MS &&
+        (!endsSentence(previous.text) || /^[a-z]/.test(part));
+
+      if (continues) {
+        previous.text = `${previous.text} ${part}`;
+        previous.end = cue.end;
+        previous.cueIndices.push(cue.index);
+      } else {
+        turns.push({
+          start: cue.start,
+          end: cue.end,
+          speaker: cue.speaker,
+          text: part,
+          cueIndices: [cue.index],
+        });
+      }
+    });
+  }
+
+  return turns;
+};
+
+/**
+ * Parse an .srt or .vtt file into cues and merged dialogue turns
+ */
+export const parseSubtitles = (source: string): ParsedSubtitles => {
+  const cues = parseCues(source);
+  const turns = mergeIntoTurns(cues);
+  const text = turns
+    .map(turn => (turn.speaker ? `${turn.speaker}: ${turn.text}` : turn.text))
+    .join('\n');
+
+  return { cues, turns, text };
+};
+
+const normalizeForMatch = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9' ]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Share of the context's words that appear in the candidate text
+const overlapScore = (contextWords: string[], candidate: string): number => {
+  if (contextWords.length === 0) return 0;
+  const candidateWords = new Set(normalizeForMatch(candidate));
+  return contextWords.filter(word => candidateWords.has(word)).length / contextWords.length;
+};
+
+/**
+ * Find where in the episode a quoted line occurred. The model often trims or
+ * lightly rewords source_context, so this matches on word overlap rather than
+ * exact text. Returns the start time (ms) of the best matching cue.
+ */
+export const findCueTimestamp = (context: string, subtitles: ParsedSubtitles): number | undefined => {
+  const contextWords = normalizeForMatch(context);
+  let best: { score: number; turn: DialogueTurn } | undefined;
+
+  for (const turn of subtitles.turns) {
+    const score = overlapScore(contextWords, turn.text);
+    if (!best || score > best.score) best = { score, turn };
+  }
+  if (!best || best.score < MIN_MATCH_SCORE) return undefined;
+
+  // Narrow down to the cue within the turn where the quote starts
+  const { turn } = best;
+  const firstCue = turn.cueIndices
+    .map(idx => subtitles.cues[idx])
+    .find(cue => overlapScore(contextWords.slice(0, 3), cue.text) > 0);
+
+  return (firstCue ?? subtitles.cues[turn.cueIndices[0]]).start;
+};
+
+/**
+ * Annotate each vocabulary item with the timestamp of its source_context
+ */
+export const attachTimestamps = (result: AnalysisResult, subtitles: ParsedSubtitles): AnalysisResult => ({
+  ...result,
+  vocabulary: result.vocabulary.map(item => {
+    if (!item.source_context) return item;
+    const timestamp = findCueTimestamp(item.source_context, subtitles);
+    return timestamp === undefined ? item : { ...item, source_timestamp: timestamp };
+  }),
+});
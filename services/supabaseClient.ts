@@ -18,3 +18,6 @@ console.log('Supabase client:', supabase ? 'Initialized' : 'NOT initialized');
 
 export const isSupabaseConfigured = () => !!supabase;
 
+// Identifies this tab on every row it writes, so realtime echoes of its own changes can be skipped
+export const CLIENT_ID = crypto.randomUUID();
+
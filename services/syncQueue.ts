@@ -0,0 +1,284 @@
+import { AnalysisFolder, SavedAnalysis, SavedVocabularyItem } from '../types';
+import { isSupabaseConfigured } from './supabaseClient';
+import { applyOperation } from './storage/repository';
+import { createSupabaseBackend } from './storage/supabaseBackend';
+import { isQuotaExceeded, StorageQuotaError } from './storage/errors';
+import { StorageBackend } from './storage/types';
+
+/**
+ * A cloud write waiting to be applied. Only ids are queued: upserts send
+ * whatever the device holds for the record when they run, so the outbox
+ * stays small and every operation can be replayed safely.
+ */
+export type SyncOperation =
+  | { type: 'upsertAnalysis'; analysisId: string; label: string }
+  | { type: 'deleteAnalysis'; analysisId: string }
+  | { type: 'upsertFolder'; folderId: string; label: string }
+  | { type: 'deleteFolder'; folderId: string }
+  | { type: 'upsertVocabulary'; itemId: string; label: string }
+  | { type: 'deleteVocabulary'; itemId: string };
+
+export interface QueuedMutation {
+  id: string;
+  userId: string;
+  operation: SyncOperation;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  status: 'pending' | 'failed';
+  lastError?: string;
+}
+
+export interface SyncStatus {
+  isSyncing: boolean;
+  entries: QueuedMutation[];
+}
+
+const STORAGE_KEY = 'nativeNuance_syncQueue';
+// After this many attempts a write is marked failed and waits for the user to retry it
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+// An upsert as older versions queued it, with the whole record
+interface LegacyOperation {
+  type: string;
+  analysis?: SavedAnalysis;
+  folder?: AnalysisFolder;
+  item?: SavedVocabularyItem;
+}
+
+// Keep just the id and a label of a legacy upsert
+const upgradeOperation = (op: SyncOperation | LegacyOperation): SyncOperation => {
+  if ('analysis' in op && op.analysis) return { type: 'upsertAnalysis', analysisId: op.analysis.id, label: op.analysis.fileName || 'Text Analysis' };
+  if ('folder' in op && op.folder) return { type: 'upsertFolder', folderId: op.folder.id, label: op.folder.name };
+  if ('item' in op && op.item) return { type: 'upsertVocabulary', itemId: op.item.id, label: op.item.term };
+  return op as SyncOperation;
+};
+
+const loadEntries = (): QueuedMutation[] => {
+  try {
+    const stored: (Omit<QueuedMutation, 'operation'> & { operation: SyncOperation | LegacyOperation })[] =
+      JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return stored.map(entry => ({ ...entry, operation: upgradeOperation(entry.operation) }));
+  } catch (e) {
+    console.error('Failed to parse sync queue', e);
+    return [];
+  }
+};
+
+let entries: QueuedMutation[] = loadEntries();
+// Where queued upserts read the records they send
+let localBackend: StorageBackend | null = null;
+let isSyncing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const getStatus = (): SyncStatus => ({ isSyncing, entries });
+
+const notify = () => {
+  const status = getStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+const writeEntries = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    if (isQuotaExceeded(e)) {
+      throw new StorageQuotaError('Storage on this device is full, so your latest change was saved here but not queued for the cloud. Delete old analyses or export a backup to free up space.');
+    }
+    throw e;
+  }
+};
+
+// Bookkeeping while flushing; a failed write only costs retries after a reload
+const persist = () => {
+  try {
+    writeEntries();
+  } catch (e) {
+    console.error('Failed to save sync queue', e);
+  }
+  notify();
+};
+
+const backoffDelay = (attempts: number): number => {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2); // Jitter so tabs don't retry in lockstep
+};
+
+// The record an operation writes or removes, used to collapse superseded writes
+const targetOf = (op: SyncOperation): string => {
+  switch (op.type) {
+    case 'upsertAnalysis': return `analysis:${op.analysisId}`;
+    case 'deleteAnalysis': return `analysis:${op.analysisId}`;
+    case 'upsertFolder': return `folder:${op.folderId}`;
+    case 'deleteFolder': return `folder:${op.folderId}`;
+    case 'upsertVocabulary': return `vocabulary:${op.itemId}`;
+    case 'deleteVocabulary': return `vocabulary:${op.itemId}`;
+  }
+};
+
+// A later write makes an earlier pending one to the same record redundant
+const supersedes = (next: SyncOperation, previous: SyncOperation): boolean =>
+  targetOf(next) === targetOf(previous);
+
+/**
+ * Short label for the Sidebar's list of unsynced changes
+ */
+export const describeOperation = (op: SyncOperation): string => {
+  switch (op.type) {
+    case 'upsertAnalysis': return `Save "${op.label}"`;
+    case 'deleteAnalysis': return 'Delete an analysis';
+    case 'upsertFolder': return `Save folder "${op.label}"`;
+    case 'deleteFolder': return 'Delete a folder';
+    case 'upsertVocabulary': return `Save "${op.label}"`;
+    case 'deleteVocabulary': return 'Remove a word';
+  }
+};
+
+const scheduleRetry = (userId: string) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  // Only the oldest write can run next; a failed one waits for the user
+  const head = entries.find(e => e.userId === userId);
+  if (!head || head.status === 'failed') return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    syncQueue.flush(userId);
+  }, Math.max(0, head.nextAttemptAt - Date.now()));
+};
+
+export const syncQueue = {
+  /**
+   * Set where queued upserts read their records; nothing is sent until this is called
+   */
+  setLocalBackend(backend: StorageBackend): void {
+    localBackend = backend;
+  },
+
+  /**
+   * Record cloud writes, in order, and try to apply them right away. The
+   * batch is saved in one write, so it is queued whole or, with a
+   * StorageQuotaError thrown, not at all for the next session.
+   */
+  enqueue(userId: string, operations: SyncOperation[]): void {
+    if (!isSupabaseConfigured() || operations.length === 0) return;
+
+    operations.forEach(operation => {
+      entries = entries.filter(e => !(e.userId === userId && e.status === 'pending' && supersedes(operation, e.operation)));
+      entries.push({
+        id: crypto.randomUUID(),
+        userId,
+        operation,
+        createdAt: Date.now(),
+        attempts: 0,
+        nextAttemptAt: 0,
+        status: 'pending',
+      });
+    });
+    try {
+      writeEntries();
+    } finally {
+      // Still try this session, even if the queue couldn't be saved for the next one
+      notify();
+      syncQueue.flush(userId);
+    }
+  },
+
+  /**
+   * Apply queued writes for a user in order. Stops at the first failure so
+   * later writes (e.g. an analysis filed into a new folder) never overtake
+   * earlier ones; a write out of attempts holds the rest until it is retried or discarded.
+   */
+  async flush(userId: string): Promise<void> {
+    if (isSyncing || !localBackend || !navigator.onLine) return;
+    isSyncing = true;
+    persist();
+
+    try {
+      for (;;) {
+        const entry = entries.find(e => e.userId === userId);
+        if (!entry || entry.status === 'failed' || entry.nextAttemptAt > Date.now()) break;
+
+        let ok = false;
+        let errorMessage = '';
+        try {
+          await applyOperation(localBackend, createSupabaseBackend(userId), entry.operation);
+          ok = true;
+        } catch (e) {
+          errorMessage = e instanceof Error ? e.message : String(e);
+        }
+
+        if (ok) {
+          entries = entries.filter(e => e.id !== entry.id);
+          persist();
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        entries = entries.map(e => e.id === entry.id
+          ? {
+              ...e,
+              attempts,
+              lastError: errorMessage,
+              status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+              nextAttemptAt: Date.now() + backoffDelay(attempts),
+            }
+          : e);
+        persist();
+        break;
+      }
+    } finally {
+      isSyncing = false;
+      persist();
+      scheduleRetry(userId);
+    }
+  },
+
+  /**
+   * Retry everything now: failed writes get a fresh set of attempts and
+   * pending ones skip the rest of their backoff
+   */
+  retryAll(userId: string): void {
+    entries = entries.map(e => e.userId === userId
+      ? { ...e, status: 'pending', attempts: e.status === 'failed' ? 0 : e.attempts, nextAttemptAt: 0 }
+      : e);
+    persist();
+    syncQueue.flush(userId);
+  },
+
+  /**
+   * Drop a write the user no longer wants synced
+   */
+  discard(id: string): void {
+    entries = entries.filter(e => e.id !== id);
+    persist();
+  },
+
+  /**
+   * Whether the user has writes the cloud hasn't seen yet
+   */
+  hasPending(userId: string): boolean {
+    return entries.some(e => e.userId === userId);
+  },
+
+  /**
+   * Records with a delete still waiting to reach the cloud, e.g. "analysis:<id>"
+   */
+  pendingDeletions(userId: string): Set<string> {
+    return new Set(entries
+      .filter(e => e.userId === userId && (e.operation.type === 'deleteAnalysis' || e.operation.type === 'deleteFolder'))
+      .map(e => targetOf(e.operation)));
+  },
+
+  getStatus,
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    listeners.add(listener);
+    listener(getStatus());
+    return () => { listeners.delete(listener); };
+  },
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ANONYMOUS_LIMITS, createUsageTracker, SIGNED_IN_LIMITS } from './usageService';
+
+// The tracker only reads and writes one key
+const memoryStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); },
+  } as Storage;
+};
+
+const trackerAt = (storage: Storage, date: string) => createUsageTracker(() => storage, () => new Date(date));
+
+describe('usage tracker', () => {
+  it('counts per person and resets each day and month', () => {
+    const storage = memoryStorage();
+    const tracker = trackerAt(storage, '2026-03-10T12:00:00');
+    tracker.record('analysis', 'user-1');
+    tracker.record('analysis', 'user-1');
+    tracker.record('lookup', null);
+
+    expect(tracker.getSummary('user-1').counts.analysis).toEqual({
+      today: 2,
+      thisMonth: 2,
+      dailyLimit: SIGNED_IN_LIMITS.daily.analysis,
+      monthlyLimit: SIGNED_IN_LIMITS.monthly.analysis,
+    });
+    expect(tracker.getSummary(null).counts.lookup.today).toBe(1);
+    expect(tracker.getSummary(null).counts.analysis.today).toBe(0);
+
+    expect(trackerAt(storage, '2026-03-11T09:00:00').getSummary('user-1').counts.analysis)
+      .toMatchObject({ today: 0, thisMonth: 2 });
+    expect(trackerAt(storage, '2026-04-01T09:00:00').getSummary('user-1').counts.analysis)
+      .toMatchObject({ today: 0, thisMonth: 0 });
+  });
+
+  it('refuses calls past the allowance with a message for the limit hit', () => {
+    const tracker = trackerAt(memoryStorage(), '2026-03-10T12:00:00');
+    for (let i = 0; i < ANONYMOUS_LIMITS.daily.analysis; i++) {
+      tracker.assertAllowed('analysis', null);
+      tracker.record('analysis', null);
+    }
+
+    expect(() => tracker.assertAllowed('analysis', null)).toThrow(/Sign in/);
+    expect(() => tracker.assertAllowed('lookup', null)).not.toThrow();
+    expect(() => tracker.assertAllowed('analysis', 'user-1')).not.toThrow();
+  });
+
+  it('tells subscribers when a count changes', () => {
+    const tracker = trackerAt(memoryStorage(), '2026-03-10T12:00:00');
+    let calls = 0;
+    const unsubscribe = tracker.subscribe(() => calls++);
+
+    tracker.record('practice', 'user-1');
+    unsubscribe();
+    tracker.record('practice', 'user-1');
+
+    expect(calls).toBe(1);
+  });
+});
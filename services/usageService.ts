@@ -0,0 +1,171 @@
+import { QuotaError } from './apiErrors';
+
+export type UsageKind = 'analysis' | 'lookup' | 'practice' | 'grading';
+
+export const USAGE_KINDS: UsageKind[] = ['analysis', 'lookup', 'practice', 'grading'];
+
+type Counts = Record<UsageKind, number>;
+
+interface UsageLimits {
+  daily: Counts;
+  monthly: Counts;
+}
+
+/**
+ * Allowances per person. The meter is advisory: counts live in this
+ * browser's localStorage, so each device counts separately and clearing
+ * site data resets them. The Edge Functions don't enforce these limits;
+ * they only pass on refusals from the model provider. Signed-out use gets
+ * a smaller allowance.
+ */
+export const SIGNED_IN_LIMITS: UsageLimits = {
+  daily: { analysis: 50, lookup: 300, practice: 50, grading: 250 },
+  monthly: { analysis: 500, lookup: 3000, practice: 500, grading: 2500 },
+};
+
+export const ANONYMOUS_LIMITS: UsageLimits = {
+  daily: { analysis: 3, lookup: 20, practice: 3, grading: 15 },
+  monthly: { analysis: 10, lookup: 100, practice: 10, grading: 50 },
+};
+
+export interface UsageCount {
+  today: number;
+  thisMonth: number;
+  dailyLimit: number;
+  monthlyLimit: number;
+}
+
+export interface UsageSummary {
+  isAnonymous: boolean;
+  counts: Record<UsageKind, UsageCount>;
+}
+
+// Counts for one person, reset when the day or month changes
+interface UsageRecord {
+  day: string;
+  month: string;
+  today: Counts;
+  thisMonth: Counts;
+}
+
+const STORAGE_KEY = 'nativeNuance_usage';
+const ANONYMOUS = 'anonymous';
+
+const KIND_PLURALS: Record<UsageKind, string> = {
+  analysis: 'analyses',
+  lookup: 'word lookups',
+  practice: 'practice batches',
+  grading: 'graded answers',
+};
+
+const zero = (): Counts => ({ analysis: 0, lookup: 0, practice: 0, grading: 0 });
+
+// Local calendar day and month, so "today" matches the user's clock
+const periodKeys = (date: Date) => {
+  const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  return { month, day: `${month}-${String(date.getDate()).padStart(2, '0')}` };
+};
+
+/**
+ * Counts AI calls per person (or per device when signed out) for today and
+ * this month. `getStorage` is read lazily so tests can swap it out.
+ */
+export const createUsageTracker = (getStorage: () => Storage = () => window.localStorage, now = () => new Date()) => {
+  const listeners = new Set<() => void>();
+
+  const readAll = (): Record<string, UsageRecord> => {
+    try {
+      return JSON.parse(getStorage().getItem(STORAGE_KEY) || '{}');
+    } catch (e) {
+      console.error('Failed to parse usage counts', e);
+      return {};
+    }
+  };
+
+  const read = (owner: string): UsageRecord => {
+    const { day, month } = periodKeys(now());
+    const record = readAll()[owner];
+    return {
+      day,
+      month,
+      today: record?.day === day ? { ...zero(), ...record.today } : zero(),
+      thisMonth: record?.month === month ? { ...zero(), ...record.thisMonth } : zero(),
+    };
+  };
+
+  const write = (owner: string, record: UsageRecord) => {
+    try {
+      getStorage().setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [owner]: record }));
+    } catch (e) {
+      // Losing a count only makes the meter generous; never fail the call over it
+      console.error('Failed to save usage counts', e);
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  const ownerOf = (userId: string | null) => userId || ANONYMOUS;
+  const limitsFor = (userId: string | null) => (userId ? SIGNED_IN_LIMITS : ANONYMOUS_LIMITS);
+
+  return {
+    /**
+     * Today's and this month's counts against the limits that apply
+     */
+    getSummary(userId: string | null): UsageSummary {
+      const record = read(ownerOf(userId));
+      const limits = limitsFor(userId);
+      const counts = {} as Record<UsageKind, UsageCount>;
+      USAGE_KINDS.forEach(kind => {
+        counts[kind] = {
+          today: record.today[kind],
+          thisMonth: record.thisMonth[kind],
+          dailyLimit: limits.daily[kind],
+          monthlyLimit: limits.monthly[kind],
+        };
+      });
+      return { isAnonymous: !userId, counts };
+    },
+
+    /**
+     * Throw a QuotaError explaining which limit is used up, if any
+     */
+    assertAllowed(kind: UsageKind, userId: string | null): void {
+      const { today, thisMonth } = read(ownerOf(userId));
+      const limits = limitsFor(userId);
+      const plural = KIND_PLURALS[kind];
+
+      if (thisMonth[kind] >= limits.monthly[kind]) {
+        throw new QuotaError(undefined, undefined, userId
+          ? `You've used all ${limits.monthly[kind]} ${plural} for this month. Your allowance resets on the 1st.`
+          : `You've used this month's free ${plural}. Sign in to keep going.`);
+      }
+      if (today[kind] >= limits.daily[kind]) {
+        throw new QuotaError(undefined, undefined, userId
+          ? `You've used all ${limits.daily[kind]} ${plural} for today. Your allowance resets at midnight.`
+          : `You've used today's ${limits.daily[kind]} free ${plural}. Sign in for a bigger allowance.`);
+      }
+    },
+
+    /**
+     * Count one completed call
+     */
+    record(kind: UsageKind, userId: string | null): void {
+      const owner = ownerOf(userId);
+      const record = read(owner);
+      write(owner, {
+        ...record,
+        today: { ...record.today, [kind]: record.today[kind] + 1 },
+        thisMonth: { ...record.thisMonth, [kind]: record.thisMonth[kind] + 1 },
+      });
+    },
+
+    /**
+     * Called whenever a count changes
+     */
+    subscribe(listener: () => void): () => void {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export const usageService = createUsageTracker();
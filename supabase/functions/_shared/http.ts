@@ -0,0 +1,73 @@
+import { EdgeErrorBody } from '../../../types.ts';
+import { ModelError } from './model.ts';
+import { Schema, schemaErrors } from './schema.ts';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, accept',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+  });
+
+export const errorResponse = (status: number, error: string, headers: Record<string, string> = {}) =>
+  jsonResponse({ error } satisfies EdgeErrorBody, status, headers);
+
+/** Fails the request with `status` and a message the client can show */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// The error reply for anything a handler throws
+export const responseForError = (error: unknown): Response => {
+  if (error instanceof HttpError) {
+    return errorResponse(error.status, error.message);
+  }
+  if (error instanceof ModelError) {
+    return errorResponse(error.status, error.message, error.retryAfter ? { 'Retry-After': error.retryAfter } : {});
+  }
+  console.error('Unexpected error', error);
+  return errorResponse(500, 'Something went wrong. Please try again.');
+};
+
+/**
+ * A function that takes a JSON body matching `schema`. CORS preflight and
+ * malformed requests are answered here; `run` returns the reply body, or a
+ * whole Response when it needs one (e.g. to stream).
+ */
+export const serveJson = <T>(
+  schema: Schema,
+  run: (body: T, signal: AbortSignal) => Promise<unknown>
+) => async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse(400, 'The request body must be JSON');
+  }
+  const errors = schemaErrors(schema, body);
+  if (errors.length > 0) {
+    return errorResponse(400, `Invalid request: ${errors.join('; ')}`);
+  }
+
+  try {
+    const result = await run(body as T, req.signal);
+    return result instanceof Response ? result : jsonResponse(result);
+  } catch (e) {
+    return responseForError(e);
+  }
+};
@@ -0,0 +1,117 @@
+import { Prompt } from './prompts.ts';
+import { Schema, schemaErrors } from './schema.ts';
+
+/**
+ * The language model behind the functions. Handlers only see this interface,
+ * so tests can swap in a stub (see testing.ts).
+ */
+export interface Model {
+  // The whole reply; with a schema, the model is asked for JSON of that shape
+  generate(prompt: Prompt, options: { schema?: Schema; signal?: AbortSignal }): Promise<string>;
+  // The reply as it is written, in chunks of text that needn't line up with anything
+  stream(prompt: Prompt, options: { signal?: AbortSignal }): AsyncIterable<string>;
+}
+
+/**
+ * The model failed or replied with something unusable. `status` is what the
+ * function answers with: 429 passes the model's rate limit through, anything
+ * else becomes a 502.
+ */
+export class ModelError extends Error {
+  constructor(message: string, public status = 502, public retryAfter?: string) {
+    super(message);
+    this.name = 'ModelError';
+  }
+}
+
+/**
+ * Ask for JSON matching `schema` and check the reply against it before it goes
+ * anywhere near the client
+ */
+export const generateJson = async <T>(model: Model, prompt: Prompt, schema: Schema, signal?: AbortSignal): Promise<T> => {
+  const reply = await model.generate(prompt, { schema, signal });
+  let value: unknown;
+  try {
+    value = JSON.parse(reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch {
+    throw new ModelError('The model replied with invalid JSON');
+  }
+  const errors = schemaErrors(schema, value);
+  if (errors.length > 0) {
+    console.error('Model reply does not match its schema', errors);
+    throw new ModelError('The model replied in an unexpected shape');
+  }
+  return value as T;
+};
+
+// ==================== GEMINI ====================
+
+const GEMINI_API = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// Text of the first candidate in a generateContent reply (or one streamed piece of it)
+const candidateText = (reply: unknown): string => {
+  const parts = (reply as { candidates?: { content?: { parts?: { text?: string }[] } }[] })
+    ?.candidates?.[0]?.content?.parts ?? [];
+  return parts.map(part => part.text ?? '').join('');
+};
+
+/**
+ * Gemini over its REST API. Plain fetch keeps the functions free of SDK
+ * imports, and runs the same under Deno and in tests.
+ */
+export const createGeminiModel = ({ apiKey, model }: { apiKey: string; model: string }): Model => {
+  const request = async (method: string, prompt: Prompt, generationConfig: object, signal?: AbortSignal) => {
+    if (!apiKey) throw new ModelError('GEMINI_API_KEY is not set', 500);
+
+    const response = await fetch(`${GEMINI_API}/${model}:${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: prompt.system }] },
+        contents: [{ role: 'user', parts: [{ text: prompt.user }] }],
+        generationConfig,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      console.error('Gemini request failed', response.status, body);
+      throw new ModelError(
+        response.status === 429 ? 'The AI model is busy. Please try again shortly.' : 'The AI model request failed',
+        response.status === 429 ? 429 : 502,
+        response.headers.get('Retry-After') ?? undefined
+      );
+    }
+    return response;
+  };
+
+  return {
+    async generate(prompt, { schema, signal }) {
+      const config = schema ? { responseMimeType: 'application/json', responseSchema: schema } : {};
+      const response = await request('generateContent', prompt, config, signal);
+      return candidateText(await response.json());
+    },
+
+    async *stream(prompt, { signal }) {
+      const response = await request('streamGenerateContent?alt=sse', prompt, {}, signal);
+      if (!response.body) return;
+
+      // Server-sent events: each `data:` line holds one piece of the reply
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+          const text = candidateText(JSON.parse(line.slice('data:'.length)));
+          if (text) yield text;
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { SourceType } from '../../../types';
+import { analysisEventsPrompt, analysisPrompt, gradeAnswerPrompt, lookupPrompt, practicePrompt, strategyPrompt } from './prompts';
+import { ANALYSIS_RESULT_SCHEMA, ANSWER_GRADE_SCHEMA, PRACTICE_SCHEMA, Schema, WORD_DEFINITION_SCHEMA } from './schema';
+
+// Every property name anywhere in a schema
+const fieldsOf = (schema: Schema): string[] => {
+  if (schema.type === 'ARRAY') return fieldsOf(schema.items);
+  if (schema.type !== 'OBJECT') return [];
+  return Object.entries(schema.properties).flatMap(([key, property]) => [key, ...fieldsOf(property)]);
+};
+
+const vocabulary = [{ term: 'headwinds', definition: 'difficulties', category: 'topic_specific' as const, examples: [] }];
+
+// Models without schema support (and the streaming prompt) only know the shape from the prompt text
+describe('prompts', () => {
+  it.each([
+    ['analysis', analysisPrompt('text', SourceType.BOOK).system, ANALYSIS_RESULT_SCHEMA],
+    ['analysis events', analysisEventsPrompt('text', SourceType.BOOK).system, ANALYSIS_RESULT_SCHEMA],
+    ['strategy', strategyPrompt('job interviews').system, ANALYSIS_RESULT_SCHEMA],
+    ['practice', practicePrompt(vocabulary).system, PRACTICE_SCHEMA],
+    ['lookup', lookupPrompt('pivot', 'a pivot').system, WORD_DEFINITION_SCHEMA],
+    ['grading', gradeAnswerPrompt({ original_concept: 'a', target_term: 'b', native_version: 'c', answer: 'd' }).system, ANSWER_GRADE_SCHEMA],
+  ])('%s prompt describes every field of its schema', (name, system, schema) => {
+    // The events prompt spells out structure points and items without their array wrappers
+    const expected = fieldsOf(schema).filter(field => !(name === 'analysis events' && ['structure_analysis', 'vocabulary'].includes(field)));
+    expect(expected.filter(field => !system.includes(`"${field}"`))).toEqual([]);
+  });
+
+  it('sends the learner\'s input as the user turn', () => {
+    expect(analysisPrompt('Some text', SourceType.EMAIL)).toEqual(expect.objectContaining({ user: 'Some text' }));
+    expect(practicePrompt(vocabulary).user).toBe('headwinds: difficulties');
+    expect(lookupPrompt('pivot', 'a pivot').user).toBe('Word: pivot\nContext: a pivot');
+  });
+});
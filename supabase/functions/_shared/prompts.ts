@@ -0,0 +1,101 @@
+import { GradeAnswerRequest, SourceType, VocabularyItem } from '../../../types.ts';
+
+/**
+ * Prompt templates for the Edge Functions, also used by the client's direct
+ * providers (Gemini, OpenAI-compatible) so every provider asks the same thing.
+ * Bump PROMPT_VERSION in services/responseCache.ts when a prompt changes, so
+ * cached answers to the old prompt aren't served.
+ */
+
+export interface Prompt {
+  system: string;
+  user: string;
+}
+
+const JSON_ONLY = 'Reply with a single JSON object and nothing else: no markdown fences, no commentary.';
+
+const VOCABULARY_ITEM_SHAPE = `{
+    "term": string,
+    "definition": string,
+    "category": "idioms_fixed" | "phrasal_verbs" | "nuance_sarcasm" | "chunks_structures" | "topic_specific",
+    "source_context": string (the sentence where it appears, if any),
+    "imagery_etymology": string (the picture or origin that makes it memorable, if any),
+    "examples": [{ "context_label": string, "sentence": string, "explanation": string }]
+  }`;
+
+const VOCABULARY_SHAPE = `"vocabulary": [${VOCABULARY_ITEM_SHAPE}]`;
+
+const ANALYSIS_SHAPE = `{
+  "summary": string (one or two sentences),
+  "tone": string (a few words),
+  "structure_analysis": [{ "section": string, "purpose": string, "native_pattern": string }],
+  ${VOCABULARY_SHAPE}
+}`;
+
+const COACH = 'You are a coach helping advanced learners of English sound like native speakers. ' +
+  'You care about idioms, phrasal verbs, nuance and the chunks natives reach for, not textbook vocabulary.';
+
+export const analysisPrompt = (text: string, sourceType: SourceType): Prompt => ({
+  system: `${COACH}
+Analyze the text the user sends (${sourceType}). Pick the 10-20 expressions most worth learning, explain each with two or three examples in different contexts, and outline how the text is structured.
+${JSON_ONLY}
+Shape: ${ANALYSIS_SHAPE}`,
+  user: text,
+});
+
+/**
+ * The streaming variant of analysisPrompt: one event per line, so each can be
+ * forwarded to the client as soon as the model finishes writing it
+ */
+export const analysisEventsPrompt = (text: string, sourceType: SourceType): Prompt => ({
+  system: `${COACH}
+Analyze the text the user sends (${sourceType}). Pick the 10-20 expressions most worth learning, explain each with two or three examples in different contexts, and outline how the text is structured.
+Reply with newline-delimited JSON: one compact JSON object per line, no markdown fences, no commentary, in this order:
+{"type": "meta", "summary": string (one or two sentences), "tone": string (a few words)}
+then one line per part of the structure:
+{"type": "structure", "point": { "section": string, "purpose": string, "native_pattern": string }}
+then one line per expression:
+{"type": "vocabulary", "item": ${VOCABULARY_ITEM_SHAPE}}`,
+  user: text,
+});
+
+export const strategyPrompt = (topic: string): Prompt => ({
+  system: `${COACH}
+The user wants to talk about a topic. Lay out how a native speaker would structure that conversation or piece of writing, and the expressions they would use.
+${JSON_ONLY}
+Shape: ${ANALYSIS_SHAPE}`,
+  user: topic,
+});
+
+export const practicePrompt = (vocabulary: VocabularyItem[]): Prompt => ({
+  system: `${COACH}
+Write one realistic scenario and, for each expression, a sentence a learner might say plainly ("original_concept") next to how a native would say it using the expression ("native_version"), with a short explanation.
+${JSON_ONLY}
+Shape: { "scenario": string, "sentences": [{ "original_concept": string, "native_version": string, "explanation": string, "term": string (the expression, exactly as listed) }] }`,
+  user: vocabulary.map(item => `${item.term}: ${item.definition}`).join('\n'),
+});
+
+export const gradeAnswerPrompt = ({ original_concept, target_term, native_version, answer }: GradeAnswerRequest): Prompt => ({
+  system: `${COACH}
+The learner was shown a plain sentence and asked to say it the way a native would, using a target expression. Grade their answer.
+Judge naturalness, not closeness to the model answer: a different but natural phrasing deserves full marks. Point out each unnatural collocation or word choice, quoting the learner's words, and give the fix a native would use.
+${JSON_ONLY}
+Shape: {
+  "score": number (0-10; 7 or more means a native would say it that way),
+  "used_target": boolean (uses the target expression, in any correct form),
+  "issues": [{ "phrase": string, "problem": string, "suggestion": string }],
+  "suggested_fix": string (their answer with the issues fixed, changed as little as possible),
+  "feedback": string (one or two encouraging sentences)
+}`,
+  user: `Plain sentence: ${original_concept}
+Target expression: ${target_term}
+Model answer: ${native_version}
+Learner's answer: ${answer}`,
+});
+
+export const lookupPrompt = (word: string, context: string): Prompt => ({
+  system: `You are a concise learner's dictionary. Define the word or phrase as it is used in the given context, in one or two plain sentences, and give its IPA pronunciation.
+${JSON_ONLY}
+Shape: { "definition": string, "pronunciation": string }`,
+  user: `Word: ${word}\nContext: ${context}`,
+});
@@ -0,0 +1,199 @@
+import { SourceType } from '../../../types.ts';
+
+/**
+ * The subset of OpenAPI schema that Gemini accepts as a `responseSchema`. The
+ * same objects validate incoming requests and the model's replies.
+ */
+export type Schema =
+  | { type: 'STRING'; enum?: string[]; description?: string }
+  | { type: 'NUMBER' | 'BOOLEAN'; description?: string }
+  | { type: 'ARRAY'; items: Schema; description?: string }
+  | { type: 'OBJECT'; properties: Record<string, Schema>; required?: string[]; description?: string };
+
+/**
+ * Everything about `value` that doesn't match `schema`, as readable paths.
+ * Unknown object keys are allowed; models add them and clients ignore them.
+ */
+export const schemaErrors = (schema: Schema, value: unknown, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'STRING':
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} should be one of ${schema.enum.join(', ')}`];
+      return [];
+    case 'NUMBER':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} should be a number`];
+    case 'BOOLEAN':
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    case 'ARRAY':
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return value.flatMap((item, index) => schemaErrors(schema.items, item, `${path}[${index}]`));
+    case 'OBJECT': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties).flatMap(([key, property]) => {
+        if (record[key] === undefined) {
+          return schema.required?.includes(key) ? [`${path}.${key} is required`] : [];
+        }
+        return schemaErrors(property, record[key], `${path}.${key}`);
+      });
+    }
+  }
+};
+
+const string = (description?: string): Schema => ({ type: 'STRING', description });
+
+// ==================== RESPONSES ====================
+
+export const STRUCTURE_POINT_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: {
+    section: string('Name of the part, e.g. "Hook"'),
+    purpose: string('What the part does for the reader'),
+    native_pattern: string('A reusable phrase pattern natives use here'),
+  },
+  required: ['section', 'purpose', 'native_pattern'],
+};
+
+export const VOCABULARY_ITEM_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: {
+    term: string(),
+    definition: string(),
+    category: {
+      type: 'STRING',
+      enum: ['idioms_fixed', 'phrasal_verbs', 'nuance_sarcasm', 'chunks_structures', 'topic_specific'],
+    },
+    source_context: string('The sentence where the term appears, if any'),
+    imagery_etymology: string('The picture or origin that makes the term memorable, if any'),
+    examples: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          context_label: string('e.g. "In Business", "Literal"'),
+          sentence: string(),
+          explanation: string(),
+        },
+        required: ['context_label', 'sentence'],
+      },
+    },
+  },
+  required: ['term', 'definition', 'category', 'examples'],
+};
+
+export const ANALYSIS_RESULT_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: {
+    summary: string('One or two sentences'),
+    tone: string('A few words'),
+    structure_analysis: { type: 'ARRAY', items: STRUCTURE_POINT_SCHEMA },
+    vocabulary: { type: 'ARRAY', items: VOCABULARY_ITEM_SCHEMA },
+  },
+  required: ['summary', 'tone', 'vocabulary'],
+};
+
+export const PRACTICE_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: {
+    scenario: string(),
+    sentences: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          original_concept: string('How a learner might say it plainly'),
+          native_version: string('How a native would say it, using the expression'),
+          explanation: string(),
+          term: string('The practiced expression used in native_version'),
+        },
+        required: ['original_concept', 'native_version', 'explanation'],
+      },
+    },
+  },
+  required: ['scenario', 'sentences'],
+};
+
+export const ANSWER_GRADE_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: {
+    score: { type: 'NUMBER', description: '0-10; 7 or more means a native speaker would say it that way' },
+    used_target: { type: 'BOOLEAN', description: 'Whether the answer uses the target expression or a correct form of it' },
+    issues: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          phrase: string('The unnatural words, quoted from the answer'),
+          problem: string('Why a native would not put it that way'),
+          suggestion: string('What a native would say instead'),
+        },
+        required: ['phrase', 'problem', 'suggestion'],
+      },
+    },
+    suggested_fix: string('The answer with the issues fixed, changed as little as possible'),
+    feedback: string('One or two encouraging sentences'),
+  },
+  required: ['score', 'used_target', 'issues', 'suggested_fix', 'feedback'],
+};
+
+export const WORD_DEFINITION_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: {
+    definition: string(),
+    pronunciation: string('IPA'),
+  },
+  required: ['definition', 'pronunciation'],
+};
+
+// Streamed analysis events, by type; `error` events only ever come from the server
+export const ANALYSIS_EVENT_SCHEMAS: Record<'meta' | 'structure' | 'vocabulary', Schema> = {
+  meta: { type: 'OBJECT', properties: { summary: string(), tone: string() }, required: ['summary', 'tone'] },
+  structure: { type: 'OBJECT', properties: { point: STRUCTURE_POINT_SCHEMA }, required: ['point'] },
+  vocabulary: { type: 'OBJECT', properties: { item: VOCABULARY_ITEM_SCHEMA }, required: ['item'] },
+};
+
+// ==================== REQUESTS ====================
+
+export const ANALYZE_TEXT_REQUEST_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: {
+    text: string(),
+    sourceType: { type: 'STRING', enum: Object.values(SourceType) },
+    stream: { type: 'BOOLEAN' },
+  },
+  required: ['text', 'sourceType'],
+};
+
+export const GENERATE_STRATEGY_REQUEST_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: { topic: string() },
+  required: ['topic'],
+};
+
+export const GENERATE_PRACTICE_REQUEST_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: {
+    vocabulary: {
+      type: 'ARRAY',
+      items: { type: 'OBJECT', properties: { term: string(), definition: string() }, required: ['term'] },
+    },
+  },
+  required: ['vocabulary'],
+};
+
+export const GRADE_ANSWER_REQUEST_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: {
+    original_concept: string(),
+    target_term: string(),
+    native_version: string(),
+    answer: string(),
+  },
+  required: ['original_concept', 'target_term', 'native_version', 'answer'],
+};
+
+export const LOOKUP_WORD_REQUEST_SCHEMA: Schema = {
+  type: 'OBJECT',
+  properties: { word: string(), context: string() },
+  required: ['word', 'context'],
+};
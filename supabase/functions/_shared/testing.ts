@@ -0,0 +1,68 @@
+import { AnalysisResult } from '../../../types.ts';
+import { Model, ModelError } from './model.ts';
+import { Prompt } from './prompts.ts';
+import { Schema } from './schema.ts';
+
+/**
+ * Test harness: a model that answers from canned replies and records what it
+ * was asked, plus helpers to call a handler the way the client does.
+ */
+
+export interface StubModelCall {
+  prompt: Prompt;
+  schema?: Schema;
+}
+
+export interface StubModelOptions {
+  // What generate() resolves with
+  reply?: string;
+  // What stream() yields, chunk by chunk
+  chunks?: string[];
+  // Thrown by generate(), or by stream() after yielding failAfterChunks chunks
+  error?: ModelError;
+  failAfterChunks?: number;
+}
+
+export const stubModel = ({ reply = '{}', chunks = [], error, failAfterChunks = 0 }: StubModelOptions = {}) => {
+  const calls: StubModelCall[] = [];
+  const model: Model = {
+    async generate(prompt, { schema }) {
+      calls.push({ prompt, schema });
+      if (error) throw error;
+      return reply;
+    },
+    async *stream(prompt) {
+      calls.push({ prompt });
+      for (const [index, chunk] of chunks.entries()) {
+        if (error && index === failAfterChunks) throw error;
+        yield chunk;
+      }
+      if (error && failAfterChunks >= chunks.length) throw error;
+    },
+  };
+  return { model, calls };
+};
+
+// POST `body` as JSON, like the client's edge provider
+export const post = (handler: (req: Request) => Promise<Response>, body: unknown) =>
+  handler(new Request('http://localhost/functions/v1/test', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  }));
+
+export const readNdjson = async (response: Response): Promise<unknown[]> =>
+  (await response.text()).split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+export const SAMPLE_ANALYSIS: AnalysisResult = {
+  summary: 'Tech stocks fell despite strong earnings.',
+  tone: 'Analytical',
+  structure_analysis: [{ section: 'Hook', purpose: 'Lead with the contrast', native_pattern: 'While X, Y...' }],
+  vocabulary: [{
+    term: 'headwinds',
+    definition: 'Conditions that make progress harder',
+    category: 'topic_specific',
+    source_context: 'Analysts cite regulatory headwinds.',
+    examples: [{ context_label: 'In Business', sentence: 'Retailers face strong headwinds.' }],
+  }],
+};
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SourceType } from '../../../types';
+import { ModelError } from '../_shared/model';
+import { post, readNdjson, SAMPLE_ANALYSIS, stubModel } from '../_shared/testing';
+import { createAnalyzeTextHandler, MAX_TEXT_LENGTH } from './handler';
+
+const request = { text: 'Tech stocks fell today.', sourceType: SourceType.NEWS };
+
+const eventLines = [
+  JSON.stringify({ type: 'meta', summary: SAMPLE_ANALYSIS.summary, tone: SAMPLE_ANALYSIS.tone }),
+  JSON.stringify({ type: 'structure', point: SAMPLE_ANALYSIS.structure_analysis![0] }),
+  '```json',
+  JSON.stringify({ type: 'vocabulary', item: { term: 'no definition', category: 'idioms_fixed', examples: [] } }),
+  JSON.stringify({ type: 'vocabulary', item: SAMPLE_ANALYSIS.vocabulary[0] }),
+];
+
+// The model's reply cut into pieces that don't line up with its lines
+const chunked = (text: string, size = 11) =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+
+describe('analyze-text', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('answers with a schema-checked analysis', async () => {
+    const { model, calls } = stubModel({ reply: JSON.stringify(SAMPLE_ANALYSIS) });
+
+    const response = await post(createAnalyzeTextHandler(model), request);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(SAMPLE_ANALYSIS);
+    expect(calls[0].prompt.user).toBe(request.text);
+    expect(calls[0].prompt.system).toContain(SourceType.NEWS);
+    expect(calls[0].schema).toBeDefined();
+  });
+
+  it('streams well-formed events as NDJSON and drops the rest', async () => {
+    const { model } = stubModel({ chunks: chunked(eventLines.join('\n')) });
+
+    const response = await post(createAnalyzeTextHandler(model), { ...request, stream: true });
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+    expect(await readNdjson(response)).toEqual([
+      JSON.parse(eventLines[0]),
+      JSON.parse(eventLines[1]),
+      JSON.parse(eventLines[4]),
+    ]);
+  });
+
+  it('passes a rate limit through when the model fails before streaming anything', async () => {
+    const { model } = stubModel({ error: new ModelError('busy', 429, '5') });
+
+    const response = await post(createAnalyzeTextHandler(model), { ...request, stream: true });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('5');
+    expect(await response.json()).toEqual({ error: 'busy' });
+  });
+
+  it('ends with an error event when the model fails mid-stream', async () => {
+    const { model } = stubModel({ chunks: [`${eventLines[0]}\n`, 'partial line'], error: new ModelError('The AI model request failed'), failAfterChunks: 1 });
+
+    const response = await post(createAnalyzeTextHandler(model), { ...request, stream: true });
+
+    expect(await readNdjson(response)).toEqual([
+      JSON.parse(eventLines[0]),
+      { type: 'error', error: 'The AI model request failed' },
+    ]);
+  });
+
+  it('reports an error event when the model streams nothing usable', async () => {
+    const { model } = stubModel({ chunks: ['Sorry, I cannot help with that.'] });
+
+    const response = await post(createAnalyzeTextHandler(model), { ...request, stream: true });
+
+    expect(await readNdjson(response)).toEqual([{ type: 'error', error: 'The model returned no analysis.' }]);
+  });
+
+  it('rejects malformed requests without calling the model', async () => {
+    const { model, calls } = stubModel();
+    const handler = createAnalyzeTextHandler(model);
+
+    expect((await post(handler, { text: 'hi', sourceType: 'Tweet' })).status).toBe(400);
+    expect((await post(handler, { ...request, text: '  ' })).status).toBe(400);
+    expect((await post(handler, 'not json')).status).toBe(400);
+    expect((await post(handler, { ...request, text: 'a'.repeat(MAX_TEXT_LENGTH + 1) })).status).toBe(413);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('streams events the client understands', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.resetModules();
+    vi.stubEnv('VITE_SUPABASE_URL', 'https://example.supabase.co');
+    vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon-key');
+    vi.doMock('../../../services/authService', () => ({ authService: { getSession: async () => null } }));
+    const { edgeProvider } = await import('../../../services/providers/edgeProvider');
+
+    const handler = createAnalyzeTextHandler(stubModel({ chunks: chunked(eventLines.join('\n')) }).model);
+    vi.stubGlobal('fetch', (url: string, init: RequestInit) => handler(new Request(url, init)));
+    const partials: number[] = [];
+
+    const result = await edgeProvider.analyzeText(request.text, request.sourceType, new AbortController().signal, partial => partials.push(partial.vocabulary.length));
+
+    expect(result.summary).toBe(SAMPLE_ANALYSIS.summary);
+    expect(result.vocabulary.map(item => item.term)).toEqual(['headwinds']);
+    expect(partials).toEqual([0, 0, 1]);
+
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.doUnmock('../../../services/authService');
+  });
+});
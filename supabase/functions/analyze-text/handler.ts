@@ -0,0 +1,88 @@
+import { AnalysisEvent, AnalysisResult, AnalyzeTextRequest } from '../../../types.ts';
+import { corsHeaders, HttpError, serveJson } from '../_shared/http.ts';
+import { generateJson, Model, ModelError } from '../_shared/model.ts';
+import { analysisEventsPrompt, analysisPrompt } from '../_shared/prompts.ts';
+import { ANALYSIS_EVENT_SCHEMAS, ANALYSIS_RESULT_SCHEMA, ANALYZE_TEXT_REQUEST_SCHEMA, schemaErrors } from '../_shared/schema.ts';
+
+// Well above a client chunk (MAX_CHUNK_WORDS in services/chunkService.ts)
+export const MAX_TEXT_LENGTH = 40_000;
+
+// Split streamed text into lines as they complete
+async function* linesOf(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    yield* lines;
+  }
+  yield buffer;
+}
+
+/**
+ * One line of the model's reply as an event for the client, or null when the
+ * line isn't a well-formed meta, structure or vocabulary event
+ */
+export const parseAnalysisEvent = (line: string): AnalysisEvent | null => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('{')) return null;
+  let value: { type?: unknown };
+  try {
+    value = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  const schema = ANALYSIS_EVENT_SCHEMAS[value?.type as keyof typeof ANALYSIS_EVENT_SCHEMAS];
+  if (!schema || schemaErrors(schema, value).length > 0) return null;
+  return value as AnalysisEvent;
+};
+
+/**
+ * Forward the model's events as NDJSON while it writes them. The first chunk
+ * is awaited before replying, so a model that fails outright still gets a
+ * proper error status; failures after that arrive as an `error` event.
+ */
+const streamAnalysis = async (model: Model, { text, sourceType }: AnalyzeTextRequest, signal: AbortSignal): Promise<Response> => {
+  const lines = linesOf(model.stream(analysisEventsPrompt(text, sourceType), { signal }));
+  const first = await lines.next();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      let sent = 0;
+      const forward = (line: string) => {
+        const event = parseAnalysisEvent(line);
+        if (event) {
+          send(event);
+          sent++;
+        } else if (line.trim()) {
+          console.warn('Skipping malformed analysis line', line);
+        }
+      };
+
+      try {
+        if (!first.done) forward(first.value);
+        for await (const line of lines) forward(line);
+        if (sent === 0) send({ type: 'error', error: 'The model returned no analysis.' });
+      } catch (e) {
+        console.error('Analysis stream failed', e);
+        send({ type: 'error', error: e instanceof ModelError ? e.message : 'The analysis stopped unexpectedly.' });
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(body, { headers: { ...corsHeaders, 'Content-Type': 'application/x-ndjson' } });
+};
+
+export const createAnalyzeTextHandler = (model: Model) =>
+  serveJson<AnalyzeTextRequest>(ANALYZE_TEXT_REQUEST_SCHEMA, async (request, signal) => {
+    if (!request.text.trim()) throw new HttpError(400, 'There is no text to analyze');
+    if (request.text.length > MAX_TEXT_LENGTH) {
+      throw new HttpError(413, `Texts are limited to ${MAX_TEXT_LENGTH} characters per request`);
+    }
+
+    if (request.stream) return streamAnalysis(model, request, signal);
+    return generateJson<AnalysisResult>(model, analysisPrompt(request.text, request.sourceType), ANALYSIS_RESULT_SCHEMA, signal);
+  });
@@ -0,0 +1,17 @@
+import { GeneratedPractice, GeneratePracticeRequest } from '../../../types.ts';
+import { HttpError, serveJson } from '../_shared/http.ts';
+import { generateJson, Model } from '../_shared/model.ts';
+import { practicePrompt } from '../_shared/prompts.ts';
+import { GENERATE_PRACTICE_REQUEST_SCHEMA, PRACTICE_SCHEMA } from '../_shared/schema.ts';
+
+// One practice batch covers a handful of terms; more makes for a rambling scenario
+export const MAX_PRACTICE_TERMS = 20;
+
+export const createGeneratePracticeHandler = (model: Model) =>
+  serveJson<GeneratePracticeRequest>(GENERATE_PRACTICE_REQUEST_SCHEMA, ({ vocabulary }, signal) => {
+    if (vocabulary.length === 0) throw new HttpError(400, 'Pick at least one term to practice');
+    if (vocabulary.length > MAX_PRACTICE_TERMS) {
+      throw new HttpError(400, `Practice up to ${MAX_PRACTICE_TERMS} terms at a time`);
+    }
+    return generateJson<GeneratedPractice>(model, practicePrompt(vocabulary), PRACTICE_SCHEMA, signal);
+  });
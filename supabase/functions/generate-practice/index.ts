@@ -0,0 +1,9 @@
+import { createGeminiModel } from '../_shared/model.ts';
+import { createGeneratePracticeHandler } from './handler.ts';
+
+const model = createGeminiModel({
+  apiKey: Deno.env.get('GEMINI_API_KEY') ?? '',
+  model: Deno.env.get('GEMINI_MODEL') ?? 'gemini-2.5-flash',
+});
+
+Deno.serve(createGeneratePracticeHandler(model));
@@ -0,0 +1,11 @@
+import { AnalysisResult, GenerateStrategyRequest } from '../../../types.ts';
+import { HttpError, serveJson } from '../_shared/http.ts';
+import { generateJson, Model } from '../_shared/model.ts';
+import { strategyPrompt } from '../_shared/prompts.ts';
+import { ANALYSIS_RESULT_SCHEMA, GENERATE_STRATEGY_REQUEST_SCHEMA } from '../_shared/schema.ts';
+
+export const createGenerateStrategyHandler = (model: Model) =>
+  serveJson<GenerateStrategyRequest>(GENERATE_STRATEGY_REQUEST_SCHEMA, ({ topic }, signal) => {
+    if (!topic.trim()) throw new HttpError(400, 'There is no topic to plan for');
+    return generateJson<AnalysisResult>(model, strategyPrompt(topic), ANALYSIS_RESULT_SCHEMA, signal);
+  });
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { post, stubModel } from '../_shared/testing';
+import { createGradeAnswerHandler, MAX_ANSWER_LENGTH } from './handler';
+
+const request = {
+  original_concept: 'The economy is facing difficulties.',
+  target_term: 'headwinds',
+  native_version: 'The economy is facing strong headwinds.',
+  answer: 'The economy is facing big headwinds.',
+};
+
+const grade = {
+  score: 7.6,
+  used_target: true,
+  issues: [{ phrase: 'big headwinds', problem: 'Headwinds are strong, not big', suggestion: 'strong headwinds' }],
+  suggested_fix: 'The economy is facing strong headwinds.',
+  feedback: 'Nearly there.',
+};
+
+describe('grade-answer', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('grades the answer against the target, rounding the score', async () => {
+    const { model, calls } = stubModel({ reply: JSON.stringify(grade) });
+
+    const response = await post(createGradeAnswerHandler(model), request);
+
+    expect(await response.json()).toEqual({ ...grade, score: 8 });
+    expect(calls[0].prompt.user).toContain(`Learner's answer: ${request.answer}`);
+  });
+
+  it('refuses empty and overlong answers without asking the model', async () => {
+    const { model, calls } = stubModel();
+
+    const empty = await post(createGradeAnswerHandler(model), { ...request, answer: '  ' });
+    const overlong = await post(createGradeAnswerHandler(model), { ...request, answer: 'a'.repeat(MAX_ANSWER_LENGTH + 1) });
+
+    expect(empty.status).toBe(400);
+    expect(overlong.status).toBe(400);
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,19 @@
+import { AnswerGrade, GradeAnswerRequest } from '../../../types.ts';
+import { HttpError, serveJson } from '../_shared/http.ts';
+import { generateJson, Model } from '../_shared/model.ts';
+import { gradeAnswerPrompt } from '../_shared/prompts.ts';
+import { ANSWER_GRADE_SCHEMA, GRADE_ANSWER_REQUEST_SCHEMA } from '../_shared/schema.ts';
+
+// A sentence or two; anything longer isn't an answer to one prompt
+export const MAX_ANSWER_LENGTH = 500;
+
+export const createGradeAnswerHandler = (model: Model) =>
+  serveJson<GradeAnswerRequest>(GRADE_ANSWER_REQUEST_SCHEMA, async (request, signal) => {
+    if (!request.answer.trim()) throw new HttpError(400, 'There is no answer to grade');
+    if (request.answer.length > MAX_ANSWER_LENGTH) {
+      throw new HttpError(400, `Answers are limited to ${MAX_ANSWER_LENGTH} characters`);
+    }
+
+    const grade = await generateJson<AnswerGrade>(model, gradeAnswerPrompt(request), ANSWER_GRADE_SCHEMA, signal);
+    return { ...grade, score: Math.min(10, Math.max(0, Math.round(grade.score))) };
+  });
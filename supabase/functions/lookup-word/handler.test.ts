@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ModelError } from '../_shared/model';
+import { post, stubModel } from '../_shared/testing';
+import { createLookupWordHandler } from './handler';
+
+const request = { word: 'pivot', context: 'The company announced a pivot to AI.' };
+
+describe('lookup-word', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('answers with the definition, tolerating fenced JSON', async () => {
+    const { model, calls } = stubModel({ reply: '```json\n{"definition": "a change of direction", "pronunciation": "/ˈpɪvət/"}\n```' });
+
+    const response = await post(createLookupWordHandler(model), request);
+
+    expect(await response.json()).toEqual({ definition: 'a change of direction', pronunciation: '/ˈpɪvət/' });
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(calls[0].prompt.user).toContain(request.context);
+  });
+
+  it('answers CORS preflight and refuses other methods', async () => {
+    const handler = createLookupWordHandler(stubModel().model);
+
+    expect((await handler(new Request('http://localhost', { method: 'OPTIONS' }))).status).toBe(200);
+    expect((await handler(new Request('http://localhost', { method: 'GET' }))).status).toBe(405);
+  });
+
+  it('explains what is wrong with a malformed request', async () => {
+    const response = await post(createLookupWordHandler(stubModel().model), { word: 42 });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Invalid request: $.word should be a string; $.context is required');
+  });
+
+  it('fails with 502 when the model replies in the wrong shape or not at all', async () => {
+    const wrongShape = await post(createLookupWordHandler(stubModel({ reply: '{"meaning": "a turn"}' }).model), request);
+    const failed = await post(createLookupWordHandler(stubModel({ error: new ModelError('The AI model request failed') }).model), request);
+
+    expect(wrongShape.status).toBe(502);
+    expect(await wrongShape.json()).toEqual({ error: 'The model replied in an unexpected shape' });
+    expect(failed.status).toBe(502);
+  });
+});
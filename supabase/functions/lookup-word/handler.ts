@@ -0,0 +1,11 @@
+import { LookupWordRequest, WordDefinition } from '../../../types.ts';
+import { HttpError, serveJson } from '../_shared/http.ts';
+import { generateJson, Model } from '../_shared/model.ts';
+import { lookupPrompt } from '../_shared/prompts.ts';
+import { LOOKUP_WORD_REQUEST_SCHEMA, WORD_DEFINITION_SCHEMA } from '../_shared/schema.ts';
+
+export const createLookupWordHandler = (model: Model) =>
+  serveJson<LookupWordRequest>(LOOKUP_WORD_REQUEST_SCHEMA, ({ word, context }, signal) => {
+    if (!word.trim()) throw new HttpError(400, 'There is no word to look up');
+    return generateJson<WordDefinition>(model, lookupPrompt(word, context), WORD_DEFINITION_SCHEMA, signal);
+  });
@@ -0,0 +1,12 @@
+-- Spaced-repetition schedule for saved words, plus the analysis each word was saved from.
+-- All nullable: a word without ease_factor and due_date has never been reviewed.
+-- Dates are epoch milliseconds written by the client.
+
+alter table public.saved_vocabulary
+  add column if not exists analysis_id text,
+  add column if not exists ease_factor double precision,
+  add column if not exists interval_days integer,
+  add column if not exists repetitions integer,
+  add column if not exists lapses integer,
+  add column if not exists due_date bigint,
+  add column if not exists last_reviewed_at bigint;
@@ -0,0 +1,31 @@
+-- Per-field merge and realtime echo suppression for multi-device sync.
+-- updated_at and field_updated_at are epoch milliseconds written by the client;
+-- client_id names the browser tab that made the write so it can skip its own realtime events.
+
+alter table public.saved_analyses
+  add column if not exists updated_at bigint,
+  add column if not exists field_updated_at jsonb,
+  add column if not exists client_id text;
+
+alter table public.analysis_folders
+  add column if not exists updated_at bigint,
+  add column if not exists field_updated_at jsonb,
+  add column if not exists client_id text;
+
+alter table public.saved_vocabulary
+  add column if not exists client_id text;
+
+-- Realtime: publish row changes for the synced tables
+do $$
+declare
+  synced text;
+begin
+  foreach synced in array array['saved_analyses', 'analysis_folders', 'saved_vocabulary'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = synced
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', synced);
+    end if;
+  end loop;
+end $$;
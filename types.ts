@@ -9,7 +9,9 @@ export enum SourceType {
 export enum AppMode {
   ANALYZE_TEXT = 'analyze_text',
   TOPIC_STRATEGY = 'topic_strategy',
-  HISTORY = 'history'
+  HISTORY = 'history',
+  REVIEW = 'review',
+  WORD_BANK = 'word_bank'
 }
 
 export type VocabularyCategory =
@@ -30,10 +32,11 @@ export interface VocabularyItem {
   definition: string;
   category: VocabularyCategory;
   source_context?: string; // How it was used in the original text
+  source_timestamp?: number; // Where source_context occurs in a subtitle file (ms from start)
   imagery_etymology?: string; // The "bee" explanation for "drone", or "bird" for "swoop"
   examples: DetailedExample[];
-  nuance?: string; // Kept for backward compatibility/fallback
-  example_usage?: string; // Kept for backward compatibility
+  nuance?: string; // Legacy (schema v1): migrated into examples on load
+  example_usage?: string; // Legacy (schema v1): migrated into examples on load
 }
 
 export interface StructurePoint {
@@ -55,12 +58,115 @@ export interface GeneratedPractice {
     original_concept: string;
     native_version: string;
     explanation: string;
+    term?: string; // The practiced expression used in native_version
   }[];
 }
 
+// A questionable word combination in a learner's answer
+export interface CollocationIssue {
+  phrase: string;
+  problem: string;
+  suggestion: string;
+}
+
+// How a learner's own attempt at a native version was judged
+export interface AnswerGrade {
+  score: number; // 0-10
+  used_target: boolean; // Whether the answer uses the target expression (or a correct form of it)
+  issues: CollocationIssue[];
+  suggested_fix: string; // The learner's answer with the issues fixed, kept as close to it as possible
+  feedback: string;
+}
+
+export interface WordDefinition {
+  definition: string;
+  pronunciation: string;
+}
+
+// --- Edge Function API (supabase/functions) ---
+
+export interface AnalyzeTextRequest {
+  text: string;
+  sourceType: SourceType;
+  stream?: boolean; // Reply as NDJSON AnalysisEvents instead of one AnalysisResult
+}
+
+export interface GenerateStrategyRequest {
+  topic: string;
+}
+
+export interface GeneratePracticeRequest {
+  vocabulary: VocabularyItem[];
+}
+
+export interface GradeAnswerRequest {
+  original_concept: string;
+  target_term: string;
+  native_version: string; // A model answer, for reference rather than an exact match
+  answer: string;
+}
+
+export interface LookupWordRequest {
+  word: string;
+  context: string;
+}
+
+// One line of a streamed analyze-text reply, in reading order
+export type AnalysisEvent =
+  | { type: 'meta'; summary: string; tone: string }
+  | { type: 'structure'; point: StructurePoint }
+  | { type: 'vocabulary'; item: VocabularyItem }
+  | { type: 'error'; error: string };
+
+// Body of every non-2xx Edge Function reply
+export interface EdgeErrorBody {
+  error: string;
+  code?: string; // e.g. "quota_exceeded"
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 scheduling state for a single vocabulary card
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // Consecutive successful reviews
+  lapses: number;      // Times the card was forgotten after being learned
+  dueDate: number;
+  lastReviewedAt: number | null;
+}
+
+// How a flashcard was answered: typed correctly, typed wrong, or given up on
+export type FlashcardResult = 'correct' | 'incorrect' | 'skipped';
+
+// The kinds of flashcard exercise a session mixes; see services/exerciseService.ts
+export type ExerciseType = 'typed_recall' | 'multiple_choice' | 'matching' | 'cloze' | 'word_order' | 'context_choice';
+
+export interface FlashcardLog {
+  id: string;
+  term: string;
+  analysisId: string | null;
+  result: FlashcardResult;
+  answeredAt: number;
+  source?: 'flashcard' | 'practice'; // Where the term was answered; flashcard when missing
+  exerciseType?: ExerciseType; // Flashcard exercise kind; typed recall when missing
+}
+
+export interface ReviewLog {
+  id: string;
+  vocabularyId: string;
+  term: string;
+  grade: ReviewGrade;
+  intervalDays: number;
+  reviewedAt: number;
+}
+
 export interface SavedVocabularyItem extends VocabularyItem {
   id: string;
   dateAdded: number;
+  analysisId?: string | null; // Analysis the term was first studied in
+  review?: ReviewState;
+  schemaVersion?: number; // See SCHEMA_VERSION in schemaService
 }
 
 export interface Note {
@@ -69,6 +175,7 @@ export interface Note {
   definition: string;
   context: string;
   timestamp: number;
+  updatedAt?: number;
 }
 
 export interface SavedAnalysis {
@@ -80,11 +187,32 @@ export interface SavedAnalysis {
   fileName?: string | null;
   notes?: Note[];
   folderId?: string | null;
+  updatedAt?: number;
+  fieldUpdatedAt?: Partial<Record<AnalysisSyncField, number>>; // Per-field edit times for merging
+  schemaVersion?: number; // See SCHEMA_VERSION in schemaService
 }
 
+// Fields merged last-writer-wins when the same analysis changed on two devices (notes are union-merged)
+export type AnalysisSyncField = 'date' | 'sourceType' | 'inputText' | 'analysisResult' | 'fileName' | 'folderId';
+
 export interface AnalysisFolder {
   id: string;
   name: string;
   createdAt: number;
   color?: string;
+  updatedAt?: number;
+  fieldUpdatedAt?: Partial<Record<FolderSyncField, number>>;
+}
+
+export type FolderSyncField = 'name' | 'color';
+
+export interface ExportPayload {
+  exportDate: string;
+  appName: 'NativeNuance';
+  version: string;
+  data: {
+    analyses: SavedAnalysis[];
+    vocabulary: SavedVocabularyItem[];
+    folders?: AnalysisFolder[]; // Added in export version 1.1
+  };
 }